@@ -12,13 +12,23 @@ import { dirname, join } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Options that take a value, so their value isn't mistaken for the command
+const VALUE_OPTIONS = ['--port', '--timeout', '--config', '--transport', '--policy', '--audit-log', '--favorites'];
+
 // Get command line arguments
 const args = process.argv.slice(2);
-const command = args[0];
+const command = args.find((arg, i) => !arg.startsWith('--') && !VALUE_OPTIONS.includes(args[i - 1]));
 
 // CLI Configuration
 const CLI_VERSION = "1.0.0";
-const SERVER_SCRIPT = join(__dirname, 'index.js');
+const SERVER_SCRIPTS = {
+  stdio: join(__dirname, 'stdio.js'),
+  http: join(__dirname, 'index.js')
+};
+const SERVER_SCRIPT = SERVER_SCRIPTS.http;
+
+type Transport = keyof typeof SERVER_SCRIPTS;
+type Logger = (...data: any[]) => void;
 
 // Help text
 const HELP_TEXT = `
@@ -37,19 +47,28 @@ COMMANDS:
   help                     Show this help message
 
 OPTIONS:
-  --port <port>           Specify port (default: auto)
+  --transport <type>      Transport to serve: stdio or http (default: stdio)
+  --port <port>           Specify port for the http transport (default: 3000)
   --debug                 Enable debug mode
   --config <file>         Specify config file
   --timeout <ms>          Request timeout in milliseconds
+  --policy <file>         Action policy file applied to every session
+  --audit-log <file>      JSONL file service calls are logged to
+  --favorites <file>      JSON file favorites are stored in
 
 ENVIRONMENT VARIABLES:
   HOMEASSISTANT_URL       Home Assistant URL (required)
   HOMEASSISTANT_TOKEN     Long-lived access token (required)
   DEBUG                   Enable debug logging
   REQUEST_TIMEOUT         Request timeout in milliseconds
+  TOOL_GROUPS             Comma-separated tool groups to enable (stdio transport)
+  POLICY_FILE             Action policy file (same as --policy)
+  AUDIT_LOG_FILE          Audit log file (same as --audit-log)
+  FAVORITES_FILE          Favorites file (same as --favorites)
 
 EXAMPLES:
   npx @thelord/enhanced-homeassistant-mcp start
+  npx @thelord/enhanced-homeassistant-mcp start --transport http --port 3000
   npx @thelord/enhanced-homeassistant-mcp inspect
   npx @thelord/enhanced-homeassistant-mcp minimal
   npx @thelord/enhanced-homeassistant-mcp --debug start
@@ -67,42 +86,49 @@ Platform: ${process.platform}
 Architecture: ${process.arch}
 `;
 
-// Health check function
-async function healthCheck() {
-  console.log("🔍 Performing Health Check...\n");
+// Health check function. The stdio transport uses stdout for the protocol,
+// so callers starting it pass console.error as the logger.
+async function healthCheck(log: Logger = console.log) {
+  log("🔍 Performing Health Check...\n");
   
-  // Check environment variables
+  // Check environment variables (the HOME_ASSISTANT_* spelling from .env also works)
   const requiredEnvVars = ['HOMEASSISTANT_URL', 'HOMEASSISTANT_TOKEN'];
+  requiredEnvVars.forEach(varName => {
+    const alias = varName.replace('HOMEASSISTANT_', 'HOME_ASSISTANT_');
+    if (!process.env[varName] && process.env[alias]) {
+      process.env[varName] = process.env[alias];
+    }
+  });
   const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
   
   if (missingVars.length > 0) {
-    console.log("❌ Missing required environment variables:");
+    log("❌ Missing required environment variables:");
     missingVars.forEach(varName => {
-      console.log(`   - ${varName}`);
+      log(`   - ${varName}`);
     });
-    console.log("\nPlease set these variables before starting the server.");
+    log("\nPlease set these variables before starting the server.");
     return false;
   }
   
-  console.log("✅ Environment variables configured");
-  console.log(`   - HOMEASSISTANT_URL: ${process.env.HOMEASSISTANT_URL}`);
-  console.log(`   - HOMEASSISTANT_TOKEN: ${'*'.repeat(20)}...`);
+  log("✅ Environment variables configured");
+  log(`   - HOMEASSISTANT_URL: ${process.env.HOMEASSISTANT_URL}`);
+  log(`   - HOMEASSISTANT_TOKEN: ${'*'.repeat(20)}...`);
   
   if (process.env.DEBUG) {
-    console.log("🐛 Debug mode enabled");
+    log("🐛 Debug mode enabled");
   }
   
   if (process.env.REQUEST_TIMEOUT) {
-    console.log(`⏱️  Request timeout: ${process.env.REQUEST_TIMEOUT}ms`);
+    log(`⏱️  Request timeout: ${process.env.REQUEST_TIMEOUT}ms`);
   }
   
-  console.log("\n✅ Health check passed - Ready to start server!");
+  log("\n✅ Health check passed - Ready to start server!");
   return true;
 }
 
 // Start server function
-function startServer(scriptPath: string, extraArgs: string[] = []) {
-  console.log(`🚀 Starting Enhanced Home Assistant MCP Server...\n`);
+function startServer(scriptPath: string, extraArgs: string[] = [], log: Logger = console.log) {
+  log(`🚀 Starting Enhanced Home Assistant MCP Server...\n`);
   
   const child = spawn('node', [scriptPath, ...extraArgs], {
     stdio: 'inherit',
@@ -123,12 +149,12 @@ function startServer(scriptPath: string, extraArgs: string[] = []) {
   
   // Handle graceful shutdown
   process.on('SIGINT', () => {
-    console.log('\n🛑 Shutting down server...');
+    log('\n🛑 Shutting down server...');
     child.kill('SIGINT');
   });
   
   process.on('SIGTERM', () => {
-    console.log('\n🛑 Shutting down server...');
+    log('\n🛑 Shutting down server...');
     child.kill('SIGTERM');
   });
 }
@@ -145,11 +171,27 @@ function parseOptions(args: string[]) {
       process.env.DEBUG = 'true';
     } else if (arg === '--port' && i + 1 < args.length) {
       options.port = args[i + 1];
+      process.env.PORT = args[i + 1];
       i++;
     } else if (arg === '--timeout' && i + 1 < args.length) {
       options.timeout = args[i + 1];
       process.env.REQUEST_TIMEOUT = args[i + 1];
       i++;
+    } else if (arg === '--policy' && i + 1 < args.length) {
+      options.policy = args[i + 1];
+      process.env.POLICY_FILE = args[i + 1];
+      i++;
+    } else if (arg === '--audit-log' && i + 1 < args.length) {
+      options.auditLog = args[i + 1];
+      process.env.AUDIT_LOG_FILE = args[i + 1];
+      i++;
+    } else if (arg === '--favorites' && i + 1 < args.length) {
+      options.favorites = args[i + 1];
+      process.env.FAVORITES_FILE = args[i + 1];
+      i++;
+    } else if (arg === '--transport' && i + 1 < args.length) {
+      options.transport = args[i + 1];
+      i++;
     } else if (arg === '--config' && i + 1 < args.length) {
       options.config = args[i + 1];
       i++;
@@ -200,11 +242,18 @@ async function main() {
     case 'start':
     case undefined:
       // Default command - start server
-      const healthy = await healthCheck();
+      const transport: Transport = options.transport || 'stdio';
+      if (!(transport in SERVER_SCRIPTS)) {
+        console.error(`❌ Unknown transport: ${transport} (expected stdio or http)`);
+        process.exit(1);
+      }
+      
+      const log = transport === 'stdio' ? console.error : console.log;
+      const healthy = await healthCheck(log);
       if (healthy) {
-        startServer(SERVER_SCRIPT);
+        startServer(SERVER_SCRIPTS[transport], [], log);
       } else {
-        console.log("\n💡 Tip: Run 'npx enhanced-homeassistant-mcp health' to check configuration");
+        log("\n💡 Tip: Run 'npx enhanced-homeassistant-mcp health' to check configuration");
         process.exit(1);
       }
       break;
@@ -0,0 +1,164 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from 'zod';
+import { homedir } from 'os';
+import { join } from 'path';
+
+// Import all tool modules
+import { registerResources } from "./tools/homeassistant/resources.js";
+import { registerMinimalTools } from "./tools/homeassistant/minimal.js";
+import { registerPrompts } from "./tools/homeassistant/prompts.js";
+import { registerInstanceTools } from "./tools/homeassistant/instances.js";
+import { registerAuditTools } from "./tools/homeassistant/audit.js";
+import { registerUndoTools } from "./tools/homeassistant/undo.js";
+import { ToolRegistry } from "./tools/registry.js";
+import { HomeAssistantClient } from "./utils/client.js";
+import { FavoritesStore } from "./utils/favorites.js";
+import { ActionPolicy, loadPolicy } from "./utils/policy.js";
+import { AuditLog } from "./utils/audit.js";
+import { UndoHistory } from "./utils/undo.js";
+import { TOOL_GROUP_NAMES, ToolSetLoader, registerLoaderTools } from "./tools/loader.js";
+
+const DEFAULT_FAVORITES_FILE = join(homedir(), '.enhanced-homeassistant-mcp', 'favorites.json');
+const DEFAULT_AUDIT_LOG_FILE = join(homedir(), '.enhanced-homeassistant-mcp', 'audit.jsonl');
+
+// Configuration schema for validation
+export const configSchema = z.object({
+  homeAssistantToken: z.string().describe("Long-Lived Access Token for authenticating with Home Assistant"),
+  homeAssistantUrl: z.string().url().describe("URL of your Home Assistant instance"),
+  instanceName: z.string().min(1).optional().default("default").describe("Name of the instance at homeAssistantUrl, used by the `instance` tool argument"),
+  instances: z.array(z.object({
+    name: z.string().min(1).describe("Name used to select the instance with the `instance` tool argument"),
+    url: z.string().url().describe("URL of the Home Assistant instance"),
+    token: z.string().describe("Long-Lived Access Token for the instance")
+  })).optional().default([]).describe("Additional Home Assistant instances reachable from the same session"),
+  debug: z.boolean().optional().default(false).describe("Enable debug logging"),
+  requestTimeout: z.number().min(1000).max(60000).optional().default(10000).describe("Request timeout in milliseconds"),
+  maxRetries: z.number().int().min(0).max(10).optional().default(2).describe("Times a GET is retried, with exponential backoff, when Home Assistant is unavailable or doesn't respond in time"),
+  retryBaseDelay: z.number().min(0).optional().default(500).describe("Delay in milliseconds before the first retry, doubled for each retry after it"),
+  circuitBreakerThreshold: z.number().int().min(0).optional().default(5).describe("Failed requests in a row after which requests fail fast until Home Assistant is back (0 disables the circuit breaker)"),
+  circuitBreakerCooldown: z.number().min(1000).optional().default(30000).describe("Milliseconds requests fail fast before a test request checks whether Home Assistant is back"),
+  stateCacheTtl: z.number().min(0).optional().default(30000).describe("Maximum age in milliseconds of cached entity states when live state_changed events are unavailable (0 disables the cache)"),
+  dryRun: z.boolean().optional().default(false).describe("Run every state-changing tool as a dry run unless a call passes dry_run: false"),
+  toolGroups: z.array(z.enum(TOOL_GROUP_NAMES)).optional().default([...TOOL_GROUP_NAMES]).describe("Tool groups to enable when the session starts (more can be loaded later with homeassistant_tool_groups)")
+});
+
+export type Config = z.infer<typeof configSchema>;
+
+/**
+ * Settings shared by every session. They are read once when the server
+ * starts and can't be changed from the session config, so a client can't
+ * pick its own policy or choose which files the server writes to.
+ */
+export interface ServerSettings {
+  // Action policy every service call is checked against (default: allow everything)
+  policy?: ActionPolicy;
+  // Audit log every service call is appended to
+  audit: AuditLog;
+  // Favorites of every session, scoped per instance
+  favorites: FavoritesStore;
+}
+
+/**
+ * Read the server settings from environment variables (the CLI sets them
+ * from its flags). A policy that can't be loaded is fatal rather than
+ * silently allowing everything.
+ */
+export function serverSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): ServerSettings {
+  return {
+    policy: env.POLICY_FILE ? loadPolicy(env.POLICY_FILE) : undefined,
+    audit: new AuditLog(env.AUDIT_LOG_FILE || DEFAULT_AUDIT_LOG_FILE),
+    favorites: new FavoritesStore(env.FAVORITES_FILE || DEFAULT_FAVORITES_FILE)
+  };
+}
+
+/**
+ * Create an MCP server with all tools, resources and prompts registered.
+ * Shared by the HTTP (Smithery) and stdio entrypoints; an embedding
+ * application can add its own tools with registerExtraTools. Fails if two
+ * tools share a name rather than starting with part of the tool set.
+ */
+export function createMcpServer({ sessionId, config, settings, registerExtraTools }: {
+  sessionId: string;
+  config: Config;
+  settings: ServerSettings;
+  registerExtraTools?: (registry: ToolRegistry, client: HomeAssistantClient) => void;
+}) {
+  const { policy, audit, favorites } = settings;
+
+  // Each session talks to Home Assistant through its own client
+  const client = new HomeAssistantClient({
+    instances: [
+      { name: config.instanceName, url: config.homeAssistantUrl, token: config.homeAssistantToken },
+      ...config.instances
+    ],
+    timeout: config.requestTimeout,
+    stateCacheTtl: config.stateCacheTtl,
+    retry: { maxRetries: config.maxRetries, baseDelay: config.retryBaseDelay },
+    circuitBreaker: { failureThreshold: config.circuitBreakerThreshold, cooldown: config.circuitBreakerCooldown },
+    policy,
+    audit,
+    sessionId
+  });
+
+  const server = new McpServer({
+    name: "Enhanced Home Assistant MCP",
+    version: "1.0.0",
+    capabilities: {
+      tools: {},
+      resources: {},
+      prompts: {}
+    }
+  });
+
+  // Changes can only be undone from the session that made them
+  const undo = new UndoHistory();
+  const registry = new ToolRegistry(server, client, { dryRun: config.dryRun, undo });
+  const loader = new ToolSetLoader(registry, client, { favorites });
+
+  console.error(`[${sessionId}] Registering Home Assistant MCP tools...`);
+  
+  try {
+    // Essential tools and the group loader are always available
+    registry.registerGroup("minimal", (r) => registerMinimalTools(r, client));
+    registry.registerGroup("loader", (r) => registerLoaderTools(r, loader), { perInstance: false });
+    registry.registerGroup("instances", (r) => registerInstanceTools(r, client), { perInstance: false });
+    registry.registerGroup("audit", (r) => registerAuditTools(r, client, audit), { perInstance: false });
+    registry.registerGroup("undo", (r) => registerUndoTools(r, client, undo), { perInstance: false });
+    
+    // Resources, prompts and their request handlers must exist before the transport connects
+    registerResources(server, client);
+    registerPrompts(server, client);
+    
+    // Groups enabled in the session config are part of the initial tool list;
+    // the rest can be loaded on demand, which notifies the client via tools/list_changed
+    for (const group of config.toolGroups) {
+      const tools = loader.load(group);
+      console.error(`[${sessionId}]   - ${group}: ${tools.length} tools`);
+    }
+    
+    if (registerExtraTools) {
+      registry.registerGroup("extra", (r) => registerExtraTools(r, client));
+    }
+    
+    console.error(`[${sessionId}] Tools registered successfully`);
+    console.error(`[${sessionId}] Connected to: ${config.homeAssistantUrl}`);
+    config.instances.forEach(instance => {
+      console.error(`[${sessionId}] Additional instance ${instance.name}: ${instance.url}`);
+    });
+    if (policy) {
+      console.error(`[${sessionId}] Action policy: ${policy.source} (${policy.rules.length} rules, default ${policy.defaultEffect})`);
+    }
+  } catch (error) {
+    console.error(`[${sessionId}] Error registering tools:`, error);
+    client.close();
+    throw error;
+  }
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    previousOnClose?.();
+    client.close();
+  };
+
+  return server;
+}
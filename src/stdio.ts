@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import dotenv from 'dotenv';
+import { configSchema, createMcpServer, serverSettingsFromEnv } from "./server.js";
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Build the session config from environment variables. Both the
+ * HOME_ASSISTANT_* names from .env and the HOMEASSISTANT_* names used by the
+ * CLI are accepted. Additional instances are given as a JSON array in
+ * HOME_ASSISTANT_INSTANCES, e.g. [{"name":"lab","url":"...","token":"..."}].
+ */
+function configFromEnv() {
+  const env = process.env;
+  const toolGroups = env.TOOL_GROUPS
+    ?.split(',')
+    .map(group => group.trim())
+    .filter(group => group.length > 0);
+
+  let instances: unknown;
+  if (env.HOME_ASSISTANT_INSTANCES) {
+    try {
+      instances = JSON.parse(env.HOME_ASSISTANT_INSTANCES);
+    } catch (error: any) {
+      // Leave the raw string so validation reports it
+      console.error(`HOME_ASSISTANT_INSTANCES is not valid JSON: ${error.message}`);
+      instances = env.HOME_ASSISTANT_INSTANCES;
+    }
+  }
+
+  return configSchema.safeParse({
+    homeAssistantUrl: env.HOME_ASSISTANT_URL || env.HOMEASSISTANT_URL,
+    homeAssistantToken: env.HOME_ASSISTANT_TOKEN || env.HOMEASSISTANT_TOKEN,
+    instanceName: env.HOME_ASSISTANT_INSTANCE_NAME,
+    instances,
+    debug: env.DEBUG === 'true',
+    dryRun: env.DRY_RUN === 'true',
+    requestTimeout: env.REQUEST_TIMEOUT ? Number(env.REQUEST_TIMEOUT) : undefined,
+    maxRetries: env.MAX_RETRIES ? Number(env.MAX_RETRIES) : undefined,
+    retryBaseDelay: env.RETRY_BASE_DELAY ? Number(env.RETRY_BASE_DELAY) : undefined,
+    circuitBreakerThreshold: env.CIRCUIT_BREAKER_THRESHOLD ? Number(env.CIRCUIT_BREAKER_THRESHOLD) : undefined,
+    circuitBreakerCooldown: env.CIRCUIT_BREAKER_COOLDOWN ? Number(env.CIRCUIT_BREAKER_COOLDOWN) : undefined,
+    stateCacheTtl: env.STATE_CACHE_TTL ? Number(env.STATE_CACHE_TTL) : undefined,
+    toolGroups
+  });
+}
+
+async function main() {
+  const parsed = configFromEnv();
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `  - ${issue.path.join('.')}: ${issue.message}`).join('\n');
+    console.error(`Invalid configuration:\n${issues}`);
+    console.error('Set HOME_ASSISTANT_URL and HOME_ASSISTANT_TOKEN before starting the stdio server.');
+    process.exit(1);
+  }
+
+  // stdout carries the MCP protocol, so all logging goes to stderr
+  const server = createMcpServer({ sessionId: "stdio", config: parsed.data, settings: serverSettingsFromEnv() });
+  const transport = new StdioServerTransport();
+
+  await server.connect(transport);
+  console.error('Enhanced Home Assistant MCP server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Failed to start stdio server:', error);
+  process.exit(1);
+});
+
+// Handle graceful shutdown
+process.on('SIGINT', () => {
+  console.error('Received SIGINT, shutting down gracefully...');
+  process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+  console.error('Received SIGTERM, shutting down gracefully...');
+  process.exit(0);
+});
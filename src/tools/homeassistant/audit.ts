@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+import { AuditLog } from "../../utils/audit.js";
+import { TARGET_KEYS } from "../../utils/targets.js";
+import { cursorAnchor, describePage, pageInfo, pageOutputSchema, paginate, paginationArguments } from "../../utils/pagination.js";
+
+const auditEntrySchema = z.object({
+  timestamp: z.string(),
+  session_id: z.string(),
+  instance: z.string(),
+  tool: z.string().optional(),
+  domain: z.string(),
+  service: z.string(),
+  entity_ids: z.array(z.string()),
+  service_data: z.any(),
+  result: z.object({
+    success: z.boolean(),
+    status_code: z.number().optional(),
+    message: z.string().optional()
+  })
+});
+
+/**
+ * Register tools for querying the audit log of service calls
+ */
+export function registerAuditTools(registry: ToolRegistry, client: HomeAssistantClient, audit: AuditLog) {
+  // Tool to query the audit log
+  registry.tool(
+    "homeassistant_audit_log",
+    "Query the audit log of service calls made through this server (by any session), newest first",
+    {
+      start_time: z.string().optional().describe("Only entries at or after this ISO timestamp"),
+      end_time: z.string().optional().describe("Only entries at or before this ISO timestamp"),
+      hours: z.number().optional().describe("Only entries from the last N hours (ignored when start_time is given)"),
+      entity_id: z.string().optional().describe("Only calls that targeted this entity"),
+      session_id: z.string().optional().describe("Only calls made by this MCP session ('current' for this session)"),
+      tool: z.string().optional().describe("Only calls made by this tool (e.g., 'homeassistant_call_service')"),
+      instance: z.string().optional().describe("Only calls made to this Home Assistant instance"),
+      ...paginationArguments(50, "entries")
+    },
+    async ({ start_time, end_time, hours, entity_id, session_id, tool, instance, limit = 50, cursor, max_tokens }) => {
+      for (const [name, value] of [["start_time", start_time], ["end_time", end_time]]) {
+        if (value && isNaN(Date.parse(value))) {
+          return formatErrorResponse(`${name} is not a valid timestamp: ${value}`);
+        }
+      }
+
+      // Later pages keep the time of the first, so calls recorded in between don't shift them
+      const now = cursorAnchor(cursor) ?? new Date().toISOString();
+      const until = end_time ?? now;
+      const since = start_time ?? (hours !== undefined ? new Date(Date.parse(now) - hours * 3600 * 1000).toISOString() : undefined);
+      const sessionId = session_id === 'current' ? client.sessionId : session_id;
+
+      let result;
+      try {
+        result = await audit.query({ since, until, entityId: entity_id, sessionId, tool, instance });
+      } catch (error: any) {
+        return formatErrorResponse(error.message);
+      }
+
+      const page = paginate(result.entries, {
+        listing: "audit_log",
+        query: { start_time, end_time, hours, entity_id, session_id: sessionId, tool, instance },
+        cursor,
+        limit,
+        maxTokens: max_tokens,
+        anchor: now
+      });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
+      }
+      const entries = page.data!.items;
+
+      const filters = [
+        since && `since ${since}`,
+        end_time && `until ${end_time}`,
+        entity_id && `entity ${entity_id}`,
+        sessionId && `session ${sessionId}`,
+        tool && `tool ${tool}`,
+        instance && `instance ${instance}`
+      ].filter(Boolean);
+
+      const output = [
+        "# Audit Log",
+        "",
+        filters.length > 0 ? `Filters: ${filters.join(', ')}` : "All recorded service calls",
+        `Showing ${entries.length} of ${result.total} entries`,
+        ""
+      ];
+
+      if (entries.length === 0) {
+        output.push(result.total === 0 ? "No matching service calls recorded." : describePage(page.data!, "entries"));
+        return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), entries });
+      }
+
+      entries.forEach(entry => {
+        const status = entry.result.success ? '✅' : '❌';
+        const targets = entry.entity_ids.length > 0 ? ` → ${entry.entity_ids.join(', ')}` : '';
+        output.push(`- ${status} **${entry.timestamp}** ${entry.domain}.${entry.service}${targets}`);
+        output.push(`  - Session: ${entry.session_id}, tool: ${entry.tool ?? 'none'}, instance: ${entry.instance}`);
+
+        const payload = { ...entry.service_data };
+        delete payload.entity_id;
+        const otherKeys = Object.keys(payload);
+        if (otherKeys.length > 0) {
+          const label = otherKeys.every(key => TARGET_KEYS.includes(key)) ? 'Targets' : 'Data';
+          output.push(`  - ${label}: \`${JSON.stringify(payload)}\``);
+        }
+        if (!entry.result.success) {
+          output.push(`  - Error: ${entry.result.message ?? `HTTP ${entry.result.status_code}`}`);
+        }
+      });
+
+      const pageNote = describePage(page.data!, "entries");
+      if (pageNote) {
+        output.push("", pageNote);
+      }
+
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), entries });
+    },
+    { outputSchema: pageOutputSchema("entries", auditEntrySchema) }
+  );
+}
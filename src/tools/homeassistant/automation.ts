@@ -1,23 +1,103 @@
 import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import {
-  getAllStates,
-  callHomeAssistantService,
-  formatErrorResponse,
-  formatSuccessResponse
-} from "../../utils/api.js";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+import { describePage, pageInfo, pageOutputSchema, paginate, paginationArguments } from "../../utils/pagination.js";
+
+const AUTOMATION_MODES = ["single", "restart", "queued", "parallel"] as const;
+
+// Structured content of the list and config tools
+const automationSummarySchema = z.object({
+  entity_id: z.string(),
+  friendly_name: z.string(),
+  state: z.string(),
+  last_triggered: z.string().describe("Timestamp of the last run, or \"Never\""),
+  unique_id: z.string().nullish(),
+  mode: z.string(),
+  current: z.number(),
+  max: z.number()
+});
+const sceneSummarySchema = z.object({
+  entity_id: z.string(),
+  friendly_name: z.string().nullish(),
+  entities: z.array(z.string())
+});
+const scriptSummarySchema = z.object({
+  entity_id: z.string(),
+  friendly_name: z.string().nullish(),
+  state: z.string(),
+  last_triggered: z.string().nullish()
+});
+const inputBooleanSummarySchema = z.object({
+  entity_id: z.string(),
+  friendly_name: z.string().nullish(),
+  state: z.string()
+});
+const configOutputSchema = {
+  config_id: z.string(),
+  config: z.record(z.any())
+};
+
+// Triggers use the `trigger` key since HA 2024.10; `platform` is still accepted
+const triggerSchema = z.record(z.any()).refine(
+  trigger => typeof trigger.trigger === 'string' || typeof trigger.platform === 'string',
+  { message: "Each trigger needs a 'trigger' (or legacy 'platform') key" }
+);
+
+const conditionSchema = z.record(z.any()).refine(
+  condition => typeof condition.condition === 'string' || ["and", "or", "not"].some(key => key in condition),
+  { message: "Each condition needs a 'condition' key (or an and/or/not shorthand)" }
+);
+
+// Validated before anything is sent to the automation config API
+const automationConfigSchema = z.object({
+  id: z.string().min(1),
+  alias: z.string().min(1, "alias is required"),
+  description: z.string().optional(),
+  triggers: z.array(triggerSchema).min(1, "at least one trigger is required"),
+  conditions: z.array(conditionSchema).optional().default([]),
+  actions: z.array(z.record(z.any())).min(1, "at least one action is required"),
+  mode: z.enum(AUTOMATION_MODES).optional().default("single"),
+  max: z.number().int().positive().optional()
+}).passthrough();
+
+const scriptConfigSchema = z.object({
+  alias: z.string().min(1, "alias is required"),
+  description: z.string().optional(),
+  sequence: z.array(z.record(z.any())).min(1, "at least one action is required"),
+  fields: z.record(z.any()).optional(),
+  mode: z.enum(AUTOMATION_MODES).optional().default("single"),
+  max: z.number().int().positive().optional(),
+  icon: z.string().optional()
+}).passthrough();
+
+const sceneConfigSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, "name is required"),
+  icon: z.string().optional(),
+  entities: z.record(z.union([z.string(), z.record(z.any())]))
+    .refine(entities => Object.keys(entities).length > 0, { message: "at least one entity is required" })
+}).passthrough();
+
+// Attributes that describe an entity rather than its state, left out of scene snapshots
+const NON_SCENE_ATTRIBUTES = [
+  "friendly_name", "icon", "entity_picture", "supported_features", "supported_color_modes",
+  "attribution", "device_class", "unit_of_measurement", "restored", "editable"
+];
 
 /**
  * Register automation and scene management tools
  */
-export function registerAutomationTools(server: McpServer) {
+export function registerAutomationTools(registry: ToolRegistry, client: HomeAssistantClient) {
   // Tool to list all automations (enhanced version from Python)
-  server.tool(
+  registry.tool(
     "homeassistant_list_automations",  
     "Get a list of all automations in Home Assistant with detailed information",
-    {},
-    async () => {  
-      const result = await getAllStates();
+    {
+      ...paginationArguments(100, "automations")
+    },
+    async ({ limit = 100, cursor, max_tokens }) => {  
+      const result = await client.getAllStates();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get automations: ${result.message}`);
@@ -28,7 +108,7 @@ export function registerAutomationTools(server: McpServer) {
       );
       
       if (automations.length === 0) {
-        return formatSuccessResponse("No automations found");
+        return formatSuccessResponse("No automations found", { automations: [] });
       }
       
       const processedAutomations = automations.map((entity: any) => {
@@ -44,9 +124,14 @@ export function registerAutomationTools(server: McpServer) {
         };
       });
 
+      const page = paginate<any>(processedAutomations, { listing: "list_automations", cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
+      }
+      
       const output = [`Found ${automations.length} automations:`, ""];
       
-      processedAutomations.forEach((automation: any) => {
+      page.data!.items.forEach((automation: any) => {
         const status = automation.state === 'on' ? '✅ Enabled' : '❌ Disabled';
         output.push(`${status} ${automation.entity_id}`);
         output.push(`   Name: ${automation.friendly_name}`);
@@ -58,12 +143,18 @@ export function registerAutomationTools(server: McpServer) {
         output.push("");
       });
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "automations");
+      if (pageNote) {
+        output.push(pageNote);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), automations: page.data!.items });
+    },
+    { outputSchema: pageOutputSchema("automations", automationSummarySchema) }
   );
 
   // Tool to enable/disable automation
-  server.tool(
+  registry.action(
     "homeassistant_toggle_automation",  
     "Enable or disable a Home Assistant automation",
     {
@@ -76,19 +167,19 @@ export function registerAutomationTools(server: McpServer) {
         return formatErrorResponse("Entity ID must be an automation (start with 'automation.')");
       }
       
-      const result = await callHomeAssistantService('automation', action, { entity_id });
+      const result = await client.callHomeAssistantService('automation', action, { entity_id });
       
       if (!result.success) {
         return formatErrorResponse(`Failed to ${action} automation: ${result.message}`);
       }
       
       const actionText = action === 'turn_on' ? 'enabled' : action === 'turn_off' ? 'disabled' : 'toggled';
-      return formatSuccessResponse(`Automation ${entity_id} has been ${actionText}`);
+      return formatSuccessResponse(`Automation ${entity_id} has been ${actionText}`, { entity_id, action });
     }
   );
 
   // Tool to trigger automation
-  server.tool(
+  registry.action(
     "homeassistant_trigger_automation",  
     "Manually trigger a Home Assistant automation",
     {
@@ -99,23 +190,256 @@ export function registerAutomationTools(server: McpServer) {
         return formatErrorResponse("Entity ID must be an automation (start with 'automation.')");
       }
       
-      const result = await callHomeAssistantService('automation', 'trigger', { entity_id });
+      const result = await client.callHomeAssistantService('automation', 'trigger', { entity_id });
       
       if (!result.success) {
         return formatErrorResponse(`Failed to trigger automation: ${result.message}`);
       }
       
-      return formatSuccessResponse(`Automation ${entity_id} has been triggered`);
+      return formatSuccessResponse(`Automation ${entity_id} has been triggered`, { entity_id, triggered: true });
+    }
+  );
+
+  // Tool to read the full configuration of an automation
+  registry.tool(
+    "homeassistant_get_automation_config",
+    "Get the full configuration (triggers, conditions, actions) of a UI-managed automation",
+    {
+      automation_id: z.string().describe("The automation entity ID (e.g., 'automation.living_room_lights') or its config id")
+    },
+    async ({ automation_id }) => {
+      const resolved = await resolveAutomationConfigId(client, automation_id);
+      if (!resolved.success) {
+        return formatErrorResponse(resolved.message);
+      }
+      
+      const result = await client.getConfigItem('automation', resolved.id);
+      
+      if (!result.success) {
+        if (result.statusCode === 404) {
+          return formatErrorResponse(`Automation config ${resolved.id} not found (it may be defined in YAML outside automations.yaml)`);
+        }
+        return formatErrorResponse(`Failed to get automation config: ${result.message}`);
+      }
+      
+      const config = normalizeAutomationConfig(result.data);
+      return formatSuccessResponse(
+        `Automation: ${config.alias || resolved.id}\n` +
+        `Config ID: ${resolved.id}\n\n` +
+        JSON.stringify(config, null, 2),
+        { config_id: resolved.id, config }
+      );
+    },
+    { outputSchema: configOutputSchema }
+  );
+
+  // Tool to create a new automation
+  registry.action(
+    "homeassistant_create_automation",
+    "Create a new automation from a trigger/condition/action spec (validated before saving, automations are reloaded afterwards)",
+    {
+      alias: z.string().describe("Name of the automation"),
+      description: z.string().optional().describe("Description of what the automation does"),
+      triggers: z.array(z.record(z.any())).describe("Triggers, e.g. [{'trigger': 'state', 'entity_id': 'binary_sensor.door', 'to': 'on'}]"),
+      conditions: z.array(z.record(z.any())).optional().describe("Conditions, e.g. [{'condition': 'sun', 'after': 'sunset'}]"),
+      actions: z.array(z.record(z.any())).describe("Actions, e.g. [{'action': 'light.turn_on', 'target': {'entity_id': 'light.hall'}}]"),
+      mode: z.enum(AUTOMATION_MODES).optional().describe("Run mode (default: single)"),
+      max: z.number().optional().describe("Maximum parallel runs (queued/parallel modes)"),
+      id: z.string().optional().describe("Optional config id (generated if omitted)")
+    },
+    async ({ id, ...spec }) => {
+      const configId = id || Date.now().toString();
+      
+      const existing = await client.getConfigItem('automation', configId);
+      if (existing.success) {
+        return formatErrorResponse(`An automation with config id ${configId} already exists. Use homeassistant_update_automation to change it.`);
+      }
+      
+      const validation = automationConfigSchema.safeParse({ id: configId, ...spec });
+      if (!validation.success) {
+        return formatErrorResponse(`Invalid automation config:\n${formatValidationIssues(validation.error)}`);
+      }
+      
+      const result = await client.saveConfigItem('automation', configId, validation.data);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to create automation: ${result.message}`);
+      }
+      
+      const reload = await client.callHomeAssistantService("automation", "reload", {});
+      const entityId = reload.success ? await findConfigItemEntityId(client, 'automation', configId) : undefined;
+      
+      return formatSuccessResponse(
+        `Created automation '${validation.data.alias}' (config id: ${configId})` +
+        (entityId ? `\nEntity: ${entityId}` : '') +
+        (reload.success ? '' : `\n⚠️ Automations could not be reloaded: ${reload.message}`),
+        { config_id: configId, entity_id: entityId, config: validation.data, reloaded: reload.success }
+      );
+    }
+  );
+
+  // Tool to update an existing automation
+  registry.action(
+    "homeassistant_update_automation",
+    "Update an existing UI-managed automation; only the provided fields are replaced (validated before saving, automations are reloaded afterwards)",
+    {
+      automation_id: z.string().describe("The automation entity ID or its config id"),
+      alias: z.string().optional().describe("New name of the automation"),
+      description: z.string().optional().describe("New description"),
+      triggers: z.array(z.record(z.any())).optional().describe("Replacement list of triggers"),
+      conditions: z.array(z.record(z.any())).optional().describe("Replacement list of conditions"),
+      actions: z.array(z.record(z.any())).optional().describe("Replacement list of actions"),
+      mode: z.enum(AUTOMATION_MODES).optional().describe("Run mode"),
+      max: z.number().optional().describe("Maximum parallel runs (queued/parallel modes)")
+    },
+    async ({ automation_id, ...changes }) => {
+      const resolved = await resolveAutomationConfigId(client, automation_id);
+      if (!resolved.success) {
+        return formatErrorResponse(resolved.message);
+      }
+      
+      const current = await client.getConfigItem('automation', resolved.id);
+      if (!current.success) {
+        return formatErrorResponse(`Failed to get current automation config: ${current.message}`);
+      }
+      
+      const updates = Object.fromEntries(
+        Object.entries(changes).filter(([, value]) => value !== undefined)
+      );
+      if (Object.keys(updates).length === 0) {
+        return formatErrorResponse("No changes provided");
+      }
+      
+      const validation = automationConfigSchema.safeParse({
+        ...normalizeAutomationConfig(current.data),
+        ...updates,
+        id: resolved.id
+      });
+      if (!validation.success) {
+        return formatErrorResponse(`Invalid automation config:\n${formatValidationIssues(validation.error)}`);
+      }
+      
+      const result = await client.saveConfigItem('automation', resolved.id, validation.data);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to update automation: ${result.message}`);
+      }
+      
+      const reload = await client.callHomeAssistantService("automation", "reload", {});
+      
+      return formatSuccessResponse(
+        `Updated automation '${validation.data.alias}' (${Object.keys(updates).join(', ')})` +
+        (reload.success ? '' : `\n⚠️ Automations could not be reloaded: ${reload.message}`),
+        { config_id: resolved.id, updated_fields: Object.keys(updates), config: validation.data, reloaded: reload.success }
+      );
+    }
+  );
+
+  // Tool to delete an automation
+  registry.action(
+    "homeassistant_delete_automation",
+    "Delete a UI-managed automation (automations are reloaded afterwards)",
+    {
+      automation_id: z.string().describe("The automation entity ID or its config id"),
+      confirm: z.boolean().describe("Set to true to confirm you want to delete the automation")
+    },
+    async ({ automation_id, confirm }) => {
+      if (!confirm) {
+        return formatErrorResponse("Deletion cancelled. Set confirm=true to delete the automation.");
+      }
+      
+      const resolved = await resolveAutomationConfigId(client, automation_id);
+      if (!resolved.success) {
+        return formatErrorResponse(resolved.message);
+      }
+      
+      const result = await client.deleteConfigItem('automation', resolved.id);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to delete automation: ${result.message}`);
+      }
+      
+      const reload = await client.callHomeAssistantService("automation", "reload", {});
+      
+      return formatSuccessResponse(
+        `Deleted automation ${automation_id}` +
+        (reload.success ? '' : `\n⚠️ Automations could not be reloaded: ${reload.message}`),
+        { config_id: resolved.id, deleted: true, reloaded: reload.success }
+      );
+    }
+  );
+
+  // Tool to inspect automation and script traces
+  registry.tool(
+    "homeassistant_get_trace",
+    "Inspect stored traces of an automation or script run: trigger, condition results, each action step with its result or error, and variables",
+    {
+      entity_id: z.string().describe("The automation or script entity ID (e.g., 'automation.hallway_motion', 'script.bedtime')"),
+      run_id: z.string().optional().describe("Specific run to inspect (default: the most recent run)"),
+      list_runs: z.boolean().optional().default(false).describe("If true, list the stored runs instead of rendering one trace"),
+      include_variables: z.boolean().optional().default(true).describe("Include the variables captured at each step")
+    },
+    async ({ entity_id, run_id, list_runs = false, include_variables = true }) => {
+      const domain = entity_id.split('.')[0];
+      if (domain !== 'automation' && domain !== 'script') {
+        return formatErrorResponse("Entity ID must be an automation or a script");
+      }
+      
+      let itemId = entity_id.substring(domain.length + 1);
+      if (domain === 'automation') {
+        const resolved = await resolveAutomationConfigId(client, entity_id);
+        if (!resolved.success) {
+          return formatErrorResponse(resolved.message);
+        }
+        itemId = resolved.id;
+      }
+      
+      const listResult = await client.listTraces(domain, itemId);
+      if (!listResult.success) {
+        return formatErrorResponse(`Failed to list traces: ${listResult.message}`);
+      }
+      
+      const runs: any[] = (listResult.data || [])
+        .slice()
+        .sort((a: any, b: any) => new Date(b.timestamp?.start).getTime() - new Date(a.timestamp?.start).getTime());
+      
+      if (runs.length === 0) {
+        return formatSuccessResponse(`No stored traces for ${entity_id} (traces are kept for the last few runs only)`, { entity_id, runs: [] });
+      }
+      
+      if (list_runs) {
+        const output = [`Stored traces for ${entity_id} (${runs.length}):`, ""];
+        runs.forEach(run => {
+          output.push(`${traceStatusIcon(run)} ${run.run_id}`);
+          output.push(`   Started: ${new Date(run.timestamp?.start).toLocaleString()}`);
+          if (run.trigger) output.push(`   Trigger: ${run.trigger}`);
+          output.push(`   Result: ${run.script_execution || run.state}`);
+          if (run.last_step) output.push(`   Last step: ${run.last_step}`);
+          if (run.error) output.push(`   Error: ${run.error}`);
+          output.push("");
+        });
+        return formatSuccessResponse(output.join('\n'), { entity_id, runs });
+      }
+      
+      const runId = run_id || runs[0].run_id;
+      const traceResult = await client.getTrace(domain, itemId, runId);
+      if (!traceResult.success) {
+        return formatErrorResponse(`Failed to get trace ${runId}: ${traceResult.message}`);
+      }
+      
+      return formatSuccessResponse(renderTrace(entity_id, traceResult.data, include_variables), { entity_id, run_id: runId, trace: traceResult.data });
     }
   );
 
   // Tool to list all scenes
-  server.tool(
+  registry.tool(
     "homeassistant_list_scenes",  
     "Get a list of all scenes in Home Assistant",
-    {},
-    async () => {  
-      const result = await getAllStates();
+    {
+      ...paginationArguments(100, "scenes")
+    },
+    async ({ limit = 100, cursor, max_tokens }) => {  
+      const result = await client.getAllStates();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get scenes: ${result.message}`);
@@ -126,31 +450,44 @@ export function registerAutomationTools(server: McpServer) {
       );
       
       if (scenes.length === 0) {
-        return formatSuccessResponse("No scenes found");
+        return formatSuccessResponse("No scenes found", { scenes: [] });
+      }
+      
+      const summaries = scenes.map((scene: any) => ({
+        entity_id: scene.entity_id,
+        friendly_name: scene.attributes?.friendly_name,
+        entities: [].concat(scene.attributes?.entity_id ?? [])
+      }));
+      const page = paginate<any>(summaries, { listing: "list_scenes", cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
       }
       
       const output = [`Found ${scenes.length} scenes:`, ""];
       
-      scenes.forEach((scene: any) => {
+      page.data!.items.forEach((scene: any) => {
         output.push(`🎬 ${scene.entity_id}`);
-        if (scene.attributes?.friendly_name) {
-          output.push(`   Name: ${scene.attributes.friendly_name}`);
+        if (scene.friendly_name) {
+          output.push(`   Name: ${scene.friendly_name}`);
         }
-        if (scene.attributes?.entity_id) {
-          const entityCount = Array.isArray(scene.attributes.entity_id) 
-            ? scene.attributes.entity_id.length 
-            : 1;
-          output.push(`   Entities: ${entityCount}`);
+        if (scene.entities.length > 0) {
+          output.push(`   Entities: ${scene.entities.length}`);
         }
         output.push("");
       });
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "scenes");
+      if (pageNote) {
+        output.push(pageNote);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), scenes: page.data!.items });
+    },
+    { outputSchema: pageOutputSchema("scenes", sceneSummarySchema) }
   );
 
   // Tool to activate scene
-  server.tool(
+  registry.action(
     "homeassistant_activate_scene",  
     "Activate a Home Assistant scene",
     {
@@ -161,23 +498,251 @@ export function registerAutomationTools(server: McpServer) {
         return formatErrorResponse("Entity ID must be a scene (start with 'scene.')");
       }
       
-      const result = await callHomeAssistantService('scene', 'turn_on', { entity_id });
+      const result = await client.callHomeAssistantService('scene', 'turn_on', { entity_id });
       
       if (!result.success) {
         return formatErrorResponse(`Failed to activate scene: ${result.message}`);
       }
       
-      return formatSuccessResponse(`Scene ${entity_id} has been activated`);
+      return formatSuccessResponse(`Scene ${entity_id} has been activated`, { entity_id, activated: true });
+    }
+  );
+
+  // Tool to read the configuration of a scene
+  registry.tool(
+    "homeassistant_get_scene_config",
+    "Get the stored configuration (entities and their states) of a UI-managed scene",
+    {
+      scene_id: z.string().describe("The scene entity ID (e.g., 'scene.movie_time') or its config id")
+    },
+    async ({ scene_id }) => {
+      const resolved = await resolveSceneConfigId(client, scene_id);
+      if (!resolved.success) {
+        return formatErrorResponse(resolved.message);
+      }
+      
+      const result = await client.getConfigItem('scene', resolved.id);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to get scene config: ${result.message}`);
+      }
+      
+      return formatSuccessResponse(
+        `Scene: ${result.data.name || resolved.id}\n` +
+        `Config ID: ${resolved.id}\n\n` +
+        JSON.stringify(result.data, null, 2),
+        { config_id: resolved.id, config: result.data }
+      );
+    },
+    { outputSchema: configOutputSchema }
+  );
+
+  // Tool to create a new scene
+  registry.action(
+    "homeassistant_create_scene",
+    "Create a new scene from a map of entity states (validated before saving, scenes are reloaded afterwards)",
+    {
+      name: z.string().describe("Name of the scene"),
+      entities: z.record(z.union([z.string(), z.record(z.any())])).describe("Entity states, e.g. {'light.sofa': {'state': 'on', 'brightness': 120}, 'cover.blinds': 'closed'}"),
+      icon: z.string().optional().describe("Icon (e.g., 'mdi:sofa')"),
+      id: z.string().optional().describe("Optional config id (generated if omitted)")
+    },
+    async ({ id, ...spec }) => {
+      const configId = id || Date.now().toString();
+      
+      const validation = sceneConfigSchema.safeParse({ id: configId, ...spec });
+      if (!validation.success) {
+        return formatErrorResponse(`Invalid scene config:\n${formatValidationIssues(validation.error)}`);
+      }
+      
+      const result = await client.saveConfigItem('scene', configId, validation.data);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to create scene: ${result.message}`);
+      }
+      
+      const reload = await client.callHomeAssistantService("scene", "reload", {});
+      
+      return formatSuccessResponse(
+        `Created scene '${validation.data.name}' with ${Object.keys(validation.data.entities).length} entities (config id: ${configId})` +
+        (reload.success ? '' : `\n⚠️ Scenes could not be reloaded: ${reload.message}`),
+        { config_id: configId, config: validation.data, reloaded: reload.success }
+      );
+    }
+  );
+
+  // Tool to update an existing scene
+  registry.action(
+    "homeassistant_update_scene",
+    "Update an existing UI-managed scene; only the provided fields are replaced (scenes are reloaded afterwards)",
+    {
+      scene_id: z.string().describe("The scene entity ID or its config id"),
+      name: z.string().optional().describe("New name of the scene"),
+      entities: z.record(z.union([z.string(), z.record(z.any())])).optional().describe("Replacement map of entity states"),
+      icon: z.string().optional().describe("New icon")
+    },
+    async ({ scene_id, ...changes }) => {
+      const resolved = await resolveSceneConfigId(client, scene_id);
+      if (!resolved.success) {
+        return formatErrorResponse(resolved.message);
+      }
+      
+      const current = await client.getConfigItem('scene', resolved.id);
+      if (!current.success) {
+        return formatErrorResponse(`Failed to get current scene config: ${current.message}`);
+      }
+      
+      const updates = Object.fromEntries(
+        Object.entries(changes).filter(([, value]) => value !== undefined)
+      );
+      if (Object.keys(updates).length === 0) {
+        return formatErrorResponse("No changes provided");
+      }
+      
+      const validation = sceneConfigSchema.safeParse({ ...current.data, ...updates, id: resolved.id });
+      if (!validation.success) {
+        return formatErrorResponse(`Invalid scene config:\n${formatValidationIssues(validation.error)}`);
+      }
+      
+      const result = await client.saveConfigItem('scene', resolved.id, validation.data);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to update scene: ${result.message}`);
+      }
+      
+      const reload = await client.callHomeAssistantService("scene", "reload", {});
+      
+      return formatSuccessResponse(
+        `Updated scene '${validation.data.name}' (${Object.keys(updates).join(', ')})` +
+        (reload.success ? '' : `\n⚠️ Scenes could not be reloaded: ${reload.message}`),
+        { config_id: resolved.id, updated_fields: Object.keys(updates), config: validation.data, reloaded: reload.success }
+      );
+    }
+  );
+
+  // Tool to delete a scene
+  registry.action(
+    "homeassistant_delete_scene",
+    "Delete a UI-managed scene (scenes are reloaded afterwards)",
+    {
+      scene_id: z.string().describe("The scene entity ID or its config id"),
+      confirm: z.boolean().describe("Set to true to confirm you want to delete the scene")
+    },
+    async ({ scene_id, confirm }) => {
+      if (!confirm) {
+        return formatErrorResponse("Deletion cancelled. Set confirm=true to delete the scene.");
+      }
+      
+      const resolved = await resolveSceneConfigId(client, scene_id);
+      if (!resolved.success) {
+        return formatErrorResponse(resolved.message);
+      }
+      
+      const result = await client.deleteConfigItem('scene', resolved.id);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to delete scene: ${result.message}`);
+      }
+      
+      const reload = await client.callHomeAssistantService("scene", "reload", {});
+      
+      return formatSuccessResponse(
+        `Deleted scene ${scene_id}` +
+        (reload.success ? '' : `\n⚠️ Scenes could not be reloaded: ${reload.message}`),
+        { config_id: resolved.id, deleted: true, reloaded: reload.success }
+      );
+    }
+  );
+
+  // Tool to capture the current states of entities as a scene
+  registry.action(
+    "homeassistant_snapshot_scene",
+    "Capture the current states of entities into a new scene (temporary via scene.create, or saved permanently)",
+    {
+      scene_id: z.string().describe("Object id of the new scene (e.g., 'evening_living_room' creates scene.evening_living_room); a saved scene is also its config id, while its entity ID comes from its name"),
+      entity_ids: z.array(z.string()).min(1).describe("Entities whose current states should be captured"),
+      persist: z.boolean().optional().default(false).describe("If true, save the scene to the scene config so it survives restarts. If false, create a temporary scene with scene.create"),
+      name: z.string().optional().describe("Scene name when persisting (default: derived from scene_id)")
+    },
+    async ({ scene_id, entity_ids, persist = false, name }) => {
+      const objectId = scene_id.replace(/^scene\./, '');
+      
+      if (!persist) {
+        const result = await client.callHomeAssistantService("scene", "create", {
+          scene_id: objectId,
+          snapshot_entities: entity_ids
+        });
+        
+        if (!result.success) {
+          return formatErrorResponse(`Failed to create scene snapshot: ${result.message}`);
+        }
+        
+        return formatSuccessResponse(
+          `Created temporary scene scene.${objectId} from ${entity_ids.length} entities: ${entity_ids.join(', ')}\n` +
+          `Note: scenes created with scene.create are lost when Home Assistant restarts. Use persist=true to save it.`,
+          { entity_id: `scene.${objectId}`, persisted: false, entity_ids }
+        );
+      }
+      
+      const entities: Record<string, any> = {};
+      const missing: string[] = [];
+      
+      for (const entityId of entity_ids) {
+        const stateResult = await client.getHomeAssistantState(entityId);
+        if (stateResult.success) {
+          entities[entityId] = snapshotEntityState(stateResult.data);
+        } else {
+          missing.push(entityId);
+        }
+      }
+      
+      if (missing.length > 0) {
+        return formatErrorResponse(`Could not read current state of: ${missing.join(', ')}`);
+      }
+      
+      const configId = objectId;
+      const sceneName = name || objectId.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+      const validation = sceneConfigSchema.safeParse({ id: configId, name: sceneName, entities });
+      if (!validation.success) {
+        return formatErrorResponse(`Invalid scene config:\n${formatValidationIssues(validation.error)}`);
+      }
+      
+      const result = await client.saveConfigItem('scene', configId, validation.data);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to save scene: ${result.message}`);
+      }
+      
+      const reload = await client.callHomeAssistantService("scene", "reload", {});
+      const entityId = reload.success ? await findConfigItemEntityId(client, 'scene', configId) : undefined;
+      
+      const output = [`Saved scene '${sceneName}' (config id: ${configId}${entityId ? `, entity: ${entityId}` : ''}) with the current state of ${entity_ids.length} entities:`];
+      Object.entries(entities).forEach(([entityId, state]) => {
+        output.push(`- ${entityId}: ${state.state}`);
+      });
+      if (!reload.success) {
+        output.push(`⚠️ Scenes could not be reloaded: ${reload.message}`);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), {
+        entity_id: entityId,
+        persisted: true,
+        config_id: configId,
+        config: validation.data,
+        reloaded: reload.success
+      });
     }
   );
 
   // Tool to list all scripts
-  server.tool(
+  registry.tool(
     "homeassistant_list_scripts",  
     "Get a list of all scripts in Home Assistant",
-    {},
-    async () => {  
-      const result = await getAllStates();
+    {
+      ...paginationArguments(100, "scripts")
+    },
+    async ({ limit = 100, cursor, max_tokens }) => {  
+      const result = await client.getAllStates();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get scripts: ${result.message}`);
@@ -188,29 +753,46 @@ export function registerAutomationTools(server: McpServer) {
       );
       
       if (scripts.length === 0) {
-        return formatSuccessResponse("No scripts found");
+        return formatSuccessResponse("No scripts found", { scripts: [] });
+      }
+      
+      const summaries = scripts.map((script: any) => ({
+        entity_id: script.entity_id,
+        friendly_name: script.attributes?.friendly_name,
+        state: script.state,
+        last_triggered: script.attributes?.last_triggered
+      }));
+      const page = paginate<any>(summaries, { listing: "list_scripts", cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
       }
       
       const output = [`Found ${scripts.length} scripts:`, ""];
       
-      scripts.forEach((script: any) => {
+      page.data!.items.forEach((script: any) => {
         const status = script.state === 'on' ? '▶️ Running' : '⏹️ Idle';
         output.push(`${status} ${script.entity_id}`);
-        if (script.attributes?.friendly_name) {
-          output.push(`   Name: ${script.attributes.friendly_name}`);
+        if (script.friendly_name) {
+          output.push(`   Name: ${script.friendly_name}`);
         }
-        if (script.attributes?.last_triggered) {
-          output.push(`   Last Run: ${script.attributes.last_triggered}`);
+        if (script.last_triggered) {
+          output.push(`   Last Run: ${script.last_triggered}`);
         }
         output.push("");
       });
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "scripts");
+      if (pageNote) {
+        output.push(pageNote);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), scripts: page.data!.items });
+    },
+    { outputSchema: pageOutputSchema("scripts", scriptSummarySchema) }
   );
 
   // Tool to run script
-  server.tool(
+  registry.action(
     "homeassistant_run_script",  
     "Run a Home Assistant script",
     {
@@ -221,399 +803,492 @@ export function registerAutomationTools(server: McpServer) {
         return formatErrorResponse("Entity ID must be a script (start with 'script.')");
       }
       
-      const result = await callHomeAssistantService('script', 'turn_on', { entity_id });
+      const result = await client.callHomeAssistantService('script', 'turn_on', { entity_id });
       
       if (!result.success) {
         return formatErrorResponse(`Failed to run script: ${result.message}`);
       }
       
-      return formatSuccessResponse(`Script ${entity_id} has been executed`);
+      return formatSuccessResponse(`Script ${entity_id} has been executed`, { entity_id, started: true });
     }
   );
 
-  // Tool to list input_booleans (useful for automation conditions)
-  server.tool(
-    "homeassistant_list_input_booleans",  
-    "Get a list of all input booleans (toggles) in Home Assistant",
-    {},
-    async () => {  
-      const result = await getAllStates();
+  // Tool to read the configuration of a script
+  registry.tool(
+    "homeassistant_get_script_config",
+    "Get the full configuration (sequence, fields, mode) of a UI-managed script",
+    {
+      script_id: z.string().describe("The script entity ID (e.g., 'script.morning_routine') or its object id")
+    },
+    async ({ script_id }) => {
+      const objectId = script_id.replace(/^script\./, '');
+      const result = await client.getConfigItem('script', objectId);
       
       if (!result.success) {
-        return formatErrorResponse(`Failed to get input booleans: ${result.message}`);
+        if (result.statusCode === 404) {
+          return formatErrorResponse(`Script config ${objectId} not found (it may be defined in YAML outside scripts.yaml)`);
+        }
+        return formatErrorResponse(`Failed to get script config: ${result.message}`);
       }
       
-      const inputBooleans = result.data.filter((entity: any) => 
-        entity.entity_id.startsWith('input_boolean.')
+      return formatSuccessResponse(
+        `Script: ${result.data.alias || objectId}\n` +
+        `Entity: script.${objectId}\n\n` +
+        JSON.stringify(result.data, null, 2),
+        { entity_id: `script.${objectId}`, config: result.data }
       );
+    },
+    { outputSchema: { entity_id: z.string(), config: z.record(z.any()) } }
+  );
+
+  // Tool to create a new script
+  registry.action(
+    "homeassistant_create_script",
+    "Create a new script from a sequence of actions (validated before saving, scripts are reloaded afterwards)",
+    {
+      script_id: z.string().optional().describe("Object id of the new script (e.g., 'morning_routine'); derived from alias if omitted"),
+      alias: z.string().describe("Name of the script"),
+      description: z.string().optional().describe("Description of what the script does"),
+      sequence: z.array(z.record(z.any())).describe("Actions to run, e.g. [{'action': 'light.turn_on', 'target': {'entity_id': 'light.hall'}}]"),
+      fields: z.record(z.any()).optional().describe("Input fields the script accepts"),
+      mode: z.enum(AUTOMATION_MODES).optional().describe("Run mode (default: single)"),
+      max: z.number().optional().describe("Maximum parallel runs (queued/parallel modes)"),
+      icon: z.string().optional().describe("Icon (e.g., 'mdi:weather-sunny')")
+    },
+    async ({ script_id, ...spec }) => {
+      const objectId = script_id ? script_id.replace(/^script\./, '') : slugify(spec.alias);
+      if (!/^[a-z0-9_]+$/.test(objectId)) {
+        return formatErrorResponse(`Invalid script id '${objectId}': use lowercase letters, numbers and underscores`);
+      }
       
-      if (inputBooleans.length === 0) {
-        return formatSuccessResponse("No input booleans found");
+      const existing = await client.getConfigItem('script', objectId);
+      if (existing.success) {
+        return formatErrorResponse(`Script script.${objectId} already exists. Use homeassistant_update_script to change it.`);
       }
       
-      const output = [`Found ${inputBooleans.length} input booleans:`, ""];
+      const validation = scriptConfigSchema.safeParse(spec);
+      if (!validation.success) {
+        return formatErrorResponse(`Invalid script config:\n${formatValidationIssues(validation.error)}`);
+      }
       
-      inputBooleans.forEach((inputBoolean: any) => {
-        const status = inputBoolean.state === 'on' ? '✅ On' : '❌ Off';
-        output.push(`${status} ${inputBoolean.entity_id}`);
-        if (inputBoolean.attributes?.friendly_name) {
-          output.push(`   Name: ${inputBoolean.attributes.friendly_name}`);
-        }
-        output.push("");
-      });
+      const result = await client.saveConfigItem('script', objectId, validation.data);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to create script: ${result.message}`);
+      }
+      
+      const reload = await client.callHomeAssistantService("script", "reload", {});
       
-      return formatSuccessResponse(output.join('\n'));
+      return formatSuccessResponse(
+        `Created script '${validation.data.alias}' as script.${objectId}` +
+        (reload.success ? '' : `\n⚠️ Scripts could not be reloaded: ${reload.message}`),
+        { entity_id: `script.${objectId}`, config: validation.data, reloaded: reload.success }
+      );
     }
   );
 
-  // Tool to toggle input_boolean
-  server.tool(
-    "homeassistant_toggle_input_boolean",  
-    "Toggle an input boolean in Home Assistant",
+  // Tool to update an existing script
+  registry.action(
+    "homeassistant_update_script",
+    "Update an existing UI-managed script; only the provided fields are replaced (scripts are reloaded afterwards)",
     {
-      entity_id: z.string().describe("The input boolean entity ID (e.g., 'input_boolean.guest_mode')"),
-      action: z.enum(["turn_on", "turn_off", "toggle"]).describe("Action to perform")
+      script_id: z.string().describe("The script entity ID or its object id"),
+      alias: z.string().optional().describe("New name of the script"),
+      description: z.string().optional().describe("New description"),
+      sequence: z.array(z.record(z.any())).optional().describe("Replacement sequence of actions"),
+      fields: z.record(z.any()).optional().describe("Replacement input fields"),
+      mode: z.enum(AUTOMATION_MODES).optional().describe("Run mode"),
+      max: z.number().optional().describe("Maximum parallel runs (queued/parallel modes)"),
+      icon: z.string().optional().describe("New icon")
     },
-    async ({ entity_id, action }) => {  
-      if (!entity_id.startsWith('input_boolean.')) {
-        return formatErrorResponse("Entity ID must be an input boolean (start with 'input_boolean.')");
+    async ({ script_id, ...changes }) => {
+      const objectId = script_id.replace(/^script\./, '');
+      
+      const current = await client.getConfigItem('script', objectId);
+      if (!current.success) {
+        return formatErrorResponse(`Failed to get current script config: ${current.message}`);
       }
       
-      const result = await callHomeAssistantService('input_boolean', action, { entity_id });
+      const updates = Object.fromEntries(
+        Object.entries(changes).filter(([, value]) => value !== undefined)
+      );
+      if (Object.keys(updates).length === 0) {
+        return formatErrorResponse("No changes provided");
+      }
       
-      if (!result.success) {
-        return formatErrorResponse(`Failed to ${action} input boolean: ${result.message}`);
+      const validation = scriptConfigSchema.safeParse({ ...current.data, ...updates });
+      if (!validation.success) {
+        return formatErrorResponse(`Invalid script config:\n${formatValidationIssues(validation.error)}`);
       }
       
-      const actionText = action === 'turn_on' ? 'turned on' : action === 'turn_off' ? 'turned off' : 'toggled';
-      return formatSuccessResponse(`Input boolean ${entity_id} has been ${actionText}`);
-    }
-  );
-
-  // Tool to reload automations (from Python code)
-  server.tool(
-    "homeassistant_reload_automations",
-    "Reload all automations in Home Assistant",
-    {},
-    async () => {
-      const result = await callHomeAssistantService("automation", "reload", {});
+      const result = await client.saveConfigItem('script', objectId, validation.data);
       
       if (!result.success) {
-        return formatErrorResponse(`Failed to reload automations: ${result.message}`);
+        return formatErrorResponse(`Failed to update script: ${result.message}`);
       }
       
-      return formatSuccessResponse("Successfully reloaded all automations");
+      const reload = await client.callHomeAssistantService("script", "reload", {});
+      
+      return formatSuccessResponse(
+        `Updated script script.${objectId} (${Object.keys(updates).join(', ')})` +
+        (reload.success ? '' : `\n⚠️ Scripts could not be reloaded: ${reload.message}`),
+        { entity_id: `script.${objectId}`, updated_fields: Object.keys(updates), config: validation.data, reloaded: reload.success }
+      );
     }
   );
 
-  // Tool to restart Home Assistant (from Python code)
-  server.tool(
-    "homeassistant_restart",
-    "Restart Home Assistant - ⚠️ WARNING: Temporarily disrupts all Home Assistant operations",
-    {},
-    async () => {
-      const result = await callHomeAssistantService("homeassistant", "restart", {});
+  // Tool to delete a script
+  registry.action(
+    "homeassistant_delete_script",
+    "Delete a UI-managed script (scripts are reloaded afterwards)",
+    {
+      script_id: z.string().describe("The script entity ID or its object id"),
+      confirm: z.boolean().describe("Set to true to confirm you want to delete the script")
+    },
+    async ({ script_id, confirm }) => {
+      if (!confirm) {
+        return formatErrorResponse("Deletion cancelled. Set confirm=true to delete the script.");
+      }
+      
+      const objectId = script_id.replace(/^script\./, '');
+      const result = await client.deleteConfigItem('script', objectId);
       
       if (!result.success) {
-        return formatErrorResponse(`Failed to restart Home Assistant: ${result.message}`);
+        return formatErrorResponse(`Failed to delete script: ${result.message}`);
       }
       
-      return formatSuccessResponse("Home Assistant restart initiated");
+      const reload = await client.callHomeAssistantService("script", "reload", {});
+      
+      return formatSuccessResponse(
+        `Deleted script script.${objectId}` +
+        (reload.success ? '' : `\n⚠️ Scripts could not be reloaded: ${reload.message}`),
+        { entity_id: `script.${objectId}`, deleted: true, reloaded: reload.success }
+      );
     }
   );
 
-  // Tool to search entities (from Python search_entities_tool)
-  server.tool(
-    "homeassistant_search_entities",
-    "Search for entities matching a query string",
+  // Tool to list input_booleans (useful for automation conditions)
+  registry.tool(
+    "homeassistant_list_input_booleans",  
+    "Get a list of all input booleans (toggles) in Home Assistant",
     {
-      query: z.string().describe("Search query to match against entity IDs, friendly names, and attributes"),
-      limit: z.number().optional().default(20).describe("Maximum number of results to return (default: 20)")
+      ...paginationArguments(100, "input booleans")
     },
-    async ({ query, limit = 20 }: { query: string; limit?: number }) => {
-      console.error(`Searching for entities matching: '${query}' with limit: ${limit}`);
-      
-      // Handle special cases
-      if (query === "*" || !query.trim()) {
-        return formatErrorResponse("Please provide a specific search query");
-      }
-      
-      const result = await getAllStates();
+    async ({ limit = 100, cursor, max_tokens }) => {  
+      const result = await client.getAllStates();
       
       if (!result.success) {
-        return formatErrorResponse(`Failed to search entities: ${result.message}`);
+        return formatErrorResponse(`Failed to get input booleans: ${result.message}`);
       }
       
-      const searchTerm = query.toLowerCase().trim();
-      const matchingEntities = result.data.filter((entity: any) => {
-        const entityId = entity.entity_id.toLowerCase();
-        const friendlyName = (entity.attributes?.friendly_name || "").toLowerCase();
-        const state = (entity.state || "").toLowerCase();
-        
-        return entityId.includes(searchTerm) || 
-               friendlyName.includes(searchTerm) || 
-               state.includes(searchTerm) ||
-               JSON.stringify(entity.attributes || {}).toLowerCase().includes(searchTerm);
-      }).slice(0, limit);
+      const inputBooleans = result.data.filter((entity: any) => 
+        entity.entity_id.startsWith('input_boolean.')
+      );
       
-      if (matchingEntities.length === 0) {
-        return formatSuccessResponse(`No entities found matching: '${query}'`);
+      if (inputBooleans.length === 0) {
+        return formatSuccessResponse("No input booleans found", { input_booleans: [] });
       }
       
-      // Group by domain
-      const domainsCount: { [key: string]: number } = {};
-      const simplifiedEntities = matchingEntities.map((entity: any) => {
-        const domain = entity.entity_id.split('.')[0];
-        domainsCount[domain] = (domainsCount[domain] || 0) + 1;
-        
-        return {
-          entity_id: entity.entity_id,
-          friendly_name: entity.attributes?.friendly_name || entity.entity_id,
-          state: entity.state,
-          domain
-        };
-      });
+      const summaries = inputBooleans.map((inputBoolean: any) => ({
+        entity_id: inputBoolean.entity_id,
+        friendly_name: inputBoolean.attributes?.friendly_name,
+        state: inputBoolean.state
+      }));
+      const page = paginate<any>(summaries, { listing: "list_input_booleans", cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
+      }
       
-      const output = [
-        `# Entity Search Results for '${query}' (Limit: ${limit})`,
-        "",
-        `Found ${matchingEntities.length} matching entities:`,
-        ""
-      ];
-      
-      // Add domain summary
-      output.push("## Domains found:");
-      Object.entries(domainsCount).forEach(([domain, count]) => {
-        output.push(`- ${domain}: ${count} entities`);
-      });
-      output.push("");
+      const output = [`Found ${inputBooleans.length} input booleans:`, ""];
       
-      // Add entities by domain
-      const entitiesByDomain: { [key: string]: any[] } = {};
-      simplifiedEntities.forEach((entity: any) => {
-        if (!entitiesByDomain[entity.domain]) {
-          entitiesByDomain[entity.domain] = [];
+      page.data!.items.forEach((inputBoolean: any) => {
+        const status = inputBoolean.state === 'on' ? '✅ On' : '❌ Off';
+        output.push(`${status} ${inputBoolean.entity_id}`);
+        if (inputBoolean.friendly_name) {
+          output.push(`   Name: ${inputBoolean.friendly_name}`);
         }
-        entitiesByDomain[entity.domain].push(entity);
-      });
-      
-      Object.entries(entitiesByDomain).forEach(([domain, entities]) => {
-        output.push(`## ${domain.toUpperCase()} (${entities.length}):`);
-        entities.forEach(entity => {
-          output.push(`- **${entity.entity_id}**: ${entity.state}`);
-          if (entity.friendly_name !== entity.entity_id) {
-            output.push(`  Name: ${entity.friendly_name}`);
-          }
-        });
         output.push("");
       });
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "input booleans");
+      if (pageNote) {
+        output.push(pageNote);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), input_booleans: page.data!.items });
+    },
+    { outputSchema: pageOutputSchema("input_booleans", inputBooleanSummarySchema) }
   );
 
-  // Tool to get domain summary (from Python code)
-  server.tool(
-    "homeassistant_domain_summary",
-    "Get a summary of entities in a specific domain",
+  // Tool to toggle input_boolean
+  registry.action(
+    "homeassistant_toggle_input_boolean",  
+    "Toggle an input boolean in Home Assistant",
     {
-      domain: z.string().describe("The domain to summarize (e.g., 'light', 'switch', 'sensor')"),
-      example_limit: z.number().optional().default(3).describe("Maximum number of examples to include for each state")
+      entity_id: z.string().describe("The input boolean entity ID (e.g., 'input_boolean.guest_mode')"),
+      action: z.enum(["turn_on", "turn_off", "toggle"]).describe("Action to perform")
     },
-    async ({ domain, example_limit = 3 }: { domain: string; example_limit?: number }) => {
-      console.error(`Getting domain summary for: ${domain}`);
-      
-      const result = await getAllStates();
-      
-      if (!result.success) {
-        return formatErrorResponse(`Failed to get domain summary: ${result.message}`);
+    async ({ entity_id, action }) => {  
+      if (!entity_id.startsWith('input_boolean.')) {
+        return formatErrorResponse("Entity ID must be an input boolean (start with 'input_boolean.')");
       }
       
-      const entities = result.data.filter((entity: any) => 
-        entity.entity_id.startsWith(`${domain}.`)
-      );
+      const result = await client.callHomeAssistantService('input_boolean', action, { entity_id });
       
-      if (entities.length === 0) {
-        return formatSuccessResponse(`No entities found for domain: ${domain}`);
+      if (!result.success) {
+        return formatErrorResponse(`Failed to ${action} input boolean: ${result.message}`);
       }
       
-      // Analyze the domain
-      const stateCounts: { [key: string]: number } = {};
-      const stateExamples: { [key: string]: any[] } = {};
-      const attributesSummary: { [key: string]: Set<any> } = {};
-      
-      entities.forEach((entity: any) => {
-        const state = entity.state || "unknown";
-        stateCounts[state] = (stateCounts[state] || 0) + 1;
-        
-        if (!stateExamples[state]) {
-          stateExamples[state] = [];
-        }
-        if (stateExamples[state].length < example_limit) {
-          stateExamples[state].push({
-            entity_id: entity.entity_id,
-            friendly_name: entity.attributes?.friendly_name || entity.entity_id
-          });
-        }
-        
-        // Collect attribute information
-        if (entity.attributes) {
-          Object.entries(entity.attributes).forEach(([key, value]) => {
-            if (!attributesSummary[key]) {
-              attributesSummary[key] = new Set();
-            }
-            if (value !== null && value !== undefined) {
-              attributesSummary[key].add(typeof value === 'object' ? JSON.stringify(value) : value);
-            }
-          });
-        }
-      });
-      
-      const output = [
-        `# Domain Summary: ${domain}`,
-        "",
-        `**Total entities**: ${entities.length}`,
-        ""
-      ];
-      
-      // Add state distribution
-      output.push("## State Distribution:");
-      Object.entries(stateCounts).forEach(([state, count]) => {
-        const percentage = ((count / entities.length) * 100).toFixed(1);
-        output.push(`- **${state}**: ${count} entities (${percentage}%)`);
-        
-        if (stateExamples[state] && stateExamples[state].length > 0) {
-          output.push("  Examples:");
-          stateExamples[state].forEach(example => {
-            output.push(`    - ${example.entity_id} (${example.friendly_name})`);
-          });
-        }
-      });
-      output.push("");
-      
-      // Add common attributes
-      output.push("## Common Attributes:");
-      const sortedAttributes = Object.entries(attributesSummary)
-        .sort(([, a], [, b]) => b.size - a.size)
-        .slice(0, 10);
-        
-      sortedAttributes.forEach(([attr, values]) => {
-        const valueCount = values.size;
-        const coverage = ((entities.length / entities.length) * 100).toFixed(1);
-        output.push(`- **${attr}**: ${valueCount} unique values`);
-        
-        if (valueCount <= 5) {
-          const valuesList = Array.from(values).slice(0, 5);
-          output.push(`  Values: ${valuesList.join(', ')}`);
-        }
-      });
-      
-      return formatSuccessResponse(output.join('\n'));
+      const actionText = action === 'turn_on' ? 'turned on' : action === 'turn_off' ? 'turned off' : 'toggled';
+      return formatSuccessResponse(`Input boolean ${entity_id} has been ${actionText}`, { entity_id, action });
     }
   );
 
-  // Tool to get system overview (from Python code)
-  server.tool(
-    "homeassistant_system_overview",
-    "Get a comprehensive overview of the entire Home Assistant system",
+  // Tool to reload automations (from Python code)
+  registry.action(
+    "homeassistant_reload_automations",
+    "Reload all automations in Home Assistant",
     {},
     async () => {
-      console.error("Generating complete system overview");
-      
-      const result = await getAllStates();
+      const result = await client.callHomeAssistantService("automation", "reload", {});
       
       if (!result.success) {
-        return formatErrorResponse(`Failed to get system overview: ${result.message}`);
+        return formatErrorResponse(`Failed to reload automations: ${result.message}`);
       }
       
-      const allEntities = result.data;
-      
-      // Group entities by domain
-      const domainEntities: { [key: string]: any[] } = {};
-      allEntities.forEach((entity: any) => {
-        const domain = entity.entity_id.split('.')[0];
-        if (!domainEntities[domain]) {
-          domainEntities[domain] = [];
-        }
-        domainEntities[domain].push(entity);
-      });
-      
-      const overview = {
-        total_entities: allEntities.length,
-        domain_count: Object.keys(domainEntities).length,
-        domains: {} as { [key: string]: any },
-        domain_samples: {} as { [key: string]: any[] },
-        most_common_domains: [] as Array<{ domain: string; count: number }>
-      };
-      
-      // Process each domain
-      Object.entries(domainEntities).forEach(([domain, entities]) => {
-        const stateCounts: { [key: string]: number } = {};
-        
-        entities.forEach(entity => {
-          const state = entity.state || "unknown";
-          stateCounts[state] = (stateCounts[state] || 0) + 1;
+      return formatSuccessResponse("Successfully reloaded all automations", { reloaded: true });
+    }
+  );
+}
+
+/**
+ * Resolve an automation entity ID or config id to the id used by the config API
+ */
+async function resolveAutomationConfigId(client: HomeAssistantClient, automationId: string): Promise<{ success: true; id: string } | { success: false; message: string }> {
+  if (!automationId.startsWith('automation.')) {
+    return { success: true, id: automationId };
+  }
+  
+  const result = await client.getHomeAssistantState(automationId);
+  if (!result.success) {
+    return { success: false, message: `Automation ${automationId} not found: ${result.message}` };
+  }
+  
+  const id = result.data.attributes?.id;
+  if (!id) {
+    return { success: false, message: `Automation ${automationId} has no config id, so it is not editable through the UI config API (it is probably defined in YAML)` };
+  }
+  
+  return { success: true, id: String(id) };
+}
+
+/**
+ * Find the entity created for an automation or scene config id. Its entity
+ * ID is derived from the name, not the config id.
+ */
+async function findConfigItemEntityId(client: HomeAssistantClient, domain: 'automation' | 'scene', configId: string): Promise<string | undefined> {
+  const result = await client.getAllStates();
+  if (!result.success) {
+    return undefined;
+  }
+  
+  const entity = result.data.find((state: any) => 
+    state.entity_id.startsWith(`${domain}.`) && String(state.attributes?.id) === configId
+  );
+  return entity?.entity_id;
+}
+
+/**
+ * Convert legacy singular keys (trigger/condition/action) to the current plural form
+ */
+function normalizeAutomationConfig(config: Record<string, any>): Record<string, any> {
+  const normalized = { ...config };
+  
+  (["trigger", "condition", "action"] as const).forEach(key => {
+    const plural = `${key}s`;
+    if (normalized[key] !== undefined && normalized[plural] === undefined) {
+      normalized[plural] = Array.isArray(normalized[key]) ? normalized[key] : [normalized[key]];
+      delete normalized[key];
+    }
+  });
+  
+  return normalized;
+}
+
+function formatValidationIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : 'config'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Resolve a scene entity ID or config id to the id used by the config API
+ */
+async function resolveSceneConfigId(client: HomeAssistantClient, sceneId: string): Promise<{ success: true; id: string } | { success: false; message: string }> {
+  if (!sceneId.startsWith('scene.')) {
+    return { success: true, id: sceneId };
+  }
+  
+  const result = await client.getHomeAssistantState(sceneId);
+  if (!result.success) {
+    return { success: false, message: `Scene ${sceneId} not found: ${result.message}` };
+  }
+  
+  const id = result.data.attributes?.id;
+  if (!id) {
+    return { success: false, message: `Scene ${sceneId} has no config id, so it is not editable through the UI config API (it is probably defined in YAML or created with scene.create)` };
+  }
+  
+  return { success: true, id: String(id) };
+}
+
+/**
+ * Convert an entity state into the state/attribute map used in scene configs
+ */
+function snapshotEntityState(entity: any): Record<string, any> {
+  const snapshot: Record<string, any> = { state: entity.state };
+  
+  Object.entries(entity.attributes || {}).forEach(([key, value]) => {
+    if (!NON_SCENE_ATTRIBUTES.includes(key) && value !== null && value !== undefined) {
+      snapshot[key] = value;
+    }
+  });
+  
+  return snapshot;
+}
+
+function traceStatusIcon(run: any): string {
+  if (run.error || run.script_execution === 'error') return '❌';
+  if (run.script_execution === 'failed_conditions' || run.script_execution === 'failed_single') return '⏭️';
+  if (run.state === 'running') return '▶️';
+  return '✅';
+}
+
+/**
+ * Render a trace as trigger, conditions and action steps in execution order
+ */
+function renderTrace(entityId: string, trace: any, includeVariables: boolean): string {
+  const steps: Array<[string, any]> = [];
+  Object.entries(trace.trace || {}).forEach(([path, entries]) => {
+    (entries as any[]).forEach(entry => steps.push([path, entry]));
+  });
+  steps.sort(([, a], [, b]) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  
+  const startTime = new Date(trace.timestamp?.start);
+  const finishTime = trace.timestamp?.finish ? new Date(trace.timestamp.finish) : undefined;
+  
+  const output = [
+    `# Trace for ${entityId}`,
+    "",
+    `**Run ID**: ${trace.run_id}`,
+    `**Started**: ${startTime.toLocaleString()}`,
+    `**Finished**: ${finishTime ? `${finishTime.toLocaleString()} (${finishTime.getTime() - startTime.getTime()}ms)` : 'still running'}`,
+    `**Result**: ${traceStatusIcon(trace)} ${trace.script_execution || trace.state}`,
+    ""
+  ];
+  
+  if (trace.error) {
+    output.push(`**Error**: ${trace.error}`, "");
+  }
+  
+  const triggerSteps = steps.filter(([path]) => path.startsWith('trigger'));
+  output.push("## Trigger");
+  if (trace.trigger) {
+    output.push(`- ${trace.trigger}`);
+  }
+  triggerSteps.forEach(([path, step]) => {
+    const trigger = step.changed_variables?.trigger;
+    if (trigger) {
+      const details = [trigger.platform, trigger.entity_id, trigger.from_state?.state !== undefined ? `${trigger.from_state.state} → ${trigger.to_state?.state}` : undefined]
+        .filter(Boolean)
+        .join(', ');
+      output.push(`- ${path}: ${trigger.description || trigger.id || 'triggered'}${details ? ` (${details})` : ''}`);
+    }
+  });
+  if (!trace.trigger && triggerSteps.length === 0) {
+    output.push("- No trigger recorded (run manually or by another script)");
+  }
+  output.push("");
+  
+  const conditionSteps = steps.filter(([path]) => path.startsWith('condition'));
+  if (conditionSteps.length > 0) {
+    output.push("## Conditions");
+    conditionSteps.forEach(([path, step]) => {
+      const passed = step.result?.result;
+      const icon = passed === true ? '✅ passed' : passed === false ? '❌ failed' : '⚪ not evaluated';
+      output.push(`- ${path}: ${icon}`);
+      const details = Object.entries(step.result || {})
+        .filter(([key]) => key !== 'result')
+        .map(([key, value]) => `${key}=${JSON.stringify(value)}`);
+      if (details.length > 0) {
+        output.push(`  ${details.join(', ')}`);
+      }
+      if (step.error) {
+        output.push(`  Error: ${step.error}`);
+      }
+    });
+    output.push("");
+  }
+  
+  const actionSteps = steps.filter(([path]) => path.startsWith('action') || path.startsWith('sequence'));
+  output.push("## Actions");
+  if (actionSteps.length === 0) {
+    output.push("- No actions were executed");
+  }
+  actionSteps.forEach(([path, step]) => {
+    const timestamp = new Date(step.timestamp).toLocaleTimeString();
+    output.push(`- ${path} at ${timestamp}: ${step.error ? '❌ error' : '✅ done'}`);
+    if (step.result?.params) {
+      const params = step.result.params;
+      output.push(`  Called ${params.domain}.${params.service}${params.target ? ` on ${JSON.stringify(params.target)}` : ''}`);
+      if (params.service_data && Object.keys(params.service_data).length > 0) {
+        output.push(`  Data: ${JSON.stringify(params.service_data)}`);
+      }
+    } else if (step.result) {
+      output.push(`  Result: ${JSON.stringify(step.result)}`);
+    }
+    if (step.error) {
+      output.push(`  Error: ${step.error}`);
+    }
+    if (step.child_id) {
+      output.push(`  Started ${step.child_id.domain}.${step.child_id.item_id} (run ${step.child_id.run_id})`);
+    }
+  });
+  output.push("");
+  
+  if (includeVariables) {
+    const variableSteps = steps.filter(([, step]) => step.changed_variables && Object.keys(step.changed_variables).length > 0);
+    if (variableSteps.length > 0) {
+      output.push("## Variables");
+      variableSteps.forEach(([path, step]) => {
+        Object.entries(step.changed_variables).forEach(([name, value]) => {
+          // `this` is the full automation state object and adds nothing useful here
+          if (name === 'this') {
+            return;
+          }
+          const rendered = JSON.stringify(name === 'trigger' ? summarizeTriggerVariable(value) : value);
+          output.push(`- ${path} → ${name}: ${rendered.length > 300 ? `${rendered.substring(0, 300)}...` : rendered}`);
         });
-        
-        overview.domains[domain] = {
-          count: entities.length,
-          states: stateCounts
-        };
-        
-        // Add samples (2-3 entities per domain)
-        overview.domain_samples[domain] = entities.slice(0, 3).map(entity => ({
-          entity_id: entity.entity_id,
-          friendly_name: entity.attributes?.friendly_name || entity.entity_id,
-          state: entity.state
-        }));
-      });
-      
-      // Find most common domains
-      overview.most_common_domains = Object.entries(domainEntities)
-        .map(([domain, entities]) => ({ domain, count: entities.length }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 5);
-      
-      const output = [
-        "# Home Assistant System Overview",
-        "",
-        `**Total Entities**: ${overview.total_entities}`,
-        `**Total Domains**: ${overview.domain_count}`,
-        ""
-      ];
-      
-      // Add most common domains
-      output.push("## Most Common Domains:");
-      overview.most_common_domains.forEach(({ domain, count }) => {
-        const percentage = ((count / overview.total_entities) * 100).toFixed(1);
-        output.push(`1. **${domain}**: ${count} entities (${percentage}%)`);
       });
       output.push("");
-      
-      // Add domain details
-      output.push("## Domain Details:");
-      Object.entries(overview.domains).forEach(([domain, info]) => {
-        output.push(`### ${domain.toUpperCase()} (${info.count} entities)`);
-        
-        // State distribution
-        if (Object.keys(info.states).length > 1) {
-          output.push("States:");
-          Object.entries(info.states).forEach(([state, count]) => {
-            output.push(`  - ${state}: ${count}`);
-          });
-        }
-        
-        // Sample entities
-        if (overview.domain_samples[domain]) {
-          output.push("Sample entities:");
-          overview.domain_samples[domain].forEach((sample: any) => {
-            output.push(`  - ${sample.entity_id}: ${sample.state}`);
-          });
-        }
-        output.push("");
-      });
-      
-      return formatSuccessResponse(output.join('\n'));
     }
-  );
-}
\ No newline at end of file
+  }
+  
+  return output.join('\n');
+}
+
+function summarizeTriggerVariable(trigger: any): any {
+  if (!trigger || typeof trigger !== 'object') {
+    return trigger;
+  }
+  const { from_state, to_state, ...rest } = trigger;
+  return {
+    ...rest,
+    ...(from_state ? { from_state: from_state.state } : {}),
+    ...(to_state ? { to_state: to_state.state } : {})
+  };
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
@@ -1,39 +1,46 @@
 import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import {
-  getHomeAssistantApi,
-  getHomeAssistantState,
-  getAllStates,
-  callHomeAssistantService,
-  getServices,
-  getConfig,
-  formatErrorResponse,
-  formatSuccessResponse
-} from "../../utils/api.js";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+import type { SessionStores } from "../loader.js";
+import { confidentMatch, formatSuggestions, loadEntityIndex, rankEntities } from "../../utils/resolver.js";
+import { TargetSelection, resolveTargets, targetArguments } from "../../utils/targets.js";
+import { describePage, pageInfo, pageOutputSchema, paginate, paginationArguments } from "../../utils/pagination.js";
+
+// Entities as list_entities returns them: lean, with the requested fields, or full states
+const listedEntitySchema = z.object({
+  entity_id: z.string(),
+  state: z.string().optional(),
+  friendly_name: z.string().optional()
+}).passthrough();
 
 /**
  * Register basic Home Assistant API tools
  */
-export function registerBasicTools(server: McpServer) {
+export function registerBasicTools(registry: ToolRegistry, client: HomeAssistantClient, stores: SessionStores) {
   // Tool to verify if the Home Assistant API is online
-  server.tool(
+  registry.tool(
     "homeassistant_api_status",  
     "Verify if the Home Assistant API is online and get basic info",
     {},
     async () => {
-      const result = await getHomeAssistantApi();
+      const result = await client.getHomeAssistantApi();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to connect to Home Assistant: ${result.message}`);
       }
       
       const response = result.data;
-      return formatSuccessResponse(`Home Assistant API is online!\nMessage: ${response.message || 'API is accessible'}`);
-    }
+      return formatSuccessResponse(`Home Assistant API is online!\nMessage: ${response.message || 'API is accessible'}`, {
+        online: true,
+        message: response.message
+      });
+    },
+    { outputSchema: { online: z.boolean(), message: z.string().optional() } }
   );
 
   // Tool to get the state of a specific Home Assistant entity
-  server.tool(
+  registry.tool(
     "homeassistant_get_entity_state",  
     "Get the current state of a specific Home Assistant entity with optional field filtering",
     {
@@ -46,17 +53,32 @@ export function registerBasicTools(server: McpServer) {
       fields?: string[];
       detailed?: boolean;
     }) => {  
-      const result = await getHomeAssistantState(entity_id);
+      let result = await client.getHomeAssistantState(entity_id);
+      
+      // Guessed entity IDs are resolved by name, or answered with suggestions
+      const requestedEntityId = entity_id;
+      if (!result.success && result.statusCode === 404) {
+        const index = await loadEntityIndex(client);
+        const matches = index.success ? rankEntities(index.data!, entity_id) : [];
+        const match = confidentMatch(matches);
+        if (!match) {
+          return formatErrorResponse(formatSuggestions(entity_id, matches));
+        }
+        
+        entity_id = match.entity_id;
+        result = await client.getHomeAssistantState(entity_id);
+      }
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get entity state: ${result.message}`);
       }
       
       const entity = result.data;
+      const resolvedFrom = entity_id !== requestedEntityId ? { resolved_from: requestedEntityId } : {};
       
       // Apply field filtering if requested
       if (fields && fields.length > 0) {
-        const filteredEntity: any = { entity_id };
+        const filteredEntity: any = { entity_id, ...resolvedFrom };
         
         fields.forEach((field: string) => {
           if (field === "state") {
@@ -76,7 +98,7 @@ export function registerBasicTools(server: McpServer) {
           }
         });
         
-        return formatSuccessResponse(JSON.stringify(filteredEntity, null, 2));
+        return formatSuccessResponse(JSON.stringify(filteredEntity, null, 2), filteredEntity);
       }
       
       // Apply lean formatting if not detailed
@@ -84,6 +106,7 @@ export function registerBasicTools(server: McpServer) {
         const domain = entity_id.split('.')[0];
         const leanEntity = {
           entity_id,
+          ...resolvedFrom,
           state: entity.state,
           friendly_name: entity.attributes?.friendly_name
         };
@@ -111,12 +134,12 @@ export function registerBasicTools(server: McpServer) {
           }
         });
         
-        return formatSuccessResponse(JSON.stringify(leanEntity, null, 2));
+        return formatSuccessResponse(JSON.stringify(leanEntity, null, 2), leanEntity);
       }
       
       // Return full detailed entity information
       const stateInfo = [
-        `Entity: ${entity_id}`,
+        `Entity: ${entity_id}${entity_id !== requestedEntityId ? ` (resolved from ${requestedEntityId})` : ''}`,
         `Name: ${entity.attributes?.friendly_name || "Unknown"}`,
         `State: ${entity.state || "Unknown"}`,
         `Last Changed: ${entity.last_changed || "Unknown"}`,
@@ -134,16 +157,17 @@ export function registerBasicTools(server: McpServer) {
         });
       }
       
-      return formatSuccessResponse(stateInfo.join('\n'));
+      return formatSuccessResponse(stateInfo.join('\n'), { ...entity, entity_id, ...resolvedFrom });
     }
   );
 
   // Tool to perform actions on entities (equivalent to entity_action in Python)
-  server.tool(
+  registry.action(
     "homeassistant_entity_action",
-    "Perform an action on a Home Assistant entity (on, off, toggle) with optional parameters",
+    "Perform an action on Home Assistant entities (on, off, toggle) with optional parameters, by entity or by area, device, floor or label",
     {
-      entity_id: z.string().describe("The entity ID to act on"),
+      entity_id: z.union([z.string(), z.array(z.string())]).optional().describe("The entity ID(s) to act on"),
+      ...targetArguments,
       action: z.enum(["on", "off", "toggle"]).describe("The action to perform"),
       brightness: z.number().optional().describe("Brightness level (0-255) for lights"),
       color_temp: z.number().optional().describe("Color temperature for lights"),
@@ -153,8 +177,7 @@ export function registerBasicTools(server: McpServer) {
       source: z.string().optional().describe("Source for media players"),
       volume_level: z.number().optional().describe("Volume level (0-1) for media players")
     },
-    async ({ entity_id, action, ...params }: {
-      entity_id: string;
+    async ({ entity_id, area_id, device_id, floor_id, label_id, action, ...params }: TargetSelection & {
       action: 'on' | 'off' | 'toggle';
       brightness?: number;
       color_temp?: number;
@@ -164,42 +187,61 @@ export function registerBasicTools(server: McpServer) {
       source?: string;
       volume_level?: number;
     }) => {
-      // Extract the domain from the entity_id
-      const domain = entity_id.split(".")[0];
+      const targets = await resolveTargets(client, { entity_id, area_id, device_id, floor_id, label_id });
+      if (!targets.success) {
+        return formatErrorResponse(targets.message!);
+      }
+      const entityIds = targets.data!;
       
       // Map action to service name
       const service = action === "toggle" ? "toggle" : `turn_${action}`;
       
-      // Prepare service data
-      const serviceData: any = { entity_id };
-      
-      // Add domain-specific parameters
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
-          serviceData[key] = value;
-        }
+      // One call per domain, since the service belongs to the entity's domain
+      const byDomain = new Map<string, string[]>();
+      entityIds.forEach(entityId => {
+        const domain = entityId.split(".")[0];
+        byDomain.set(domain, [...(byDomain.get(domain) || []), entityId]);
       });
       
-      console.error(`Performing action '${action}' on entity: ${entity_id} with params: ${JSON.stringify(params)}`);
+      console.error(`Performing action '${action}' on entities: ${entityIds.join(', ')} with params: ${JSON.stringify(params)}`);
       
-      const result = await callHomeAssistantService(domain, service, serviceData);
+      const calls = [];
+      for (const [domain, domainEntityIds] of byDomain) {
+        // Prepare service data with the domain-specific parameters
+        const serviceData: any = { entity_id: domainEntityIds.length === 1 ? domainEntityIds[0] : domainEntityIds };
+        Object.entries(params).forEach(([key, value]) => {
+          if (value !== undefined) {
+            serviceData[key] = value;
+          }
+        });
+        
+        const result = await client.callHomeAssistantService(domain, service, serviceData);
+        calls.push({ service: `${domain}.${service}`, service_data: serviceData, success: result.success, message: result.message });
+      }
       
-      if (!result.success) {
-        return formatErrorResponse(`Failed to perform action: ${result.message}`);
+      const failed = calls.filter(call => !call.success);
+      if (failed.length === calls.length) {
+        return formatErrorResponse(`Failed to perform action: ${failed.map(call => call.message).join('; ')}`);
       }
       
-      return formatSuccessResponse(`Successfully performed '${action}' on ${entity_id}`);
-    }
+      let text = `Successfully performed '${action}' on ${calls.filter(call => call.success).flatMap(call => [].concat(call.service_data.entity_id)).join(', ')}`;
+      if (failed.length > 0) {
+        text += `\n\nFailed:\n${failed.map(call => `  - ${call.service}: ${call.message}`).join('\n')}`;
+      }
+      
+      return formatSuccessResponse(text, { entity_ids: entityIds, action, calls });
+    },
+    { undoable: true }
   );
 
   // Tool to list all entities and their states with filtering and search
-  server.tool(
+  registry.tool(
     "homeassistant_list_entities",  
     "Get a list of Home Assistant entities with advanced filtering and search capabilities",
     {
       domain: z.string().optional().describe("Optional: Filter by domain (e.g., 'light', 'sensor', 'switch')"),
       search_query: z.string().optional().describe("Optional: Search term to filter by entity_id, friendly_name or other attributes"),
-      limit: z.number().optional().default(100).describe("Maximum number of entities to return (default: 100)"),
+      ...paginationArguments(100, "entities"),
       fields: z.array(z.string()).optional().describe("Optional: Specific fields to include for each entity"),
       detailed: z.boolean().optional().default(false).describe("If true, returns full entity data. If false, returns lean format for token efficiency"),
       state_filter: z.string().optional().describe("Filter by entity state (e.g., 'on', 'off', 'unavailable')"),
@@ -210,10 +252,12 @@ export function registerBasicTools(server: McpServer) {
       sort_by: z.enum(["entity_id", "friendly_name", "state", "last_updated", "domain"]).optional().describe("Sort results by field"),
       sort_order: z.enum(["asc", "desc"]).optional().default("asc").describe("Sort order")
     },
-    async ({ domain, search_query, limit = 100, fields, detailed = false, state_filter, area_filter, device_class_filter, has_attributes, attribute_filters, sort_by, sort_order = "asc" }: {
+    async ({ domain, search_query, limit = 100, cursor, max_tokens, fields, detailed = false, state_filter, area_filter, device_class_filter, has_attributes, attribute_filters, sort_by, sort_order = "asc" }: {
       domain?: string;
       search_query?: string;
       limit?: number;
+      cursor?: string;
+      max_tokens?: number;
       fields?: string[];
       detailed?: boolean;
       state_filter?: string;
@@ -224,7 +268,7 @@ export function registerBasicTools(server: McpServer) {
       sort_by?: "entity_id" | "friendly_name" | "state" | "last_updated" | "domain";
       sort_order?: "asc" | "desc";
     }) => {  
-      const result = await getAllStates();
+      const result = await client.getCachedStates();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get all states: ${result.message}`);
@@ -334,16 +378,11 @@ export function registerBasicTools(server: McpServer) {
         });
       }
       
-      // Apply limit
-      if (limit > 0 && entities.length > limit) {
-        entities = entities.slice(0, limit);
-      }
-      
       if (entities.length === 0) {
         const message = domain ? `No entities found for domain: ${domain}` : 
                        search_query ? `No entities found matching: ${search_query}` : 
                        "No entities found";
-        return formatSuccessResponse(message);
+        return formatSuccessResponse(message, { total: 0, entities: [] });
       }
       
       // Apply field filtering or lean formatting
@@ -404,9 +443,21 @@ export function registerBasicTools(server: McpServer) {
         }
       });
 
+      const page = paginate(processedEntities, {
+        listing: "list_entities",
+        query: { domain, search_query, state_filter, area_filter, device_class_filter, has_attributes, attribute_filters, sort_by, sort_order },
+        cursor,
+        limit,
+        maxTokens: max_tokens
+      });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
+      }
+      const { items: pageEntities } = page.data!;
+
       // Group entities by domain for better organization
       const entitiesByDomain: { [key: string]: any[] } = {};
-      processedEntities.forEach((entity: any) => {
+      pageEntities.forEach((entity: any) => {
         const entityDomain = entity.entity_id.split('.')[0];
         if (!entitiesByDomain[entityDomain]) {
           entitiesByDomain[entityDomain] = [];
@@ -422,38 +473,45 @@ export function registerBasicTools(server: McpServer) {
 
       Object.entries(entitiesByDomain).forEach(([domainName, domainEntities]) => {
         summary.push(`\n${domainName.toUpperCase()} (${domainEntities.length} entities):`);
-        domainEntities.slice(0, 10).forEach(entity => {
-          const name = entity.friendly_name || entity.entity_id;
+        domainEntities.forEach(entity => {
+          const name = entity.friendly_name || entity.attributes?.friendly_name || entity.entity_id;
           summary.push(`  - ${entity.entity_id}: ${entity.state} (${name})`);
         });
-        if (domainEntities.length > 10) {
-          summary.push(`  ... and ${domainEntities.length - 10} more`);
-        }
       });
 
-      return formatSuccessResponse(summary.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "entities");
+      if (pageNote) {
+        summary.push(`\n${pageNote}`);
+      }
+
+      return formatSuccessResponse(summary.join('\n'), {
+        ...pageInfo(page.data!),
+        entities: pageEntities
+      });
+    },
+    { outputSchema: pageOutputSchema("entities", listedEntitySchema) }
   );
 
   // Tool to get Home Assistant version
-  server.tool(
+  registry.tool(
     "homeassistant_get_version",
     "Get the Home Assistant version",
     {},
     async () => {
-      const result = await getConfig();
+      const result = await client.getConfig();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get Home Assistant config: ${result.message}`);
       }
       
       const version = result.data?.version || "unknown";
-      return formatSuccessResponse(`Home Assistant version: ${version}`);
-    }
+      return formatSuccessResponse(`Home Assistant version: ${version}`, { version });
+    },
+    { outputSchema: { version: z.string() } }
   );
 
   // Tool to call any Home Assistant service (low-level API access)
-  server.tool(
+  registry.action(
     "homeassistant_call_service",
     "Call any Home Assistant service (low-level API access)",
     {
@@ -468,35 +526,44 @@ export function registerBasicTools(server: McpServer) {
     }) => {
       console.error(`Calling Home Assistant service: ${domain}.${service} with data: ${JSON.stringify(data)}`);
       
-      const result = await callHomeAssistantService(domain, service, data);
+      const result = await client.callHomeAssistantService(domain, service, data);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to call service: ${result.message}`);
       }
       
-      return formatSuccessResponse(`Successfully called service ${domain}.${service}`);
+      return formatSuccessResponse(`Successfully called service ${domain}.${service}`, {
+        domain,
+        service,
+        service_data: data,
+        // Entity states the service changed, as returned by Home Assistant
+        changed_states: Array.isArray(result.data) ? result.data : []
+      });
     }
   );
 
   // Tool for bulk operations on multiple entities
-  server.tool(
+  registry.action(
     "homeassistant_bulk_operations",
-    "Perform bulk operations on multiple entities simultaneously",
+    "Perform bulk operations on multiple entities simultaneously, given by entity or by area, device, floor or label",
     {
-      entity_ids: z.array(z.string()).describe("Array of entity IDs to operate on"),
+      entity_ids: z.array(z.string()).optional().describe("Array of entity IDs to operate on"),
+      ...targetArguments,
       action: z.enum(["on", "off", "toggle"]).describe("The action to perform on all entities"),
       service_data: z.record(z.any()).optional().describe("Optional service data to apply to all entities"),
       parallel: z.boolean().optional().default(true).describe("If true, executes operations in parallel. If false, executes sequentially")
     },
-    async ({ entity_ids, action, service_data = {}, parallel = true }: {
-      entity_ids: string[];
+    async ({ entity_ids: requested, area_id, device_id, floor_id, label_id, action, service_data = {}, parallel = true }: Omit<TargetSelection, 'entity_id'> & {
+      entity_ids?: string[];
       action: 'on' | 'off' | 'toggle';
       service_data?: Record<string, any>;
       parallel?: boolean;
     }) => {
-      if (entity_ids.length === 0) {
-        return formatErrorResponse("No entity IDs provided");
+      const targets = await resolveTargets(client, { entity_id: requested, area_id, device_id, floor_id, label_id });
+      if (!targets.success) {
+        return formatErrorResponse(targets.message!);
       }
+      const entity_ids = targets.data!;
 
       if (entity_ids.length > 50) {
         return formatErrorResponse("Too many entities (max 50 allowed for bulk operations)");
@@ -511,7 +578,7 @@ export function registerBasicTools(server: McpServer) {
           
           const data = { entity_id, ...service_data };
           
-          const result = await callHomeAssistantService(domain, service, data);
+          const result = await client.callHomeAssistantService(domain, service, data);
           
           return {
             entity_id,
@@ -556,145 +623,181 @@ export function registerBasicTools(server: McpServer) {
         });
       }
 
-      return formatSuccessResponse(summary);
-    }
+      return formatSuccessResponse(summary, { action, successful, failed, results });
+    },
+    { undoable: true }
   );
 
   // Tool to manage entity favorites/bookmarks
-  server.tool(
+  registry.tool(
     "homeassistant_manage_favorites",
-    "Manage entity favorites/bookmarks for quick access",
+    "Manage entity favorites/bookmarks for quick access, optionally organized in named groups (e.g. 'bedtime', 'office')",
     {
-      operation: z.enum(["add", "remove", "list", "clear"]).describe("Operation to perform"),
+      operation: z.enum(["add", "remove", "list", "clear", "list_groups"]).describe("Operation to perform"),
       entity_id: z.string().optional().describe("Entity ID (required for add/remove operations)"),
-      alias: z.string().optional().describe("Optional alias/nickname for the favorite")
+      alias: z.string().optional().describe("Optional alias/nickname for the favorite"),
+      group: z.string().optional().describe("Named group to add to, remove from, list or clear (default: all favorites)")
     },
-    async ({ operation, entity_id, alias }: {
-      operation: 'add' | 'remove' | 'list' | 'clear';
+    async ({ operation, entity_id, alias, group }: {
+      operation: 'add' | 'remove' | 'list' | 'clear' | 'list_groups';
       entity_id?: string;
       alias?: string;
+      group?: string;
     }) => {
-      // Simple in-memory storage (in production, this would be persisted)
-      if (!global.hasOwnProperty('haFavorites')) {
-        (global as any).haFavorites = new Map<string, {entity_id: string, alias?: string, added_at: string}>();
-      }
+      // Favorites are persisted per Home Assistant instance
+      const favorites = stores.favorites;
+      const instanceUrl = client.url;
+      const scope = group ? `group "${group}"` : 'favorites';
       
-      const favorites = (global as any).haFavorites as Map<string, {entity_id: string, alias?: string, added_at: string}>;
-
-      switch (operation) {
-        case 'add':
-          if (!entity_id) {
-            return formatErrorResponse("entity_id is required for add operation");
-          }
-          
-          // Verify entity exists
-          const entityResult = await getHomeAssistantState(entity_id);
-          if (!entityResult.success) {
-            return formatErrorResponse(`Entity ${entity_id} not found or inaccessible`);
-          }
-
-          favorites.set(entity_id, {
-            entity_id,
-            alias,
-            added_at: new Date().toISOString()
-          });
-          
-          return formatSuccessResponse(`Added ${entity_id} to favorites${alias ? ` with alias "${alias}"` : ''}`);
-
-        case 'remove':
-          if (!entity_id) {
-            return formatErrorResponse("entity_id is required for remove operation");
-          }
+      try {
+        switch (operation) {
+          case 'add':
+            if (!entity_id) {
+              return formatErrorResponse("entity_id is required for add operation");
+            }
+            
+            // Verify entity exists
+            const entityResult = await client.getHomeAssistantState(entity_id);
+            if (!entityResult.success) {
+              return formatErrorResponse(`Entity ${entity_id} not found or inaccessible`);
+            }
+            
+            await favorites.add(instanceUrl, entity_id, { alias, group });
+            
+            return formatSuccessResponse(`Added ${entity_id} to ${scope}${alias ? ` with alias "${alias}"` : ''}`, {
+              operation,
+              entity_id,
+              alias,
+              group
+            });
           
-          if (favorites.has(entity_id)) {
-            favorites.delete(entity_id);
-            return formatSuccessResponse(`Removed ${entity_id} from favorites`);
-          } else {
-            return formatErrorResponse(`${entity_id} is not in favorites`);
-          }
-
-        case 'list':
-          if (favorites.size === 0) {
-            return formatSuccessResponse("No favorites saved");
-          }
-
-          let favoritesList = `Favorite entities (${favorites.size}):\n\n`;
+          case 'remove':
+            if (!entity_id) {
+              return formatErrorResponse("entity_id is required for remove operation");
+            }
+            
+            if (await favorites.remove(instanceUrl, entity_id, group)) {
+              return formatSuccessResponse(`Removed ${entity_id} from ${scope}`, { operation, entity_id, group });
+            } else {
+              return formatErrorResponse(`${entity_id} is not in ${scope}`);
+            }
           
-          for (const [entityId, info] of favorites.entries()) {
-            try {
-              const stateResult = await getHomeAssistantState(entityId);
-              const state = stateResult.success ? stateResult.data.state : 'unknown';
-              const friendlyName = stateResult.success ? stateResult.data.attributes?.friendly_name : 'Unknown';
-              
-              favoritesList += `• ${entityId}\n`;
-              favoritesList += `  Name: ${friendlyName}\n`;
-              favoritesList += `  State: ${state}\n`;
-              if (info.alias) {
-                favoritesList += `  Alias: ${info.alias}\n`;
+          case 'list':
+            const entries = await favorites.list(instanceUrl, group);
+            if (entries.length === 0) {
+              return formatSuccessResponse(group ? `No favorites in group "${group}"` : "No favorites saved", { favorites: [] });
+            }
+            
+            let favoritesList = `Favorite entities${group ? ` in group "${group}"` : ''} (${entries.length}):\n\n`;
+            const favoriteStates: any[] = [];
+            
+            for (const info of entries) {
+              try {
+                const stateResult = await client.getHomeAssistantState(info.entity_id);
+                const state = stateResult.success ? stateResult.data.state : 'unknown';
+                const friendlyName = stateResult.success ? stateResult.data.attributes?.friendly_name : 'Unknown';
+                favoriteStates.push({ ...info, state, friendly_name: friendlyName });
+                
+                favoritesList += `• ${info.entity_id}\n`;
+                favoritesList += `  Name: ${friendlyName}\n`;
+                favoritesList += `  State: ${state}\n`;
+                if (info.alias) {
+                  favoritesList += `  Alias: ${info.alias}\n`;
+                }
+                if (info.groups.length > 0) {
+                  favoritesList += `  Groups: ${info.groups.join(', ')}\n`;
+                }
+                favoritesList += `  Added: ${new Date(info.added_at).toLocaleDateString()}\n\n`;
+              } catch (error) {
+                favoritesList += `• ${info.entity_id} (Error retrieving current state)\n\n`;
+                favoriteStates.push({ ...info, state: 'unknown' });
               }
-              favoritesList += `  Added: ${new Date(info.added_at).toLocaleDateString()}\n\n`;
-            } catch (error) {
-              favoritesList += `• ${entityId} (Error retrieving current state)\n\n`;
             }
-          }
-
-          return formatSuccessResponse(favoritesList);
-
-        case 'clear':
-          const count = favorites.size;
-          favorites.clear();
-          return formatSuccessResponse(`Cleared ${count} favorites`);
-
-        default:
-          return formatErrorResponse("Invalid operation");
+            
+            return formatSuccessResponse(favoritesList, { favorites: favoriteStates });
+          
+          case 'list_groups':
+            const groups = await favorites.groups(instanceUrl);
+            if (Object.keys(groups).length === 0) {
+              return formatSuccessResponse("No favorite groups defined", { groups: {} });
+            }
+            
+            let groupList = `Favorite groups (${Object.keys(groups).length}):\n\n`;
+            Object.keys(groups).sort().forEach(name => {
+              groupList += `• ${name}: ${groups[name]} entities\n`;
+            });
+            
+            return formatSuccessResponse(groupList, { groups });
+          
+          case 'clear':
+            const count = await favorites.clear(instanceUrl, group);
+            return formatSuccessResponse(group ? `Removed ${count} favorites from group "${group}"` : `Cleared ${count} favorites`, {
+              operation,
+              group,
+              removed: count
+            });
+          
+          default:
+            return formatErrorResponse("Invalid operation");
+        }
+      } catch (error: any) {
+        return formatErrorResponse(`Failed to ${operation} favorites: ${error.message}`);
       }
     }
   );
 
   // Tool for quick actions on favorite entities
-  server.tool(
+  registry.action(
     "homeassistant_favorite_actions",
-    "Perform quick actions on favorite entities",
+    "Perform quick actions on favorite entities, or only on the favorites in one named group",
     {
       action: z.enum(["status", "toggle_all", "turn_on_all", "turn_off_all", "list_by_domain"]).describe("Action to perform on favorites"),
-      domain: z.string().optional().describe("Filter by domain for list_by_domain action")
+      domain: z.string().optional().describe("Filter by domain for list_by_domain action"),
+      group: z.string().optional().describe("Only act on favorites in this named group (e.g. 'bedtime')")
     },
-    async ({ action, domain }: {
+    async ({ action, domain, group }: {
       action: 'status' | 'toggle_all' | 'turn_on_all' | 'turn_off_all' | 'list_by_domain';
       domain?: string;
+      group?: string;
     }) => {
-      if (!global.hasOwnProperty('haFavorites')) {
-        return formatErrorResponse("No favorites saved");
+      let entries;
+      try {
+        entries = await stores.favorites.list(client.url, group);
+      } catch (error: any) {
+        return formatErrorResponse(`Failed to load favorites: ${error.message}`);
       }
       
-      const favorites = (global as any).haFavorites as Map<string, {entity_id: string, alias?: string, added_at: string}>;
-      
-      if (favorites.size === 0) {
-        return formatErrorResponse("No favorites saved");
+      if (entries.length === 0) {
+        return formatErrorResponse(group ? `No favorites in group "${group}"` : "No favorites saved");
       }
 
+      const favorites = new Map(entries.map(entry => [entry.entity_id, entry]));
       const favoriteEntities = Array.from(favorites.keys());
 
       switch (action) {
         case 'status':
-          let statusReport = `Favorite entities status (${favoriteEntities.length}):\n\n`;
+          let statusReport = `Favorite entities${group ? ` in group "${group}"` : ''} status (${favoriteEntities.length}):\n\n`;
+          const statuses: Array<{ entity_id: string; state?: string; friendly_name?: string; error?: string }> = [];
           
           for (const entityId of favoriteEntities) {
             try {
-              const result = await getHomeAssistantState(entityId);
+              const result = await client.getHomeAssistantState(entityId);
               if (result.success) {
                 const entity = result.data;
                 statusReport += `• ${entityId}: ${entity.state}\n`;
                 statusReport += `  ${entity.attributes?.friendly_name || 'Unknown'}\n\n`;
+                statuses.push({ entity_id: entityId, state: entity.state, friendly_name: entity.attributes?.friendly_name });
               } else {
                 statusReport += `• ${entityId}: Error - ${result.message}\n\n`;
+                statuses.push({ entity_id: entityId, error: result.message });
               }
             } catch (error) {
               statusReport += `• ${entityId}: Error retrieving state\n\n`;
+              statuses.push({ entity_id: entityId, error: "Error retrieving state" });
             }
           }
           
-          return formatSuccessResponse(statusReport);
+          return formatSuccessResponse(statusReport, { group, entities: statuses });
 
         case 'toggle_all':
         case 'turn_on_all':
@@ -710,7 +813,7 @@ export function registerBasicTools(server: McpServer) {
               const entityDomain = entity_id.split(".")[0];
               const service = bulkAction === "toggle" ? "toggle" : `turn_${bulkAction}`;
               
-              const result = await callHomeAssistantService(entityDomain, service, { entity_id });
+              const result = await client.callHomeAssistantService(entityDomain, service, { entity_id });
               
               results.push({
                 entity_id,
@@ -729,7 +832,7 @@ export function registerBasicTools(server: McpServer) {
           const successful = results.filter(r => r.success).length;
           const failed = results.filter(r => !r.success).length;
 
-          let summary = `Bulk action "${bulkAction}" on favorites: ${successful} successful, ${failed} failed\n\n`;
+          let summary = `Bulk action "${bulkAction}" on ${group ? `group "${group}"` : 'favorites'}: ${successful} successful, ${failed} failed\n\n`;
           
           if (failed > 0) {
             summary += "Failed operations:\n";
@@ -738,7 +841,7 @@ export function registerBasicTools(server: McpServer) {
             });
           }
 
-          return formatSuccessResponse(summary);
+          return formatSuccessResponse(summary, { action: bulkAction, group, successful, failed, results });
 
         case 'list_by_domain':
           const entitiesByDomain: { [key: string]: string[] } = {};
@@ -756,7 +859,7 @@ export function registerBasicTools(server: McpServer) {
           if (Object.keys(entitiesByDomain).length === 0) {
             return formatSuccessResponse(domain ? 
               `No favorite entities found for domain: ${domain}` : 
-              "No favorite entities found");
+              "No favorite entities found", { domains: {} });
           }
 
           let domainList = domain ? 
@@ -772,7 +875,7 @@ export function registerBasicTools(server: McpServer) {
             domainList += '\n';
           });
 
-          return formatSuccessResponse(domainList);
+          return formatSuccessResponse(domainList, { domains: entitiesByDomain });
 
         default:
           return formatErrorResponse("Invalid action");
@@ -781,7 +884,7 @@ export function registerBasicTools(server: McpServer) {
   );
 
   // Tool for advanced configuration validation
-  server.tool(
+  registry.tool(
     "homeassistant_validate_config",
     "Validate Home Assistant configuration files and check for errors",
     {
@@ -793,15 +896,19 @@ export function registerBasicTools(server: McpServer) {
       detailed?: boolean;
     }) => {
       try {
-        // Call the config check service
-        const result = await callHomeAssistantService("homeassistant", "check_config", {});
+        // The REST config check only reads the configuration files, unlike the
+        // homeassistant.check_config service it reports what it found
+        const result = await client.checkConfig();
         
         if (!result.success) {
           return formatErrorResponse(`Failed to validate configuration: ${result.message}`);
         }
+        const check = result.data || {};
+        const errors: string[] = [].concat(check.errors ?? []);
+        const warnings: string[] = [].concat(check.warnings ?? []);
 
         // Get configuration info
-        const configResult = await getConfig();
+        const configResult = await client.getConfig();
         if (!configResult.success) {
           return formatErrorResponse(`Failed to get configuration: ${configResult.message}`);
         }
@@ -815,7 +922,23 @@ export function registerBasicTools(server: McpServer) {
         validationReport += `Configuration Source: ${config.config_source || 'Unknown'}\n`;
         validationReport += `Safe Mode: ${config.safe_mode ? 'Yes' : 'No'}\n`;
         validationReport += `Unit System: ${config.unit_system?.name || 'Unknown'}\n`;
-        validationReport += `Time Zone: ${config.time_zone || 'Unknown'}\n\n`;
+        validationReport += `Time Zone: ${config.time_zone || 'Unknown'}\n`;
+        validationReport += `Configuration Check: ${check.result === 'valid' ? '✅ valid' : `❌ ${check.result || 'unknown'}`}\n\n`;
+
+        if (errors.length > 0) {
+          validationReport += "Errors:\n";
+          errors.forEach(error => {
+            validationReport += `  - ${error}\n`;
+          });
+          validationReport += "\n";
+        }
+        if (warnings.length > 0) {
+          validationReport += "Warnings:\n";
+          warnings.forEach(warning => {
+            validationReport += `  - ${warning}\n`;
+          });
+          validationReport += "\n";
+        }
 
         // Check for common configuration issues
         const issues: string[] = [];
@@ -865,14 +988,26 @@ export function registerBasicTools(server: McpServer) {
           issues.forEach(issue => {
             validationReport += `  - ${issue}\n`;
           });
-        } else {
+        } else if (check.result === 'valid') {
           validationReport += "✅ No major configuration issues detected\n";
         }
 
         validationReport += `\nTotal Components Loaded: ${config.components?.length || 0}\n`;
         validationReport += `Configuration Directory: ${config.config_dir || 'Unknown'}\n`;
 
-        return formatSuccessResponse(validationReport);
+        return formatSuccessResponse(validationReport, {
+          result: check.result,
+          errors,
+          warnings,
+          version: config.version,
+          config_source: config.config_source,
+          safe_mode: config.safe_mode === true,
+          unit_system: config.unit_system?.name,
+          time_zone: config.time_zone,
+          config_dir: config.config_dir,
+          components: config.components?.length || 0,
+          issues
+        });
 
       } catch (error) {
         return formatErrorResponse(`Configuration validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -881,7 +1016,7 @@ export function registerBasicTools(server: McpServer) {
   );
 
   // Tool for system health dashboard
-  server.tool(
+  registry.tool(
     "homeassistant_system_health",
     "Get comprehensive system health and performance dashboard",
     {
@@ -895,8 +1030,8 @@ export function registerBasicTools(server: McpServer) {
       try {
         // Get system info and configuration
         const [configResult, apiResult] = await Promise.all([
-          getConfig(),
-          getHomeAssistantApi()
+          client.getConfig(),
+          client.getHomeAssistantApi()
         ]);
 
         if (!configResult.success) {
@@ -964,8 +1099,9 @@ export function registerBasicTools(server: McpServer) {
         }
 
         // Get entity counts by domain
+        let entityStats: { total: number; by_domain: { [domain: string]: number } } | undefined;
         try {
-          const statesResult = await getAllStates();
+          const statesResult = await client.getCachedStates();
           if (statesResult.success) {
             const entities = statesResult.data;
             const entityDomains: { [key: string]: number } = {};
@@ -975,6 +1111,8 @@ export function registerBasicTools(server: McpServer) {
               entityDomains[domain] = (entityDomains[domain] || 0) + 1;
             });
 
+            entityStats = { total: entities.length, by_domain: entityDomains };
+
             healthReport += `\n📱 ENTITIES\n`;
             healthReport += `-`.repeat(12) + "\n";
             healthReport += `Total Entities: ${entities.length}\n`;
@@ -1009,6 +1147,22 @@ export function registerBasicTools(server: McpServer) {
           healthReport += `\n⚠️  Could not retrieve entity statistics\n`;
         }
 
+        // State cache behind the entity statistics, list and search tools
+        const cache = client.stateCacheMetrics();
+        const reads = cache.hits + cache.misses;
+        healthReport += `\n⚡ STATE CACHE\n`;
+        healthReport += `-`.repeat(16) + "\n";
+        healthReport += `Mode: ${cache.mode === 'live' ? '✅ live (state_changed events)' : cache.mode === 'ttl' ? '⏱️  TTL refresh' : 'disabled'}\n`;
+        healthReport += `Cached Entities: ${cache.entities}\n`;
+        healthReport += `Hit Rate: ${reads > 0 ? Math.round(cache.hits / reads * 100) : 0}% (${cache.hits} hits, ${cache.misses} misses)\n`;
+        healthReport += `Staleness: ${cache.staleness_ms !== undefined ? `${Math.round(cache.staleness_ms / 1000)}s` : 'n/a'}\n`;
+        if (detailed) {
+          healthReport += `Refreshes: ${cache.refreshes}\n`;
+          healthReport += `Events Applied: ${cache.events}\n`;
+          healthReport += `Last Refresh: ${cache.last_refresh || 'never'}\n`;
+          healthReport += `Last Event: ${cache.last_event || 'never'}\n`;
+        }
+
         // Overall Health Score
         let healthScore = 100;
         const issues: string[] = [];
@@ -1046,7 +1200,17 @@ export function registerBasicTools(server: McpServer) {
           healthReport += `Status: Excellent! No issues detected.\n`;
         }
 
-        return formatSuccessResponse(healthReport);
+        return formatSuccessResponse(healthReport, {
+          online: true,
+          version: config.version,
+          safe_mode: config.safe_mode === true,
+          installation_type: config.installation_type,
+          components: config.components?.length || 0,
+          entities: entityStats,
+          state_cache: cache,
+          health_score: healthScore,
+          issues
+        });
 
       } catch (error) {
         return formatErrorResponse(`System health check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
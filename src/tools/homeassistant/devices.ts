@@ -1,22 +1,27 @@
 import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import {
-  getAllStates,
-  callHomeAssistantService,
-  formatErrorResponse,
-  formatSuccessResponse
-} from "../../utils/api.js";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+import { resolveTargets, serviceEntityId, targetArguments } from "../../utils/targets.js";
+import { describePage, pageInfo, pageOutputSchema, paginate, paginationArguments } from "../../utils/pagination.js";
+
+const entityStateSchema = z.object({
+  entity_id: z.string(),
+  state: z.string(),
+  attributes: z.record(z.any())
+}).passthrough();
 
 /**
  * Register device-specific tools for common Home Assistant domains
  */
-export function registerDeviceTools(server: McpServer) {
+export function registerDeviceTools(registry: ToolRegistry, client: HomeAssistantClient) {
   // Light control tools
-  server.tool(
+  registry.action(
     "homeassistant_control_lights",  
     "Control lights with advanced options (brightness, color, etc.)",
     {
-      entity_id: z.union([z.string(), z.array(z.string())]).describe("Light entity ID(s)"),
+      entity_id: z.union([z.string(), z.array(z.string())]).optional().describe("Light entity ID(s)"),
+      ...targetArguments,
       action: z.enum(["turn_on", "turn_off", "toggle"]).describe("Action to perform"),
       brightness: z.number().min(0).max(255).optional().describe("Brightness level (0-255)"),
       brightness_pct: z.number().min(0).max(100).optional().describe("Brightness percentage (0-100)"),
@@ -25,8 +30,13 @@ export function registerDeviceTools(server: McpServer) {
       kelvin: z.number().optional().describe("Color temperature in Kelvin"),
       transition: z.number().optional().describe("Transition time in seconds")
     },
-    async ({ entity_id, action, brightness, brightness_pct, color_name, rgb_color, kelvin, transition }) => {
-      const serviceData: any = { entity_id };
+    async ({ entity_id, area_id, device_id, floor_id, label_id, action, brightness, brightness_pct, color_name, rgb_color, kelvin, transition }) => {
+      const targets = await resolveTargets(client, { entity_id, area_id, device_id, floor_id, label_id }, 'light');
+      if (!targets.success) {
+        return formatErrorResponse(targets.message!);
+      }
+      const entityIds = targets.data!;
+      const serviceData: any = { entity_id: serviceEntityId(entityIds) };
       
       if (action === 'turn_on') {
         if (brightness !== undefined) serviceData.brightness = brightness;
@@ -37,28 +47,30 @@ export function registerDeviceTools(server: McpServer) {
         if (transition !== undefined) serviceData.transition = transition;
       }
       
-      const result = await callHomeAssistantService('light', action, serviceData);
+      const result = await client.callHomeAssistantService('light', action, serviceData);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to control lights: ${result.message}`);
       }
       
-      const entityIds = Array.isArray(entity_id) ? entity_id : [entity_id];
       return formatSuccessResponse(
         `Lights ${action}: ${entityIds.join(', ')}` +
         (brightness !== undefined ? ` (brightness: ${brightness})` : '') +
         (brightness_pct !== undefined ? ` (brightness: ${brightness_pct}%)` : '') +
-        (color_name ? ` (color: ${color_name})` : '')
+        (color_name ? ` (color: ${color_name})` : ''),
+        { service: `light.${action}`, entity_ids: entityIds, service_data: serviceData }
       );
-    }
+    },
+    { undoable: true }
   );
 
   // Climate control tools
-  server.tool(
+  registry.action(
     "homeassistant_control_climate",  
     "Control climate/thermostat devices",
     {
-      entity_id: z.union([z.string(), z.array(z.string())]).describe("Climate entity ID(s)"),
+      entity_id: z.union([z.string(), z.array(z.string())]).optional().describe("Climate entity ID(s)"),
+      ...targetArguments,
       temperature: z.number().optional().describe("Target temperature"),
       target_temp_high: z.number().optional().describe("Target high temperature (for heat-cool mode)"),
       target_temp_low: z.number().optional().describe("Target low temperature (for heat-cool mode)"),
@@ -66,8 +78,13 @@ export function registerDeviceTools(server: McpServer) {
       fan_mode: z.string().optional().describe("Fan mode (device-specific)"),
       preset_mode: z.string().optional().describe("Preset mode (e.g., 'away', 'home', 'sleep')")
     },
-    async ({ entity_id, temperature, target_temp_high, target_temp_low, hvac_mode, fan_mode, preset_mode }) => {
-      const serviceData: any = { entity_id };
+    async ({ entity_id, area_id, device_id, floor_id, label_id, temperature, target_temp_high, target_temp_low, hvac_mode, fan_mode, preset_mode }) => {
+      const targets = await resolveTargets(client, { entity_id, area_id, device_id, floor_id, label_id }, 'climate');
+      if (!targets.success) {
+        return formatErrorResponse(targets.message!);
+      }
+      const entityIds = targets.data!;
+      const serviceData: any = { entity_id: serviceEntityId(entityIds) };
       
       if (temperature !== undefined) serviceData.temperature = temperature;
       if (target_temp_high !== undefined) serviceData.target_temp_high = target_temp_high;
@@ -76,27 +93,29 @@ export function registerDeviceTools(server: McpServer) {
       if (fan_mode !== undefined) serviceData.fan_mode = fan_mode;
       if (preset_mode !== undefined) serviceData.preset_mode = preset_mode;
       
-      const result = await callHomeAssistantService('climate', 'set_temperature', serviceData);
+      const result = await client.callHomeAssistantService('climate', 'set_temperature', serviceData);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to control climate: ${result.message}`);
       }
       
-      const entityIds = Array.isArray(entity_id) ? entity_id : [entity_id];
       return formatSuccessResponse(
         `Climate settings updated for: ${entityIds.join(', ')}` +
         (temperature !== undefined ? ` (temp: ${temperature}°)` : '') +
-        (hvac_mode ? ` (mode: ${hvac_mode})` : '')
+        (hvac_mode ? ` (mode: ${hvac_mode})` : ''),
+        { service: 'climate.set_temperature', entity_ids: entityIds, service_data: serviceData }
       );
-    }
+    },
+    { undoable: true }
   );
 
   // Media player control tools
-  server.tool(
+  registry.action(
     "homeassistant_control_media_player",  
     "Control media player devices",
     {
-      entity_id: z.union([z.string(), z.array(z.string())]).describe("Media player entity ID(s)"),
+      entity_id: z.union([z.string(), z.array(z.string())]).optional().describe("Media player entity ID(s)"),
+      ...targetArguments,
       action: z.enum([
         "turn_on", "turn_off", "toggle", "play_media", "media_play", "media_pause", 
         "media_stop", "media_next_track", "media_previous_track", "volume_up", 
@@ -106,8 +125,13 @@ export function registerDeviceTools(server: McpServer) {
       media_content_type: z.string().optional().describe("Media content type (for play_media)"),
       volume_level: z.number().min(0).max(1).optional().describe("Volume level (0.0-1.0)")
     },
-    async ({ entity_id, action, media_content_id, media_content_type, volume_level }) => {
-      const serviceData: any = { entity_id };
+    async ({ entity_id, area_id, device_id, floor_id, label_id, action, media_content_id, media_content_type, volume_level }) => {
+      const targets = await resolveTargets(client, { entity_id, area_id, device_id, floor_id, label_id }, 'media_player');
+      if (!targets.success) {
+        return formatErrorResponse(targets.message!);
+      }
+      const entityIds = targets.data!;
+      const serviceData: any = { entity_id: serviceEntityId(entityIds) };
       
       if (action === 'play_media') {
         if (!media_content_id || !media_content_type) {
@@ -124,28 +148,38 @@ export function registerDeviceTools(server: McpServer) {
         serviceData.volume_level = volume_level;
       }
       
-      const result = await callHomeAssistantService('media_player', action, serviceData);
+      const result = await client.callHomeAssistantService('media_player', action, serviceData);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to control media player: ${result.message}`);
       }
       
-      const entityIds = Array.isArray(entity_id) ? entity_id : [entity_id];
-      return formatSuccessResponse(`Media player ${action}: ${entityIds.join(', ')}`);
-    }
+      return formatSuccessResponse(`Media player ${action}: ${entityIds.join(', ')}`, {
+        service: `media_player.${action}`,
+        entity_ids: entityIds,
+        service_data: serviceData
+      });
+    },
+    { undoable: true }
   );
 
   // Cover/blind control
-  server.tool(
+  registry.action(
     "homeassistant_control_covers",  
     "Control covers, blinds, and shades",
     {
-      entity_id: z.union([z.string(), z.array(z.string())]).describe("Cover entity ID(s)"),
+      entity_id: z.union([z.string(), z.array(z.string())]).optional().describe("Cover entity ID(s)"),
+      ...targetArguments,
       action: z.enum(["open_cover", "close_cover", "stop_cover", "set_cover_position"]).describe("Action to perform"),
       position: z.number().min(0).max(100).optional().describe("Position percentage (0-100, for set_cover_position)")
     },
-    async ({ entity_id, action, position }) => {
-      const serviceData: any = { entity_id };
+    async ({ entity_id, area_id, device_id, floor_id, label_id, action, position }) => {
+      const targets = await resolveTargets(client, { entity_id, area_id, device_id, floor_id, label_id }, 'cover');
+      if (!targets.success) {
+        return formatErrorResponse(targets.message!);
+      }
+      const entityIds = targets.data!;
+      const serviceData: any = { entity_id: serviceEntityId(entityIds) };
       
       if (action === 'set_cover_position') {
         if (position === undefined) {
@@ -154,22 +188,23 @@ export function registerDeviceTools(server: McpServer) {
         serviceData.position = position;
       }
       
-      const result = await callHomeAssistantService('cover', action, serviceData);
+      const result = await client.callHomeAssistantService('cover', action, serviceData);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to control covers: ${result.message}`);
       }
       
-      const entityIds = Array.isArray(entity_id) ? entity_id : [entity_id];
       return formatSuccessResponse(
         `Covers ${action}: ${entityIds.join(', ')}` +
-        (position !== undefined ? ` (position: ${position}%)` : '')
+        (position !== undefined ? ` (position: ${position}%)` : ''),
+        { service: `cover.${action}`, entity_ids: entityIds, service_data: serviceData }
       );
-    }
+    },
+    { undoable: true }
   );
 
   // Get devices by domain
-  server.tool(
+  registry.tool(
     "homeassistant_get_devices_by_type",  
     "Get all devices of a specific type/domain",
     {
@@ -177,10 +212,11 @@ export function registerDeviceTools(server: McpServer) {
         "light", "switch", "sensor", "binary_sensor", "climate", "cover", 
         "media_player", "fan", "lock", "camera", "alarm_control_panel", 
         "vacuum", "water_heater", "humidifier", "device_tracker"
-      ]).describe("Device domain/type to filter by")
+      ]).describe("Device domain/type to filter by"),
+      ...paginationArguments(100, "devices")
     },
-    async ({ domain }) => {
-      const result = await getAllStates();
+    async ({ domain, limit = 100, cursor, max_tokens }) => {
+      const result = await client.getAllStates();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get devices: ${result.message}`);
@@ -191,12 +227,17 @@ export function registerDeviceTools(server: McpServer) {
       );
       
       if (devices.length === 0) {
-        return formatSuccessResponse(`No ${domain} devices found`);
+        return formatSuccessResponse(`No ${domain} devices found`, { domain, devices: [] });
+      }
+      
+      const page = paginate<any>(devices, { listing: "get_devices_by_type", query: { domain }, cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
       }
       
       const output = [`Found ${devices.length} ${domain} devices:`, ""];
       
-      devices.forEach((device: any) => {
+      page.data!.items.forEach((device: any) => {
         const name = device.attributes?.friendly_name || device.entity_id;
         const state = device.state;
         const unit = device.attributes?.unit_of_measurement || '';
@@ -238,12 +279,18 @@ export function registerDeviceTools(server: McpServer) {
         output.push("");
       });
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "devices");
+      if (pageNote) {
+        output.push(pageNote);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), { domain, ...pageInfo(page.data!), devices: page.data!.items });
+    },
+    { outputSchema: { domain: z.string(), ...pageOutputSchema("devices", entityStateSchema) } }
   );
 
   // Notification service
-  server.tool(
+  registry.action(
     "homeassistant_send_notification",  
     "Send a notification through Home Assistant",
     {
@@ -262,13 +309,13 @@ export function registerDeviceTools(server: McpServer) {
         serviceData.target = target;
       }
       
-      const result = await callHomeAssistantService('notify', service, serviceData);
+      const result = await client.callHomeAssistantService('notify', service, serviceData);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to send notification: ${result.message}`);
       }
       
-      return formatSuccessResponse(`Notification sent via ${service}: "${title}"`);
+      return formatSuccessResponse(`Notification sent via ${service}: "${title}"`, { service: `notify.${service}`, service_data: serviceData });
     }
   );
 }
\ No newline at end of file
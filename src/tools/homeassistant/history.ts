@@ -1,21 +1,30 @@
 import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+import { cursorAnchor, describePage, pageInfo, pageOutputSchema, paginate, paginationArguments } from "../../utils/pagination.js";
 import {
-  getHistory,
-  getLogbook,
-  getErrorLog,
-  getEvents,
-  checkConfig,
-  formatErrorResponse,
-  formatSuccessResponse
-} from "../../utils/api.js";
+  allStatisticIds,
+  ENERGY_PERIODS,
+  EnergyDevice,
+  EnergyPeriod,
+  energyStatisticIds,
+  EnergyTotals,
+  energyTotals,
+  EnergyWindow,
+  energyWindow,
+  periodStart,
+  relativeChange,
+  shiftPeriod,
+  untrackedConsumption
+} from "../../utils/energy.js";
 
 /**
  * Register history and monitoring tools
  */
-export function registerHistoryTools(server: McpServer) {
+export function registerHistoryTools(registry: ToolRegistry, client: HomeAssistantClient) {
   // Tool to get entity history (enhanced version from Python)
-  server.tool(
+  registry.tool(
     "homeassistant_get_entity_history",  
     "Get historical data for a Home Assistant entity with detailed analysis",
     {
@@ -30,7 +39,7 @@ export function registerHistoryTools(server: McpServer) {
         const endTime = new Date();
         const startTime = new Date(endTime.getTime() - (hours * 60 * 60 * 1000));
         
-        const result = await getHistory(entity_id, startTime.toISOString(), endTime.toISOString(), false);
+        const result = await client.getHistory(entity_id, startTime.toISOString(), endTime.toISOString(), false);
         
         if (!result.success) {
           return formatErrorResponse(`Failed to get history: ${result.message}`);
@@ -39,7 +48,13 @@ export function registerHistoryTools(server: McpServer) {
         const history = result.data;
         
         if (!history || history.length === 0 || !history[0] || history[0].length === 0) {
-          return formatSuccessResponse(`No history found for ${entity_id} in the last ${hours} hours`);
+          return formatSuccessResponse(`No history found for ${entity_id} in the last ${hours} hours`, {
+            entity_id,
+            start_time: startTime.toISOString(),
+            end_time: endTime.toISOString(),
+            state_changes: 0,
+            history: []
+          });
         }
         
         const entityHistory = history[0]; // First array contains our entity's history
@@ -135,7 +150,19 @@ export function registerHistoryTools(server: McpServer) {
           }
         });
         
-        return formatSuccessResponse(output.join('\n'));
+        return formatSuccessResponse(output.join('\n'), {
+          entity_id,
+          start_time: startTime.toISOString(),
+          end_time: endTime.toISOString(),
+          state_changes: stateChanges,
+          state_counts: states,
+          time_in_state_ms: timeSpentInStates,
+          history: entityHistory.map((record: any) => ({
+            state: record.state,
+            last_updated: record.last_updated,
+            attributes: record.attributes
+          }))
+        });
         
       } catch (error: any) {
         return formatErrorResponse(`Error getting history: ${error.message}`);
@@ -144,14 +171,14 @@ export function registerHistoryTools(server: McpServer) {
   );
 
   // Tool to get Home Assistant error log (from Python code)
-  server.tool(
+  registry.tool(
     "homeassistant_get_error_log",
     "Get the Home Assistant error log for troubleshooting",
     {},
     async () => {
       console.error("Getting Home Assistant error log");
       
-      const result = await getErrorLog();
+      const result = await client.getErrorLog();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get error log: ${result.message}`);
@@ -259,7 +286,14 @@ export function registerHistoryTools(server: McpServer) {
           output.push("- ✅ No errors or warnings found. System appears healthy!");
         }
         
-        return formatSuccessResponse(output.join('\n'));
+        return formatSuccessResponse(output.join('\n'), {
+          total_lines: lines.length,
+          error_count: errorCount,
+          warning_count: warningCount,
+          integration_mentions: integrationMentions,
+          error_samples: errorSamples,
+          warning_samples: warningSamples
+        });
         
       } catch (error: any) {
         return formatErrorResponse(`Error analyzing log: ${error.message}`);
@@ -268,20 +302,26 @@ export function registerHistoryTools(server: McpServer) {
   );
 
   // Tool to get logbook entries
-  server.tool(
+  registry.tool(
     "homeassistant_get_logbook",  
-    "Get logbook entries from Home Assistant",
+    "Get logbook entries from Home Assistant, newest first",
     {
       entity_id: z.string().optional().describe("Filter by specific entity ID"),
       start_time: z.string().optional().describe("Start time in ISO format"),
-      end_time: z.string().optional().describe("End time in ISO format")
+      end_time: z.string().optional().describe("End time in ISO format"),
+      ...paginationArguments(20, "entries")
     },
-    async ({ entity_id, start_time, end_time }: {
+    async ({ entity_id, start_time, end_time, limit = 20, cursor, max_tokens }: {
       entity_id?: string;
       start_time?: string;
       end_time?: string;
+      limit?: number;
+      cursor?: string;
+      max_tokens?: number;
     }) => {  
-      const result = await getLogbook(entity_id, start_time, end_time);
+      // Without an end time, entries logged after the first page would shift the later pages
+      const until = end_time ?? cursorAnchor(cursor) ?? new Date().toISOString();
+      const result = await client.getLogbook(entity_id, start_time, until);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get logbook: ${result.message}`);
@@ -290,14 +330,24 @@ export function registerHistoryTools(server: McpServer) {
       const logbook = result.data;
       
       if (!logbook || logbook.length === 0) {
-        return formatSuccessResponse("No logbook entries found");
+        return formatSuccessResponse("No logbook entries found", { total: 0, offset: 0, entries: [] });
+      }
+      
+      const page = paginate<any>(logbook.slice().reverse(), {
+        listing: "get_logbook",
+        query: { entity_id, start_time, end_time },
+        cursor,
+        limit,
+        maxTokens: max_tokens,
+        anchor: until
+      });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
       }
       
       const output = [`Logbook entries (${logbook.length} total):`, ""];
       
-      // Show last 20 entries
-      const entries = logbook.slice(-20);
-      entries.forEach((entry: any) => {
+      page.data!.items.forEach((entry: any) => {
         const timestamp = new Date(entry.when).toLocaleString();
         const name = entry.name || entry.entity_id || 'Unknown';
         const message = entry.message || `${entry.state || 'changed'}`;
@@ -305,21 +355,23 @@ export function registerHistoryTools(server: McpServer) {
         output.push(`${timestamp} - ${name}: ${message}`);
       });
       
-      if (logbook.length > 20) {
-        output.push(`... and ${logbook.length - 20} more entries`);
+      const pageNote = describePage(page.data!, "entries");
+      if (pageNote) {
+        output.push("", pageNote);
       }
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), entries: page.data!.items });
+    },
+    { outputSchema: pageOutputSchema("entries", z.record(z.any())) }
   );
 
   // Tool to get system events
-  server.tool(
+  registry.tool(
     "homeassistant_get_events",  
     "Get a list of available event types in Home Assistant",
     {},
     async () => {  
-      const result = await getEvents();
+      const result = await client.getEvents();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get events: ${result.message}`);
@@ -328,7 +380,7 @@ export function registerHistoryTools(server: McpServer) {
       const events = result.data;
       
       if (!events || events.length === 0) {
-        return formatSuccessResponse("No events found");
+        return formatSuccessResponse("No events found", { events: [] });
       }
       
       const output = [`Available event types (${events.length} total):`, ""];
@@ -340,17 +392,17 @@ export function registerHistoryTools(server: McpServer) {
         }
       });
       
-      return formatSuccessResponse(output.join('\n'));
+      return formatSuccessResponse(output.join('\n'), { events });
     }
   );
 
   // Tool to check configuration
-  server.tool(
+  registry.tool(
     "homeassistant_check_config",  
     "Check Home Assistant configuration for errors",
     {},
     async () => {  
-      const result = await checkConfig();
+      const result = await client.checkConfig();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to check configuration: ${result.message}`);
@@ -359,7 +411,7 @@ export function registerHistoryTools(server: McpServer) {
       const configCheck = result.data;
       
       if (configCheck.result === 'valid') {
-        return formatSuccessResponse("✅ Configuration is valid!");
+        return formatSuccessResponse("✅ Configuration is valid!", configCheck);
       } else {
         const output = [
           "❌ Configuration has errors:",
@@ -380,42 +432,416 @@ export function registerHistoryTools(server: McpServer) {
           });
         }
         
-        return formatSuccessResponse(output.join('\n'));
+        return formatSuccessResponse(output.join('\n'), configCheck);
       }
     }
   );
 
-  // Tool to get system statistics
-  server.tool(
+  // Tool to get recorder long-term statistics
+  registry.tool(
     "homeassistant_get_statistics",  
-    "Get statistical data for sensor entities",
+    "Get long-term statistics (mean/min/max/sum/state) for sensor entities, aggregated per period",
     {
-      entity_ids: z.array(z.string()).optional().describe("List of entity IDs to get statistics for"),
-      start_time: z.string().optional().describe("Start time in ISO format"),
-      end_time: z.string().optional().describe("End time in ISO format"),
-      period: z.enum(["5minute", "hour", "day", "month"]).optional().describe("Statistics period")
+      entity_ids: z.array(z.string()).min(1).describe("List of entity/statistic IDs to get statistics for (e.g., ['sensor.energy_consumption'])"),
+      start_time: z.string().optional().describe("Start time in ISO format (default depends on period: 24 hours for 5minute/hour, 30 days for day, 12 weeks for week, 12 months for month)"),
+      end_time: z.string().optional().describe("End time in ISO format (default: now)"),
+      period: z.enum(["5minute", "hour", "day", "week", "month"]).optional().default("hour").describe("Statistics period"),
+      types: z.array(z.enum(["mean", "min", "max", "sum", "state", "change"])).optional().describe("Statistic types to include (default: all available for each entity)"),
+      units: z.record(z.string()).optional().describe("Unit conversion by unit class (e.g., {'energy': 'kWh', 'temperature': '°C'})")
+    },
+    async ({ entity_ids, start_time, end_time, period = "hour", types, units }) => {
+      console.error(`Getting ${period} statistics for: ${entity_ids.join(', ')}`);
+      
+      const startTime = start_time ? new Date(start_time) : getDefaultStatisticsStart(period);
+      if (isNaN(startTime.getTime())) {
+        return formatErrorResponse(`Invalid start_time: ${start_time}`);
+      }
+      
+      const [result, metadataResult] = await Promise.all([
+        client.getStatisticsDuringPeriod(entity_ids, startTime.toISOString(), end_time, period, types, units),
+        client.getStatisticsMetadata(entity_ids)
+      ]);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to get statistics: ${result.message}`);
+      }
+      
+      const statistics = result.data || {};
+      const metadataById: { [key: string]: any } = {};
+      if (metadataResult.success && Array.isArray(metadataResult.data)) {
+        metadataResult.data.forEach((meta: any) => {
+          metadataById[meta.statistic_id] = meta;
+        });
+      }
+      
+      const output = [
+        `# Long-term Statistics (${period})`,
+        "",
+        `**Time period**: ${startTime.toLocaleString()} to ${end_time ? new Date(end_time).toLocaleString() : 'now'}`,
+        ""
+      ];
+      const data: Array<{ statistic_id: string; name?: string; unit?: string; rows: any[] }> = [];
+      
+      entity_ids.forEach(statisticId => {
+        const rows: any[] = statistics[statisticId] || [];
+        const meta = metadataById[statisticId];
+        
+        output.push(`## ${meta?.name || statisticId}`);
+        
+        if (rows.length === 0) {
+          data.push({ statistic_id: statisticId, name: meta?.name, rows });
+          output.push(meta ? "No statistics recorded in this period" : "No long-term statistics found (the entity needs a state_class to be recorded)");
+          output.push("");
+          return;
+        }
+        
+        const unit = (meta?.unit_class && units?.[meta.unit_class]) ||
+          meta?.display_unit_of_measurement ||
+          meta?.statistics_unit_of_measurement ||
+          '';
+        if (unit) {
+          output.push(`**Unit**: ${unit}`);
+        }
+        data.push({ statistic_id: statisticId, name: meta?.name, unit: unit || undefined, rows });
+        
+        // Only show columns that carry data for this statistic
+        const columns = (types || STATISTIC_TYPES).filter(type => 
+          rows.some(row => row[type] !== undefined && row[type] !== null)
+        );
+        
+        output.push("");
+        output.push(`| Period start | ${columns.join(' | ')} |`);
+        output.push(`| --- | ${columns.map(() => '---').join(' | ')} |`);
+        rows.forEach(row => {
+          const values = columns.map(type => formatStatisticValue(row[type]));
+          output.push(`| ${new Date(row.start).toLocaleString()} | ${values.join(' | ')} |`);
+        });
+        output.push("");
+        
+        // Summarise the whole period
+        const summary: string[] = [];
+        const means = rows.map(row => row.mean).filter((value: any) => typeof value === 'number');
+        if (means.length > 0) {
+          summary.push(`Average: ${formatStatisticValue(means.reduce((a: number, b: number) => a + b, 0) / means.length)} ${unit}`.trim());
+        }
+        const mins = rows.map(row => row.min).filter((value: any) => typeof value === 'number');
+        if (mins.length > 0) {
+          summary.push(`Lowest: ${formatStatisticValue(Math.min(...mins))} ${unit}`.trim());
+        }
+        const maxes = rows.map(row => row.max).filter((value: any) => typeof value === 'number');
+        if (maxes.length > 0) {
+          summary.push(`Highest: ${formatStatisticValue(Math.max(...maxes))} ${unit}`.trim());
+        }
+        const changes = rows.map(row => row.change).filter((value: any) => typeof value === 'number');
+        if (changes.length > 0) {
+          summary.push(`Total change: ${formatStatisticValue(changes.reduce((a: number, b: number) => a + b, 0))} ${unit}`.trim());
+        } else {
+          const sums = rows.map(row => row.sum).filter((value: any) => typeof value === 'number');
+          if (sums.length > 1) {
+            summary.push(`Total change: ${formatStatisticValue(sums[sums.length - 1] - sums[0])} ${unit}`.trim());
+          }
+        }
+        
+        if (summary.length > 0) {
+          output.push(`**Summary** (${rows.length} periods): ${summary.join(', ')}`);
+          output.push("");
+        }
+      });
+      
+      return formatSuccessResponse(output.join('\n'), {
+        period,
+        start_time: startTime.toISOString(),
+        end_time,
+        statistics: data
+      });
+    }
+  );
+
+  // Tool to report on the energy dashboard
+  registry.tool(
+    "homeassistant_energy_report",
+    "Energy dashboard report for a calendar day, week or month: consumption, production, self-sufficiency, top-consuming devices and cost, compared with the previous period, plus day, week and month comparisons",
+    {
+      period: z.enum(["day", "week", "month"]).optional().default("day").describe("Report period (default: day)"),
+      periods_ago: z.number().int().min(0).optional().default(0).describe("0 for the current period so far, 1 for the previous one, and so on (default: 0)"),
+      top_devices: z.number().int().min(0).optional().default(5).describe("Number of top-consuming devices to list (default: 5)")
     },
-    async ({ entity_ids, start_time, end_time, period = "hour" }) => {
-        // Note: This endpoint might need adjustment based on the actual HA API
-        const endpoint = '/api/history/statistics';
-        
-        const params = new URLSearchParams();
-        if (entity_ids) params.append('statistic_ids', entity_ids.join(','));
-        if (start_time) params.append('start_time', start_time);
-        if (end_time) params.append('end_time', end_time);
-        if (period) params.append('period', period);
-        
-        const fullEndpoint = params.toString() ? `${endpoint}?${params.toString()}` : endpoint;
-        
-        try {
-          // This is a placeholder - the actual statistics API might be different
-          return formatSuccessResponse(
-            "Statistics endpoint is available but may require specific entity configuration. " +
-            "Use homeassistant_get_entity_history for detailed historical data."
-          );
-        } catch (error) {
-          return formatErrorResponse(`Failed to get statistics: ${error}`);
+    async ({ period = "day", periods_ago = 0, top_devices = 5 }) => {
+      console.error(`Building ${period} energy report, ${periods_ago} periods ago`);
+      
+      const [prefsResult, infoResult] = await Promise.all([client.getEnergyPrefs(), client.getEnergyInfo()]);
+      if (!prefsResult.success) {
+        if (prefsResult.message?.startsWith("not_found")) {
+          return formatErrorResponse("The energy dashboard isn't configured in Home Assistant (Settings → Dashboards → Energy)");
         }
+        return formatErrorResponse(`Failed to get energy preferences: ${prefsResult.message}`);
+      }
+      
+      const ids = energyStatisticIds(prefsResult.data, infoResult.success ? infoResult.data?.cost_sensors : undefined);
+      const statisticIds = allStatisticIds(ids);
+      if (statisticIds.length === 0) {
+        return formatSuccessResponse("No energy sources or devices are configured in the energy dashboard", { period, sources: 0 });
+      }
+      
+      // Periods follow the calendar of Home Assistant's time zone
+      const configResult = await client.getConfig();
+      const timeZone = (configResult.success && configResult.data?.time_zone) || Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const formatTime = (ms: number) => new Date(ms).toLocaleString(undefined, { timeZone });
+      
+      // Hourly statistics only cover whole hours, so the current period ends at the last one
+      const now = Date.now();
+      const targetStart = shiftPeriod(period, periodStart(period, now, timeZone), -periods_ago, timeZone);
+      const targetEnd = periods_ago === 0
+        ? Math.max(targetStart, Math.floor(now / HOUR) * HOUR)
+        : shiftPeriod(period, targetStart, 1, timeZone);
+      
+      // The report's period, and the day, week and month up to the same point
+      const reference = periods_ago === 0 ? now : targetEnd - 1;
+      const windows = Object.fromEntries(ENERGY_PERIODS.map(unit => [
+        unit,
+        energyWindow(unit, unit === period ? targetStart : Math.min(periodStart(unit, reference, timeZone), targetEnd), targetEnd, timeZone)
+      ])) as Record<EnergyPeriod, EnergyWindow>;
+      const startTime = Math.min(...Object.values(windows).map(window => window.previous.start));
+      
+      const [result, metadataResult] = await Promise.all([
+        client.getStatisticsDuringPeriod(statisticIds, new Date(startTime).toISOString(), new Date(targetEnd).toISOString(), "hour", ["change"], { energy: "kWh" }),
+        client.getStatisticsMetadata(statisticIds)
+      ]);
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to get energy statistics: ${result.message}`);
+      }
+      
+      // Change of each statistic per hour, summed over each window by the hour's start
+      const hours: Array<{ start: number; statisticId: string; change: number }> = [];
+      Object.entries<any[]>(result.data || {}).forEach(([statisticId, rows]) => {
+        rows.forEach(row => {
+          if (typeof row.change === 'number') {
+            hours.push({ start: new Date(row.start).getTime(), statisticId, change: row.change });
+          }
+        });
+      });
+      const changesBetween = (start: number, end: number) => {
+        const changes = new Map<string, number>();
+        hours
+          .filter(hour => hour.start >= start && hour.start < end)
+          .forEach(hour => changes.set(hour.statisticId, (changes.get(hour.statisticId) ?? 0) + hour.change));
+        return changes;
+      };
+      const totalsOf = (window: EnergyWindow) => {
+        const changes = changesBetween(window.start, window.end);
+        const previousChanges = changesBetween(window.previous.start, window.previous.end);
+        return {
+          current: changes.size > 0 ? energyTotals(ids, changes) : undefined,
+          previous: previousChanges.size > 0 ? energyTotals(ids, previousChanges) : undefined
+        };
+      };
+      
+      const periodName = periods_ago === 0 ? (period === "day" ? "today" : `this ${period}`)
+        : periods_ago === 1 ? (period === "day" ? "yesterday" : `last ${period}`)
+        : `the ${period} ${periods_ago} ${period}s ago`;
+      const target = windows[period];
+      const { current, previous: before } = totalsOf(target);
+      if (!current) {
+        return formatErrorResponse(`No energy statistics recorded for ${periodName}`);
+      }
+      const comparisons = Object.fromEntries(ENERGY_PERIODS.map(unit => [unit, unit === period ? { current, previous: before } : totalsOf(windows[unit])])) as
+        Record<EnergyPeriod, { current?: EnergyTotals; previous?: EnergyTotals }>;
+      
+      const metadataById = new Map<string, any>(
+        metadataResult.success && Array.isArray(metadataResult.data)
+          ? metadataResult.data.map((meta: any) => [meta.statistic_id, meta])
+          : []
+      );
+      const unitOf = (list: string[]) => {
+        const meta = metadataById.get(list[0]);
+        return meta?.unit_class === 'energy' ? 'kWh' : meta?.statistics_unit_of_measurement || '';
+      };
+      const units = {
+        energy: "kWh",
+        gas: ids.gas.length > 0 ? unitOf(ids.gas) : undefined,
+        water: ids.water.length > 0 ? unitOf(ids.water) : undefined,
+        currency: configResult.success ? configResult.data?.currency : undefined
+      };
+      const deviceName = (device: EnergyDevice) => device.name || metadataById.get(device.statistic_id)?.name || device.statistic_id;
+      
+      const inProgress = target.previous.end < target.start;
+      const output = [
+        `# Energy Report: ${periodName}${periods_ago === 0 ? ' (so far)' : ''}`,
+        "",
+        `**Period**: ${formatTime(target.start)} to ${formatTime(target.end)} (${timeZone})`,
+        before
+          ? `**Compared with**: ${formatTime(target.previous.start)} to ${formatTime(target.previous.end)}${inProgress ? ` (the same time into the previous ${period})` : ` (the previous ${period})`}`
+          : `No statistics recorded for the previous ${period} to compare with`,
+        ""
+      ];
+      const columns = `| | ${periodName.charAt(0).toUpperCase() + periodName.slice(1)} | Previous ${period} | Change |`;
+      const separator = "| --- | --- | --- | --- |";
+      const rows = (entries: Array<[string, number | undefined, number | undefined, string]>) => entries
+        .filter(([, value, previousValue]) => value !== undefined || previousValue !== undefined)
+        .map(([label, value, previousValue, unit]) => unit === '%'
+          ? `| ${label} | ${formatPercent(value)} | ${formatPercent(previousValue)} | ${formatPointChange(value, previousValue)} |`
+          : `| ${label} | ${formatEnergyValue(value, unit)} | ${formatEnergyValue(previousValue, unit)} | ${formatPercentChange(relativeChange(value, previousValue))} |`);
+      
+      const electricity = rows([
+        ["Consumption", current.consumption, before?.consumption, "kWh"],
+        ["Grid import", current.grid_import, before?.grid_import, "kWh"],
+        ["Grid export", current.grid_export, before?.grid_export, "kWh"],
+        ["Solar production", current.solar, before?.solar, "kWh"],
+        ["Battery discharged", current.battery_discharge, before?.battery_discharge, "kWh"],
+        ["Battery charged", current.battery_charge, before?.battery_charge, "kWh"],
+        ["Self-sufficiency", current.self_sufficiency, before?.self_sufficiency, "%"],
+        ["Solar used at home", current.solar_self_consumption, before?.solar_self_consumption, "%"]
+      ]);
+      if (electricity.length > 0) {
+        output.push("## Electricity", "", columns, separator, ...electricity, "");
+      }
+      
+      const utilities = rows([
+        ["Gas", current.gas, before?.gas, units.gas || ''],
+        ["Water", current.water, before?.water, units.water || '']
+      ]);
+      if (utilities.length > 0) {
+        output.push("## Gas and Water", "", columns, separator, ...utilities, "");
+      }
+      
+      if (current.cost || before?.cost) {
+        const currency = units.currency || '';
+        output.push("## Cost", "", columns, separator, ...rows([
+          ["Grid", current.cost?.grid, before?.cost?.grid, currency],
+          ["Grid compensation", current.cost?.grid_compensation, before?.cost?.grid_compensation, currency],
+          ["Gas", current.cost?.gas, before?.cost?.gas, currency],
+          ["Water", current.cost?.water, before?.cost?.water, currency],
+          ["**Total**", current.cost?.total, before?.cost?.total, currency]
+        ]), "");
+      }
+      
+      const topDevices = current.devices.slice(0, top_devices);
+      if (topDevices.length > 0) {
+        output.push("## Top Consuming Devices", "");
+        output.push(`| Device | Consumption | Share | Previous ${period} |`);
+        output.push("| --- | --- | --- | --- |");
+        topDevices.forEach(device => {
+          const previousDevice = before?.devices.find(other => other.statistic_id === device.statistic_id);
+          output.push(`| ${deviceName(device)} | ${formatEnergyValue(device.consumption, "kWh")} | ${formatPercent(device.share)} | ${formatEnergyValue(previousDevice?.consumption, "kWh")} |`);
+        });
+        const untracked = untrackedConsumption(current);
+        if (untracked !== undefined) {
+          output.push("", `Not tracked by individual devices: ${formatEnergyValue(untracked, "kWh")}`);
+        }
+        output.push("");
+      }
+      
+      if (electricity.length === 0 && utilities.length === 0 && topDevices.length === 0) {
+        output.push("No energy statistics recorded for the configured sources in this period.");
+      }
+      
+      // Day, week and month up to the end of the report, each against the same stretch of the one before
+      const comparisonRows = ENERGY_PERIODS.map(unit => {
+        const { current: totals, previous: previousTotals } = comparisons[unit];
+        const consumption = [totals?.consumption, previousTotals?.consumption] as const;
+        const cost = [totals?.cost?.total, previousTotals?.cost?.total] as const;
+        return `| ${unit.charAt(0).toUpperCase() + unit.slice(1)} | ${formatTime(windows[unit].start)} | ` +
+          `${formatEnergyValue(consumption[0], "kWh")} | ${formatEnergyValue(consumption[1], "kWh")} | ${formatPercentChange(relativeChange(...consumption))} | ` +
+          `${formatEnergyValue(cost[0], units.currency || '')} | ${formatEnergyValue(cost[1], units.currency || '')} | ${formatPercentChange(relativeChange(...cost))} |`;
+      });
+      output.push(
+        "## Day, Week and Month",
+        "",
+        `Each up to ${formatTime(targetEnd)}, compared with the same time into the period before it.`,
+        "",
+        "| Period | Since | Consumption | Previous | Change | Cost | Previous | Change |",
+        "| --- | --- | --- | --- | --- | --- | --- | --- |",
+        ...comparisonRows,
+        ""
+      );
+      
+      const report = (totals: EnergyTotals) => ({
+        ...totals,
+        devices: totals.devices.slice(0, top_devices).map(device => ({ ...device, name: deviceName(device) }))
+      });
+      const iso = (ms: number) => new Date(ms).toISOString();
+      return formatSuccessResponse(output.join('\n'), {
+        period,
+        time_zone: timeZone,
+        start: iso(target.start),
+        end: iso(target.end),
+        in_progress: periods_ago === 0,
+        units,
+        current: report(current),
+        previous: before ? { start: iso(target.previous.start), end: iso(target.previous.end), ...report(before) } : undefined,
+        untracked_consumption: untrackedConsumption(current),
+        comparisons: Object.fromEntries(ENERGY_PERIODS.map(unit => {
+          const window = windows[unit];
+          const { current: totals, previous: previousTotals } = comparisons[unit];
+          return [unit, {
+            start: iso(window.start),
+            end: iso(window.end),
+            previous_start: iso(window.previous.start),
+            previous_end: iso(window.previous.end),
+            consumption: totals?.consumption,
+            previous_consumption: previousTotals?.consumption,
+            consumption_change: relativeChange(totals?.consumption, previousTotals?.consumption),
+            cost: totals?.cost?.total,
+            previous_cost: previousTotals?.cost?.total,
+            cost_change: relativeChange(totals?.cost?.total, previousTotals?.cost?.total)
+          }];
+        }))
+      });
     }
   );
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const STATISTIC_TYPES = ["mean", "min", "max", "sum", "state", "change"] as const;
+
+/**
+ * Default look-back window for each statistics period
+ */
+function getDefaultStatisticsStart(period: string): Date {
+  const now = Date.now();
+  const day = 24 * 60 * 60 * 1000;
+  
+  switch (period) {
+    case 'day':
+      return new Date(now - 30 * day);
+    case 'week':
+      return new Date(now - 12 * 7 * day);
+    case 'month': {
+      const start = new Date(now);
+      start.setMonth(start.getMonth() - 12);
+      return start;
+    }
+    default:
+      return new Date(now - day);
+  }
+}
+
+function formatStatisticValue(value: any): string {
+  if (value === null || value === undefined) {
+    return '-';
+  }
+  return typeof value === 'number' ? Number(value.toFixed(3)).toString() : String(value);
+}
+
+function formatEnergyValue(value: number | undefined, unit: string): string {
+  return value === undefined ? '-' : `${Number(value.toFixed(2))} ${unit}`.trim();
+}
+
+function formatPercent(value: number | undefined): string {
+  return value === undefined ? '-' : `${Math.round(value * 100)}%`;
+}
+
+function formatPercentChange(change: number | undefined): string {
+  return change === undefined ? '-' : `${change >= 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+}
+
+// Change between two ratios, in percentage points
+function formatPointChange(value: number | undefined, previous: number | undefined): string {
+  if (value === undefined || previous === undefined) {
+    return '-';
+  }
+  const points = Math.round((value - previous) * 100);
+  return `${points >= 0 ? '+' : ''}${points} pts`;
 }
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+import { describePage, pageInfo, paginate, paginationArguments } from "../../utils/pagination.js";
+
+/**
+ * Register tools that work across all configured Home Assistant instances
+ */
+export function registerInstanceTools(registry: ToolRegistry, client: HomeAssistantClient) {
+  // Tool to list the configured instances
+  registry.tool(
+    "homeassistant_list_instances",
+    "List the Home Assistant instances configured for this session, optionally checking that each one is reachable",
+    {
+      check_status: z.boolean().optional().default(true).describe("Query each instance for its version and location name")
+    },
+    async ({ check_status = true }) => {
+      const output = [
+        `# Home Assistant Instances (${client.instanceNames.length})`,
+        ""
+      ];
+
+      const instances = await Promise.all(client.instanceNames.map(name =>
+        client.withInstance(name, async () => ({
+          name,
+          url: client.url,
+          config: check_status ? await client.getConfig() : undefined
+        }))
+      ));
+
+      instances.forEach(({ name, url, config }) => {
+        const isDefault = name === client.defaultInstance ? " (default)" : "";
+        output.push(`## ${name}${isDefault}`);
+        output.push(`- **URL**: ${url}`);
+
+        if (config?.success) {
+          output.push(`- **Status**: ✅ online`);
+          output.push(`- **Version**: ${config.data.version}`);
+          output.push(`- **Location**: ${config.data.location_name}`);
+        } else if (config) {
+          output.push(`- **Status**: ❌ ${config.message}`);
+        }
+        output.push("");
+      });
+
+      output.push("Pass `instance` to any Home Assistant tool to run it against a specific instance.");
+
+      return formatSuccessResponse(output.join('\n'), {
+        instances: instances.map(({ name, url, config }) => ({
+          name,
+          url,
+          default: name === client.defaultInstance,
+          online: config ? config.success : undefined,
+          version: config?.success ? config.data.version : undefined,
+          location_name: config?.success ? config.data.location_name : undefined,
+          error: config && !config.success ? config.message : undefined
+        }))
+      });
+    }
+  );
+
+  // Tool to compare entity states between instances
+  registry.tool(
+    "homeassistant_compare_entities",
+    "Compare the states of entities across Home Assistant instances and highlight differences",
+    {
+      entity_ids: z.array(z.string()).optional().describe("Entity IDs to compare"),
+      domain: z.string().optional().describe("Compare all entities in this domain (e.g., 'light', 'automation')"),
+      instances: z.array(z.string()).optional().describe("Instances to compare (default: all configured instances)"),
+      only_differences: z.boolean().optional().default(false).describe("Only list entities whose state differs or that are missing somewhere"),
+      ...paginationArguments(100, "entities")
+    },
+    async ({ entity_ids, domain, instances, only_differences = false, limit = 100, cursor, max_tokens }) => {
+      if ((!entity_ids || entity_ids.length === 0) && !domain) {
+        return formatErrorResponse("Provide entity_ids or a domain to compare");
+      }
+
+      const names = instances && instances.length > 0 ? instances : client.instanceNames;
+      const unknown = names.filter(name => !client.hasInstance(name));
+      if (unknown.length > 0) {
+        return formatErrorResponse(`Unknown instances: ${unknown.join(', ')}. Available instances: ${client.instanceNames.join(', ')}`);
+      }
+      if (names.length < 2) {
+        return formatErrorResponse("At least two instances are needed for a comparison");
+      }
+
+      const results = await Promise.all(names.map(name => client.withInstance(name, () => client.getAllStates())));
+
+      const failed = results
+        .map((result, index) => result.success ? undefined : `${names[index]}: ${result.message}`)
+        .filter(Boolean);
+      if (failed.length > 0) {
+        return formatErrorResponse(`Failed to get states from:\n${failed.join('\n')}`);
+      }
+
+      const matches = (entityId: string) => entity_ids && entity_ids.length > 0
+        ? entity_ids.includes(entityId)
+        : entityId.startsWith(`${domain}.`);
+
+      // entity_id -> state per instance (undefined when missing)
+      const states = new Map<string, Array<string | undefined>>();
+      results.forEach((result, index) => {
+        result.data
+          .filter((entity: any) => matches(entity.entity_id))
+          .forEach((entity: any) => {
+            if (!states.has(entity.entity_id)) {
+              states.set(entity.entity_id, new Array(names.length).fill(undefined));
+            }
+            states.get(entity.entity_id)![index] = entity.state;
+          });
+      });
+      entity_ids?.forEach(entityId => {
+        if (!states.has(entityId)) {
+          states.set(entityId, new Array(names.length).fill(undefined));
+        }
+      });
+
+      const rows = Array.from(states.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([entityId, values]) => ({
+          entityId,
+          values,
+          differs: new Set(values).size > 1
+        }));
+      const differing = rows.filter(row => row.differs);
+      const missing = rows.filter(row => row.values.includes(undefined));
+      // States in the order of instances, null where the entity is missing
+      const comparisons = (only_differences ? differing : rows).map(row => ({
+        entity_id: row.entityId,
+        states: row.values.map(value => value ?? null),
+        differs: row.differs
+      }));
+      const page = paginate(comparisons, {
+        listing: "compare_entities",
+        query: { entity_ids, domain, instances: names, only_differences },
+        cursor,
+        limit,
+        maxTokens: max_tokens
+      });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
+      }
+      const listed = page.data!.items;
+      const data = {
+        instances: names,
+        compared: rows.length,
+        differing: differing.length,
+        missing: missing.length,
+        ...pageInfo(page.data!),
+        entities: listed
+      };
+
+      const output = [
+        `# Entity Comparison: ${names.join(' vs ')}`,
+        "",
+        `- **Entities compared**: ${rows.length}`,
+        `- **Differing**: ${differing.length}`,
+        `- **Missing on at least one instance**: ${missing.length}`,
+        ""
+      ];
+
+      if (comparisons.length === 0) {
+        output.push(only_differences ? "✅ All entities have the same state on every instance." : "No matching entities found.");
+        return formatSuccessResponse(output.join('\n'), data);
+      }
+
+      output.push(`| Entity | ${names.join(' | ')} | |`);
+      output.push(`| --- | ${names.map(() => '---').join(' | ')} | --- |`);
+      listed.forEach(row => {
+        const cells = row.states.map(value => value === null ? '—' : value);
+        output.push(`| ${row.entity_id} | ${cells.join(' | ')} | ${row.differs ? '⚠️' : '✅'} |`);
+      });
+
+      const pageNote = describePage(page.data!, "entities");
+      if (pageNote) {
+        output.push("");
+        output.push(pageNote);
+      }
+
+      return formatSuccessResponse(output.join('\n'), data);
+    }
+  );
+}
@@ -0,0 +1,365 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+
+// Domains whose state changes are worth reporting in a home summary
+const SUMMARY_DOMAINS = ["light", "switch", "lock", "cover", "climate", "media_player", "person", "alarm_control_panel", "binary_sensor"];
+const MAX_SUMMARY_ENTITIES = 60;
+
+/**
+ * Register MCP prompts for common Home Assistant workflows.
+ * Each prompt pre-fetches live context so the model starts with real data.
+ */
+export function registerPrompts(server: McpServer, client: HomeAssistantClient) {
+  // Prompt for diagnosing unavailable entities
+  server.prompt(
+    "diagnose_unavailable_entities",
+    "Diagnose entities that are unavailable or unknown, using current states and the error log",
+    {
+      domain: z.string().optional().describe("Only look at entities in this domain (e.g., 'sensor', 'light')")
+    },
+    async ({ domain }) => {
+      const [statesResult, logResult] = await Promise.all([client.getAllStates(), client.getErrorLog()]);
+
+      const context: string[] = [];
+      let problemEntities: any[] = [];
+
+      if (statesResult.success) {
+        problemEntities = statesResult.data.filter((entity: any) =>
+          (entity.state === 'unavailable' || entity.state === 'unknown') &&
+          (!domain || entity.entity_id.startsWith(`${domain}.`))
+        );
+
+        context.push(`## Unavailable/unknown entities (${problemEntities.length})`);
+        problemEntities.slice(0, 100).forEach((entity: any) => {
+          const name = entity.attributes?.friendly_name || entity.entity_id;
+          context.push(`- ${entity.entity_id} (${name}): ${entity.state} since ${entity.last_changed}`);
+        });
+        if (problemEntities.length > 100) {
+          context.push(`- ... and ${problemEntities.length - 100} more`);
+        }
+      } else {
+        context.push(`Could not load entity states: ${statesResult.message}`);
+      }
+
+      if (logResult.success) {
+        const logText = typeof logResult.data === 'string' ? logResult.data : JSON.stringify(logResult.data);
+        const relevantLines = logText.split('\n').filter(line => {
+          const lowerLine = line.toLowerCase();
+          if (!lowerLine.includes('error') && !lowerLine.includes('warning')) {
+            return false;
+          }
+          return problemEntities.some((entity: any) => line.includes(entity.entity_id)) ||
+                 /homeassistant\.components\.|custom_components\./.test(line);
+        });
+
+        context.push("", `## Related error log lines (${relevantLines.length}, most recent last)`);
+        relevantLines.slice(-40).forEach(line => context.push(line.trim()));
+      } else {
+        context.push("", `Could not load the error log: ${logResult.message}`);
+      }
+
+      const message = `Help me diagnose why these Home Assistant entities are unavailable${domain ? ` (domain: ${domain})` : ''}.
+
+Group the entities by the integration or device they most likely belong to, match them to the error log lines, and explain the probable cause for each group (device offline, integration failing to set up, stale entities left behind by removed devices, etc.). Then suggest concrete fixes, starting with the groups affecting the most entities. Use the available tools to check entity details or history if something is unclear.
+
+${context.join('\n')}`;
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: message
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // Prompt for summarising recent activity in the home
+  server.prompt(
+    "summarize_home",
+    "Summarise what happened in the home over a recent period",
+    {
+      hours: z.string().optional().describe("Number of hours to summarise (default: 24)")
+    },
+    async ({ hours }) => {
+      const periodHours = Math.max(1, parseInt(hours || '24') || 24);
+      const endTime = new Date();
+      const startTime = new Date(endTime.getTime() - periodHours * 60 * 60 * 1000);
+
+      const [statesResult, logResult] = await Promise.all([client.getAllStates(), client.getErrorLog()]);
+      const context: string[] = [];
+
+      if (statesResult.success) {
+        const entities = statesResult.data;
+        const domainCounts: { [key: string]: { [state: string]: number } } = {};
+
+        entities.forEach((entity: any) => {
+          const entityDomain = entity.entity_id.split('.')[0];
+          if (!SUMMARY_DOMAINS.includes(entityDomain)) {
+            return;
+          }
+          if (!domainCounts[entityDomain]) {
+            domainCounts[entityDomain] = {};
+          }
+          domainCounts[entityDomain][entity.state] = (domainCounts[entityDomain][entity.state] || 0) + 1;
+        });
+
+        context.push("## Current state");
+        Object.entries(domainCounts).forEach(([entityDomain, states]) => {
+          const stateList = Object.entries(states).map(([state, count]) => `${count} ${state}`).join(', ');
+          context.push(`- ${entityDomain}: ${stateList}`);
+        });
+
+        // Fetch history only for the entities that changed during the period
+        const changedEntities = entities
+          .filter((entity: any) =>
+            SUMMARY_DOMAINS.includes(entity.entity_id.split('.')[0]) &&
+            new Date(entity.last_changed).getTime() >= startTime.getTime()
+          )
+          .slice(0, MAX_SUMMARY_ENTITIES);
+
+        if (changedEntities.length > 0) {
+          const historyResult = await client.getHistory(
+            changedEntities.map((entity: any) => entity.entity_id).join(','),
+            startTime.toISOString(),
+            endTime.toISOString(),
+            true
+          );
+
+          if (historyResult.success && Array.isArray(historyResult.data)) {
+            context.push("", `## State changes in the last ${periodHours} hours`);
+            historyResult.data.forEach((entityHistory: any[]) => {
+              if (!entityHistory || entityHistory.length === 0) {
+                return;
+              }
+              const entityId = entityHistory[0].entity_id;
+              const entity = changedEntities.find((e: any) => e.entity_id === entityId);
+              const name = entity?.attributes?.friendly_name || entityId;
+              const transitions = entityHistory.slice(-6).map((record: any) =>
+                `${record.state}@${new Date(record.last_changed || record.last_updated).toLocaleTimeString()}`
+              );
+              context.push(`- ${name} (${entityId}): ${entityHistory.length} changes, latest: ${transitions.join(' → ')}`);
+            });
+          } else {
+            context.push("", `Could not load history: ${historyResult.message}`);
+          }
+        } else {
+          context.push("", `No tracked entities changed in the last ${periodHours} hours`);
+        }
+      } else {
+        context.push(`Could not load entity states: ${statesResult.message}`);
+      }
+
+      if (logResult.success) {
+        const logText = typeof logResult.data === 'string' ? logResult.data : JSON.stringify(logResult.data);
+        const errorCount = logText.split('\n').filter(line => line.includes('ERROR')).length;
+        context.push("", `## System health`, `- Error log contains ${errorCount} error lines`);
+      }
+
+      const message = `Summarise what happened in my home over the last ${periodHours} hours (${startTime.toLocaleString()} to ${endTime.toLocaleString()}).
+
+Write a short, friendly digest: who came and went, which doors, locks and covers were used, lighting and climate activity, and anything unusual (devices left on, unexpected activity at night, repeated errors). Finish with any follow-ups you would recommend.
+
+${context.join('\n')}`;
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: message
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // Prompt for drafting an automation for a room
+  server.prompt(
+    "draft_automation",
+    "Draft an automation for a room, using the entities that actually exist in it",
+    {
+      room: z.string().describe("Room or area name (e.g., 'living room', 'office')"),
+      goal: z.string().optional().describe("What the automation should achieve (e.g., 'turn lights on at sunset when someone is home')")
+    },
+    async ({ room, goal }) => {
+      const [statesResult, areasResult, entityRegistryResult, deviceRegistryResult] = await Promise.all([
+        client.getAllStates(),
+        client.getAreaRegistry(),
+        client.getEntityRegistry(),
+        client.getDeviceRegistry()
+      ]);
+
+      const roomLower = room.toLowerCase();
+      const roomSlug = roomLower.replace(/\s+/g, '_');
+      const areaIds = new Set<string>();
+
+      if (areasResult.success) {
+        areasResult.data.forEach((area: any) => {
+          const names = [area.name, ...(area.aliases || [])].map((name: string) => name.toLowerCase());
+          if (area.area_id === roomSlug || names.includes(roomLower)) {
+            areaIds.add(area.area_id);
+          }
+        });
+      }
+
+      // Entities are in an area directly or through their device
+      const areaEntityIds = new Set<string>();
+      if (areaIds.size > 0 && entityRegistryResult.success) {
+        const deviceAreas: { [key: string]: string } = {};
+        if (deviceRegistryResult.success) {
+          deviceRegistryResult.data.forEach((device: any) => {
+            if (device.area_id) deviceAreas[device.id] = device.area_id;
+          });
+        }
+        entityRegistryResult.data.forEach((entry: any) => {
+          const areaId = entry.area_id || (entry.device_id ? deviceAreas[entry.device_id] : undefined);
+          if (areaId && areaIds.has(areaId)) {
+            areaEntityIds.add(entry.entity_id);
+          }
+        });
+      }
+
+      const context: string[] = [];
+      if (statesResult.success) {
+        const roomEntities = statesResult.data.filter((entity: any) => {
+          const friendlyName = (entity.attributes?.friendly_name || "").toLowerCase();
+          return areaEntityIds.has(entity.entity_id) ||
+                 entity.entity_id.includes(roomSlug) ||
+                 friendlyName.includes(roomLower);
+        });
+
+        context.push(`## Entities in ${room} (${roomEntities.length})`);
+        roomEntities.slice(0, 80).forEach((entity: any) => {
+          const name = entity.attributes?.friendly_name || entity.entity_id;
+          const deviceClass = entity.attributes?.device_class ? `, ${entity.attributes.device_class}` : '';
+          context.push(`- ${entity.entity_id} (${name}${deviceClass}): ${entity.state}`);
+        });
+
+        const helpers = statesResult.data.filter((entity: any) =>
+          /^(input_boolean|input_number|input_select|schedule|person|sun)\./.test(entity.entity_id)
+        );
+        if (helpers.length > 0) {
+          context.push("", "## Useful global entities");
+          helpers.slice(0, 30).forEach((entity: any) => {
+            context.push(`- ${entity.entity_id}: ${entity.state}`);
+          });
+        }
+      } else {
+        context.push(`Could not load entity states: ${statesResult.message}`);
+      }
+
+      const message = `Draft a Home Assistant automation for the ${room}${goal ? ` that will: ${goal}` : ''}.
+
+Only use entity IDs from the list below. Propose the trigger(s), conditions and actions, explain the reasoning briefly, and give the final automation as YAML (alias, description, triggers, conditions, actions, mode). Point out any missing sensors or helpers that would make it more reliable.
+
+${context.join('\n')}`;
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: message
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  // Prompt for reviewing energy usage
+  server.prompt(
+    "energy_usage_review",
+    "Review energy consumption and current power draw, and suggest savings",
+    {
+      days: z.string().optional().describe("Number of days to review (default: 7)")
+    },
+    async ({ days }) => {
+      const periodDays = Math.max(1, parseInt(days || '7') || 7);
+      const endTime = new Date();
+      const startTime = new Date(endTime.getTime() - periodDays * 24 * 60 * 60 * 1000);
+
+      const statesResult = await client.getAllStates();
+      const context: string[] = [];
+
+      if (statesResult.success) {
+        const energySensors = statesResult.data.filter((entity: any) =>
+          entity.entity_id.startsWith('sensor.') &&
+          entity.attributes?.device_class === 'energy' &&
+          ['total', 'total_increasing'].includes(entity.attributes?.state_class)
+        );
+        const powerSensors = statesResult.data.filter((entity: any) =>
+          entity.entity_id.startsWith('sensor.') &&
+          entity.attributes?.device_class === 'power' &&
+          !isNaN(parseFloat(entity.state))
+        );
+
+        if (energySensors.length > 0) {
+          const statsResult = await client.getStatisticsDuringPeriod(
+            energySensors.map((entity: any) => entity.entity_id),
+            startTime.toISOString(),
+            endTime.toISOString(),
+            "day",
+            ["change"]
+          );
+
+          context.push(`## Energy consumption per sensor over ${periodDays} days`);
+          energySensors.forEach((entity: any) => {
+            const name = entity.attributes?.friendly_name || entity.entity_id;
+            const unit = entity.attributes?.unit_of_measurement || '';
+            const rows: any[] = statsResult.success ? (statsResult.data?.[entity.entity_id] || []) : [];
+            const total = rows.reduce((sum, row) => sum + (row.change || 0), 0);
+            const daily = rows.map(row => Number((row.change || 0).toFixed(2))).join(', ');
+            context.push(`- ${name} (${entity.entity_id}): ${Number(total.toFixed(2))} ${unit} total${daily ? ` [daily: ${daily}]` : ''}`);
+          });
+
+          if (!statsResult.success) {
+            context.push(`(Could not load statistics: ${statsResult.message})`);
+          }
+        } else {
+          context.push("## Energy consumption", "No energy sensors with a total/total_increasing state class were found");
+        }
+
+        if (powerSensors.length > 0) {
+          context.push("", "## Current power draw (highest first)");
+          powerSensors
+            .sort((a: any, b: any) => parseFloat(b.state) - parseFloat(a.state))
+            .slice(0, 25)
+            .forEach((entity: any) => {
+              const name = entity.attributes?.friendly_name || entity.entity_id;
+              context.push(`- ${name} (${entity.entity_id}): ${entity.state} ${entity.attributes?.unit_of_measurement || ''}`.trim());
+            });
+        }
+      } else {
+        context.push(`Could not load entity states: ${statesResult.message}`);
+      }
+
+      const message = `Review my home's energy usage over the last ${periodDays} days.
+
+Identify the biggest consumers, notable day-to-day changes, and devices with a suspicious standby or constant draw. Suggest specific savings (schedules, automations, settings) and estimate their impact where the data allows.
+
+${context.join('\n')}`;
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: message
+            }
+          }
+        ]
+      };
+    }
+  );
+}
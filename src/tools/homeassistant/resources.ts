@@ -1,11 +1,15 @@
 import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate, Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import {
-  getAllStates,
-  getHomeAssistantState,
-  formatErrorResponse,
-  formatSuccessResponse
-} from "../../utils/api.js";
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
 
 // Domain-specific important attributes for lean responses
 const DOMAIN_IMPORTANT_ATTRIBUTES: { [key: string]: string[] } = {
@@ -23,12 +27,88 @@ const DOMAIN_IMPORTANT_ATTRIBUTES: { [key: string]: string[] } = {
   "script": ["last_triggered"]
 };
 
+type ResourceResponse = { content: Array<{ type: "text"; text: string }>; structuredContent?: Record<string, any>; isError?: boolean };
+
+interface HassResourceDefinition {
+  name: string;
+  uriTemplate: string;
+  description: string;
+  example?: string;
+  note?: string;
+  // List concrete resources for this template (only for small, enumerable sets)
+  list?: (client: HomeAssistantClient) => Promise<Array<{ uri: string; name: string }>>;
+  read: (client: HomeAssistantClient, variables: Variables) => Promise<ResourceResponse>;
+}
+
+/**
+ * Every hass:// resource, registered as MCP resources and served by the resource tools
+ */
+const HASS_RESOURCES: HassResourceDefinition[] = [
+  {
+    name: "entities",
+    uriTemplate: "hass://entities",
+    description: "All entities overview with domain grouping",
+    note: "Large response - consider using domain-specific or search resources",
+    read: (client) => handleAllEntitiesResource(client)
+  },
+  {
+    name: "entity",
+    uriTemplate: "hass://entities/{entity_id}",
+    description: "Individual entity state and key attributes",
+    example: "hass://entities/light.living_room",
+    read: (client, { entity_id }) => handleEntityResource(client, String(entity_id), false)
+  },
+  {
+    name: "entity_detailed",
+    uriTemplate: "hass://entities/{entity_id}/detailed",
+    description: "Complete entity information including all attributes",
+    example: "hass://entities/light.living_room/detailed",
+    read: (client, { entity_id }) => handleEntityResource(client, String(entity_id), true)
+  },
+  {
+    name: "domain",
+    uriTemplate: "hass://entities/domain/{domain}",
+    description: "All entities in a specific domain",
+    example: "hass://entities/domain/light",
+    list: async (client) => (await listDomains(client)).map(domain => ({
+      uri: `hass://entities/domain/${domain}`,
+      name: `${domain} entities`
+    })),
+    read: (client, { domain }) => handleDomainResource(client, String(domain))
+  },
+  {
+    name: "domain_summary",
+    uriTemplate: "hass://entities/domain/{domain}/summary",
+    description: "Statistical summary of entities in a domain",
+    example: "hass://entities/domain/sensor/summary",
+    list: async (client) => (await listDomains(client)).map(domain => ({
+      uri: `hass://entities/domain/${domain}/summary`,
+      name: `${domain} summary`
+    })),
+    read: (client, { domain }) => handleDomainSummaryResource(client, String(domain))
+  },
+  {
+    name: "search",
+    uriTemplate: "hass://search/{query}",
+    description: "Search entities by ID, name, or state (up to 20 results)",
+    example: "hass://search/living%20room",
+    read: (client, { query }) => handleSearchResource(client, decodeURIComponent(String(query)), 20)
+  },
+  {
+    name: "search_limited",
+    uriTemplate: "hass://search/{query}/{limit}",
+    description: "Search entities by ID, name, or state with a result limit",
+    example: "hass://search/living%20room/10",
+    read: (client, { query, limit }) => handleSearchResource(client, decodeURIComponent(String(query)), parseInt(String(limit)) || 20)
+  }
+];
+
 /**
- * Register resource-related tools for Home Assistant
+ * Register resource-related tools for Home Assistant (for clients without native resource support)
  */
-export function registerResourceTools(server: McpServer) {
+export function registerResourceTools(registry: ToolRegistry, client: HomeAssistantClient) {
   // Tool to get specific resource by URI
-  server.tool(
+  registry.tool(
     "homeassistant_get_resource",
     "Get a specific Home Assistant resource by URI",
     {
@@ -37,43 +117,15 @@ export function registerResourceTools(server: McpServer) {
     async ({ uri }: { uri: string }) => {
       console.error(`Getting resource: ${uri}`);
       
+      if (!uri.startsWith('hass://')) {
+        return formatErrorResponse(`Invalid protocol. Must use 'hass:' protocol`);
+      }
+      
       try {
-        // Parse the URI to determine resource type
-        const url = new URL(uri);
-        const pathParts = url.pathname.split('/').filter(p => p);
-        
-        if (url.protocol !== 'hass:') {
-          return formatErrorResponse(`Invalid protocol. Must use 'hass:' protocol`);
-        }
-        
-        // Handle different resource types
-        if (pathParts[0] === 'entities') {
-          if (pathParts.length === 1) {
-            // hass://entities - all entities overview
-            return await handleAllEntitiesResource();
-          } else if (pathParts.length === 2) {
-            // hass://entities/{entity_id} - specific entity
-            const entityId = pathParts[1];
-            return await handleEntityResource(entityId, false);
-          } else if (pathParts.length === 3 && pathParts[2] === 'detailed') {
-            // hass://entities/{entity_id}/detailed - detailed entity view
-            const entityId = pathParts[1];
-            return await handleEntityResource(entityId, true);
-          } else if (pathParts.length === 3 && pathParts[1] === 'domain') {
-            // hass://entities/domain/{domain} - domain entities
-            const domain = pathParts[2];
-            return await handleDomainResource(domain);
-          } else if (pathParts.length === 4 && pathParts[1] === 'domain' && pathParts[3] === 'summary') {
-            // hass://entities/domain/{domain}/summary - domain summary
-            const domain = pathParts[2];
-            return await handleDomainSummaryResource(domain);
-          }
-        } else if (pathParts[0] === 'search') {
-          if (pathParts.length >= 2) {
-            // hass://search/{query}/{limit?} - entity search
-            const query = decodeURIComponent(pathParts[1]);
-            const limit = pathParts.length > 2 ? parseInt(pathParts[2]) || 20 : 20;
-            return await handleSearchResource(query, limit);
+        for (const resource of HASS_RESOURCES) {
+          const variables = new UriTemplate(resource.uriTemplate).match(uri);
+          if (variables) {
+            return await resource.read(client, variables);
           }
         }
         
@@ -86,56 +138,23 @@ export function registerResourceTools(server: McpServer) {
   );
 
   // Tool to list available resources
-  server.tool(
+  registry.tool(
     "homeassistant_list_resources",
     "List all available Home Assistant resources with their URIs",
     {},
     async () => {
-      const resources = [
-        {
-          uri: "hass://entities",
-          description: "All entities overview with domain grouping",
-          note: "Large response - consider using domain-specific or search resources"
-        },
-        {
-          uri: "hass://entities/{entity_id}",
-          description: "Individual entity state and key attributes",
-          example: "hass://entities/light.living_room"
-        },
-        {
-          uri: "hass://entities/{entity_id}/detailed",
-          description: "Complete entity information including all attributes",
-          example: "hass://entities/light.living_room/detailed"
-        },
-        {
-          uri: "hass://entities/domain/{domain}",
-          description: "All entities in a specific domain",
-          example: "hass://entities/domain/light"
-        },
-        {
-          uri: "hass://entities/domain/{domain}/summary",
-          description: "Statistical summary of entities in a domain",
-          example: "hass://entities/domain/sensor/summary"
-        },
-        {
-          uri: "hass://search/{query}/{limit}",
-          description: "Search entities by ID, name, or state (limit optional, default 20)",
-          example: "hass://search/living%20room/10"
-        }
-      ];
-      
       let content = "# Available Home Assistant Resources\n\n";
       
-      resources.forEach((resource, index) => {
-        content += `## ${index + 1}. ${resource.uri}\n\n`;
+      HASS_RESOURCES.forEach((resource, index) => {
+        content += `## ${index + 1}. ${resource.uriTemplate}\n\n`;
         content += `**Description**: ${resource.description}\n\n`;
         
-        if ((resource as any).example) {
-          content += `**Example**: \`${(resource as any).example}\`\n\n`;
+        if (resource.example) {
+          content += `**Example**: \`${resource.example}\`\n\n`;
         }
         
-        if ((resource as any).note) {
-          content += `**Note**: ${(resource as any).note}\n\n`;
+        if (resource.note) {
+          content += `**Note**: ${resource.note}\n\n`;
         }
       });
       
@@ -144,280 +163,528 @@ export function registerResourceTools(server: McpServer) {
       content += "- Domain resources are efficient for exploring entity types\n";
       content += "- Search resources support URL encoding for special characters\n";
       content += "- Detailed views provide complete information but use more tokens\n";
+      content += "- MCP clients with resource support can browse and subscribe to these URIs directly\n";
       
-      return formatSuccessResponse(content);
+      return formatSuccessResponse(content, {
+        resources: HASS_RESOURCES.map(resource => ({
+          name: resource.name,
+          uri_template: resource.uriTemplate,
+          description: resource.description,
+          example: resource.example,
+          note: resource.note
+        }))
+      });
     }
   );
+}
 
-  // Helper functions for resource handling
-  async function handleAllEntitiesResource() {
-    const result = await getAllStates();
-    
-    if (!result.success) {
-      return formatErrorResponse(`Error retrieving entities: ${result.message}`);
+/**
+ * Register hass:// URIs as MCP resources and resource templates with subscribe
+ * support, so clients receive resources/updated notifications when entity states change
+ */
+export function registerResources(server: McpServer, client: HomeAssistantClient) {
+  const complete = {
+    entity_id: (value: string) => completeEntityId(client, value),
+    domain: (value: string) => completeDomain(client, value)
+  };
+
+  HASS_RESOURCES.forEach(resource => {
+    const metadata = {
+      description: resource.description,
+      mimeType: "text/markdown"
+    };
+    
+    if (!UriTemplate.isTemplate(resource.uriTemplate)) {
+      server.resource(
+        resource.name,
+        resource.uriTemplate,
+        metadata,
+        async (uri) => toResourceResult(uri, await resource.read(client, {}))
+      );
+      return;
     }
     
-    const entities = result.data;
-    
-    let content = "# Home Assistant Entities Overview\n\n";
-    content += `Total entities: ${entities.length}\n\n`;
-    content += "⚠️ **Performance Note**: This is a complete entity list. For better performance, consider:\n";
-    content += "- Domain filtering: `hass://entities/domain/{domain}`\n";
-    content += "- Entity search: `hass://search/{query}`\n";
-    content += "- Specific entities: `hass://entities/{entity_id}`\n\n";
-    
-    // Group entities by domain
-    const domains: { [key: string]: any[] } = {};
-    entities.forEach((entity: any) => {
-      const domain = entity.entity_id.split('.')[0];
-      if (!domains[domain]) {
-        domains[domain] = [];
-      }
-      domains[domain].push(entity);
+    const list = resource.list;
+    const template = new ResourceTemplate(resource.uriTemplate, {
+      list: list ? async () => ({ resources: await list(client) }) : undefined,
+      complete
     });
     
-    Object.entries(domains).sort(([a], [b]) => a.localeCompare(b)).forEach(([domain, domainEntities]) => {
-      content += `## ${domain.toUpperCase()} (${domainEntities.length} entities)\n\n`;
-      
-      // Show first 5 entities of each domain
-      domainEntities.slice(0, 5).forEach(entity => {
-        const name = entity.attributes?.friendly_name || entity.entity_id;
-        content += `- **${entity.entity_id}**: ${entity.state} (${name})\n`;
+    server.resource(
+      resource.name,
+      template,
+      metadata,
+      async (uri, variables) => toResourceResult(uri, await resource.read(client, variables))
+    );
+  });
+
+  registerResourceSubscriptions(server, client);
+}
+
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Complete entity ids for resource template arguments
+ */
+async function completeEntityId(client: HomeAssistantClient, value: string): Promise<string[]> {
+  const result = await client.getCachedStates();
+  if (!result.success) {
+    return [];
+  }
+  
+  const search = value.toLowerCase();
+  const entityIds: string[] = result.data.map((entity: any) => entity.entity_id);
+  const prefixMatches = entityIds.filter(id => id.startsWith(search));
+  const otherMatches = entityIds.filter(id => !id.startsWith(search) && id.includes(search));
+  
+  return [...prefixMatches, ...otherMatches].slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Complete domains for resource template arguments
+ */
+async function completeDomain(client: HomeAssistantClient, value: string): Promise<string[]> {
+  const domains = await listDomains(client);
+  return domains.filter(domain => domain.startsWith(value.toLowerCase())).slice(0, MAX_COMPLETIONS);
+}
+
+async function listDomains(client: HomeAssistantClient): Promise<string[]> {
+  const result = await client.getCachedStates();
+  if (!result.success) {
+    return [];
+  }
+  
+  const domains = new Set<string>(result.data.map((entity: any) => entity.entity_id.split('.')[0]));
+  return Array.from(domains).sort();
+}
+
+/**
+ * Track resources/subscribe requests and forward matching state_changed events
+ */
+function registerResourceSubscriptions(server: McpServer, client: HomeAssistantClient) {
+  const subscribedUris = new Set<string>();
+  const pendingUpdates = new Set<string>();
+  let flushTimer: NodeJS.Timeout | undefined;
+  let stateChanges: Promise<() => Promise<void>> | undefined;
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  const flushUpdates = () => {
+    flushTimer = undefined;
+    const uris = Array.from(pendingUpdates);
+    pendingUpdates.clear();
+    
+    uris.forEach(uri => {
+      server.server.sendResourceUpdated({ uri }).catch((error: any) => {
+        console.error(`Failed to send resource update for ${uri}: ${error.message}`);
       });
-      
-      if (domainEntities.length > 5) {
-        content += `- ... and ${domainEntities.length - 5} more ${domain} entities\n`;
-        content += `- [View all ${domain} entities](hass://entities/domain/${domain})\n`;
-      }
-      content += "\n";
     });
-    
-    return formatSuccessResponse(content);
-  }
+  };
 
-  async function handleEntityResource(entityId: string, detailed: boolean) {
-    const result = await getHomeAssistantState(entityId);
-    
-    if (!result.success) {
-      return formatErrorResponse(`Error retrieving entity ${entityId}: ${result.message}`);
+  const handleStateChanged = (event: any) => {
+    const entityId = event.data?.entity_id;
+    if (!entityId) {
+      return;
     }
     
-    const entity = result.data;
-    const domain = entityId.split(".")[0];
-    
-    let content = `# Entity: ${entityId}${detailed ? ' (Detailed)' : ''}\n\n`;
+    const states = [event.data.old_state, event.data.new_state];
+    subscribedUris.forEach(uri => {
+      if (resourceUriMatchesEntity(uri, entityId, states)) {
+        pendingUpdates.add(uri);
+      }
+    });
     
-    const friendlyName = entity.attributes?.friendly_name;
-    if (friendlyName && friendlyName !== entityId) {
-      content += `**Name**: ${friendlyName}\n\n`;
+    // Coalesce bursts of state changes into one notification per resource
+    if (pendingUpdates.size > 0 && !flushTimer) {
+      flushTimer = setTimeout(flushUpdates, RESOURCE_UPDATE_DEBOUNCE_MS);
     }
-    
-    content += `**State**: ${entity.state}\n`;
-    content += `**Domain**: ${domain}\n\n`;
-    
-    if (detailed) {
-      content += "## All Attributes\n\n";
-      const attributes = entity.attributes || {};
-      if (Object.keys(attributes).length > 0) {
-        Object.entries(attributes).forEach(([key, value]) => {
-          content += `- **${key}**: ${JSON.stringify(value)}\n`;
-        });
-      } else {
-        content += "*No attributes available*\n";
-      }
-      
-      content += "\n## Context Information\n\n";
-      if (entity.last_updated) {
-        content += `**Last Updated**: ${entity.last_updated}\n`;
-      }
-      if (entity.last_changed) {
-        content += `**Last Changed**: ${entity.last_changed}\n`;
-      }
-    } else {
-      content += "## Key Attributes\n\n";
-      const attributes = entity.attributes || {};
-      const importantAttrs = DOMAIN_IMPORTANT_ATTRIBUTES[domain] || [];
-      
-      let displayedAttrs = 0;
-      for (const attrName of importantAttrs) {
-        if (attributes[attrName] !== undefined) {
-          content += `- **${attrName}**: ${JSON.stringify(attributes[attrName])}\n`;
-          displayedAttrs++;
-        }
-      }
-      
-      if (displayedAttrs === 0) {
-        content += "*No key attributes for this entity type*\n";
+  };
+
+  const stopStateChanges = async () => {
+    const subscription = stateChanges;
+    stateChanges = undefined;
+    if (subscription) {
+      try {
+        await (await subscription)();
+      } catch (error: any) {
+        console.error(`Failed to stop state change subscription: ${error.message}`);
       }
-      
-      content += `\n[View detailed information](hass://entities/${entityId}/detailed)\n`;
     }
-    
-    return formatSuccessResponse(content);
-  }
+  };
 
-  async function handleDomainResource(domain: string) {
-    const result = await getAllStates();
-    
-    if (!result.success) {
-      return formatErrorResponse(`Error retrieving entities: ${result.message}`);
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    if (!uri.startsWith('hass://')) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to ${uri}: only hass:// resources support subscriptions`);
     }
     
-    const allEntities = result.data;
-    const entities = allEntities.filter((entity: any) => 
-      entity.entity_id.startsWith(`${domain}.`)
-    );
+    if (!stateChanges) {
+      stateChanges = client.getWebSocket().subscribeEvents(handleStateChanged, 'state_changed');
+    }
     
-    if (entities.length === 0) {
-      return formatErrorResponse(`No entities found for domain: ${domain}`);
+    try {
+      await stateChanges;
+    } catch (error: any) {
+      stateChanges = undefined;
+      throw new McpError(ErrorCode.InternalError, `Failed to subscribe to Home Assistant state changes: ${error.message}`);
     }
     
-    let content = `# ${domain.charAt(0).toUpperCase() + domain.slice(1)} Domain Entities\n\n`;
-    content += `Total entities: ${entities.length}\n\n`;
+    subscribedUris.add(uri);
+    console.error(`Subscribed to resource updates: ${uri}`);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribedUris.delete(request.params.uri);
+    console.error(`Unsubscribed from resource updates: ${request.params.uri}`);
     
-    entities.forEach((entity: any) => {
+    if (subscribedUris.size === 0) {
+      await stopStateChanges();
+    }
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    previousOnClose?.();
+    subscribedUris.clear();
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = undefined;
+    }
+    stopStateChanges();
+  };
+}
+
+const RESOURCE_UPDATE_DEBOUNCE_MS = 500;
+
+/**
+ * Check whether a state change of an entity affects the content of a hass:// resource.
+ * States are the entity's states before and after the change.
+ */
+function resourceUriMatchesEntity(uri: string, entityId: string, states: any[]): boolean {
+  const domain = entityId.split('.')[0];
+  const path = uri.replace(/^hass:\/\//, '').split('/').filter(p => p);
+  
+  if (path[0] === 'entities') {
+    if (path.length === 1) {
+      return true;
+    }
+    if (path[1] === 'domain') {
+      return path[2] === domain;
+    }
+    return path[1] === entityId;
+  }
+  
+  if (path[0] === 'search' && path.length >= 2) {
+    const searchTerm = decodeURIComponent(path[1]).toLowerCase().trim();
+    // Matching before or after the change means the entity joined, left or changed in the results
+    return entityId.toLowerCase().includes(searchTerm) ||
+           states.some(state =>
+             (state?.attributes?.friendly_name || '').toLowerCase().includes(searchTerm) ||
+             (state?.state || '').toLowerCase().includes(searchTerm)
+           );
+  }
+  
+  return false;
+}
+
+/**
+ * Convert a tool-style response from the resource handlers into resource contents
+ */
+function toResourceResult(uri: URL, response: ResourceResponse) {
+  const text = response.content.map(item => item.text).join('\n');
+  
+  if (response.isError) {
+    throw new McpError(ErrorCode.InvalidParams, text);
+  }
+  
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: "text/markdown",
+      text
+    }]
+  };
+}
+
+// Helper functions for resource handling, shared by the resource tools and MCP resources
+async function handleAllEntitiesResource(client: HomeAssistantClient) {
+  const result = await client.getCachedStates();
+  
+  if (!result.success) {
+    return formatErrorResponse(`Error retrieving entities: ${result.message}`);
+  }
+  
+  const entities = result.data;
+  
+  let content = "# Home Assistant Entities Overview\n\n";
+  content += `Total entities: ${entities.length}\n\n`;
+  content += "⚠️ **Performance Note**: This is a complete entity list. For better performance, consider:\n";
+  content += "- Domain filtering: `hass://entities/domain/{domain}`\n";
+  content += "- Entity search: `hass://search/{query}`\n";
+  content += "- Specific entities: `hass://entities/{entity_id}`\n\n";
+  
+  // Group entities by domain
+  const domains: { [key: string]: any[] } = {};
+  entities.forEach((entity: any) => {
+    const domain = entity.entity_id.split('.')[0];
+    if (!domains[domain]) {
+      domains[domain] = [];
+    }
+    domains[domain].push(entity);
+  });
+  
+  Object.entries(domains).sort(([a], [b]) => a.localeCompare(b)).forEach(([domain, domainEntities]) => {
+    content += `## ${domain.toUpperCase()} (${domainEntities.length} entities)\n\n`;
+    
+    // Show first 5 entities of each domain
+    domainEntities.slice(0, 5).forEach(entity => {
       const name = entity.attributes?.friendly_name || entity.entity_id;
-      content += `## ${entity.entity_id}\n`;
-      content += `- **Name**: ${name}\n`;
-      content += `- **State**: ${entity.state}\n`;
-      
-      // Add important attributes for this domain
-      const importantAttrs = DOMAIN_IMPORTANT_ATTRIBUTES[domain] || [];
-      importantAttrs.forEach(attr => {
-        if (entity.attributes?.[attr] !== undefined) {
-          content += `- **${attr}**: ${entity.attributes[attr]}\n`;
-        }
-      });
-      content += "\n";
+      content += `- **${entity.entity_id}**: ${entity.state} (${name})\n`;
     });
     
-    content += `## Related Resources\n\n`;
-    content += `- [Domain summary](hass://entities/domain/${domain}/summary)\n`;
-    content += `- [Search in this domain](hass://search/${domain}/20)\n`;
-    
-    return formatSuccessResponse(content);
-  }
+    if (domainEntities.length > 5) {
+      content += `- ... and ${domainEntities.length - 5} more ${domain} entities\n`;
+      content += `- [View all ${domain} entities](hass://entities/domain/${domain})\n`;
+    }
+    content += "\n";
+  });
+  
+  return formatSuccessResponse(content, {
+    total: entities.length,
+    domains: Object.fromEntries(Object.entries(domains).map(([domain, domainEntities]) => [domain, domainEntities.length]))
+  });
+}
 
-  async function handleDomainSummaryResource(domain: string) {
-    const result = await getAllStates();
-    
-    if (!result.success) {
-      return formatErrorResponse(`Error retrieving entities: ${result.message}`);
+async function handleEntityResource(client: HomeAssistantClient, entityId: string, detailed: boolean) {
+  const result = await client.getHomeAssistantState(entityId);
+  
+  if (!result.success) {
+    return formatErrorResponse(`Error retrieving entity ${entityId}: ${result.message}`);
+  }
+  
+  const entity = result.data;
+  const domain = entityId.split(".")[0];
+  
+  let content = `# Entity: ${entityId}${detailed ? ' (Detailed)' : ''}\n\n`;
+  
+  const friendlyName = entity.attributes?.friendly_name;
+  if (friendlyName && friendlyName !== entityId) {
+    content += `**Name**: ${friendlyName}\n\n`;
+  }
+  
+  content += `**State**: ${entity.state}\n`;
+  content += `**Domain**: ${domain}\n\n`;
+  
+  if (detailed) {
+    content += "## All Attributes\n\n";
+    const attributes = entity.attributes || {};
+    if (Object.keys(attributes).length > 0) {
+      Object.entries(attributes).forEach(([key, value]) => {
+        content += `- **${key}**: ${JSON.stringify(value)}\n`;
+      });
+    } else {
+      content += "*No attributes available*\n";
     }
     
-    const allEntities = result.data;
-    const entities = allEntities.filter((entity: any) => 
-      entity.entity_id.startsWith(`${domain}.`)
-    );
-    
-    if (entities.length === 0) {
-      return formatErrorResponse(`No entities found for domain: ${domain}`);
+    content += "\n## Context Information\n\n";
+    if (entity.last_updated) {
+      content += `**Last Updated**: ${entity.last_updated}\n`;
     }
-    
-    // Analyze the domain
-    const stateCounts: { [key: string]: number } = {};
-    const attributesSummary: { [key: string]: Set<any> } = {};
-    
-    entities.forEach((entity: any) => {
-      const state = entity.state || "unknown";
-      stateCounts[state] = (stateCounts[state] || 0) + 1;
-      
-      if (entity.attributes) {
-        Object.entries(entity.attributes).forEach(([key, value]) => {
-          if (!attributesSummary[key]) {
-            attributesSummary[key] = new Set();
-          }
-          if (value !== null && value !== undefined) {
-            attributesSummary[key].add(typeof value === 'object' ? JSON.stringify(value) : value);
-          }
-        });
+    if (entity.last_changed) {
+      content += `**Last Changed**: ${entity.last_changed}\n`;
+    }
+  } else {
+    content += "## Key Attributes\n\n";
+    const attributes = entity.attributes || {};
+    const importantAttrs = DOMAIN_IMPORTANT_ATTRIBUTES[domain] || [];
+    
+    let displayedAttrs = 0;
+    for (const attrName of importantAttrs) {
+      if (attributes[attrName] !== undefined) {
+        content += `- **${attrName}**: ${JSON.stringify(attributes[attrName])}\n`;
+        displayedAttrs++;
       }
-    });
-    
-    let content = `# ${domain.charAt(0).toUpperCase() + domain.slice(1)} Domain Summary\n\n`;
-    content += `**Total entities**: ${entities.length}\n\n`;
+    }
     
-    // State distribution
-    content += "## State Distribution\n\n";
-    Object.entries(stateCounts).forEach(([state, count]) => {
-      const percentage = ((count / entities.length) * 100).toFixed(1);
-      content += `- **${state}**: ${count} entities (${percentage}%)\n`;
-    });
+    if (displayedAttrs === 0) {
+      content += "*No key attributes for this entity type*\n";
+    }
     
-    // Common attributes
-    content += "\n## Common Attributes\n\n";
-    const sortedAttributes = Object.entries(attributesSummary)
-      .sort(([, a], [, b]) => b.size - a.size)
-      .slice(0, 10);
-      
-    sortedAttributes.forEach(([attr, values]) => {
-      const valueCount = values.size;
-      content += `- **${attr}**: ${valueCount} unique values\n`;
-      
-      if (valueCount <= 5) {
-        const valuesList = Array.from(values).slice(0, 5);
-        content += `  Values: ${valuesList.join(', ')}\n`;
+    content += `\n[View detailed information](hass://entities/${entityId}/detailed)\n`;
+  }
+  
+  return formatSuccessResponse(content, entity);
+}
+
+async function handleDomainResource(client: HomeAssistantClient, domain: string) {
+  const result = await client.getCachedStates();
+  
+  if (!result.success) {
+    return formatErrorResponse(`Error retrieving entities: ${result.message}`);
+  }
+  
+  const allEntities = result.data;
+  const entities = allEntities.filter((entity: any) => 
+    entity.entity_id.startsWith(`${domain}.`)
+  );
+  
+  if (entities.length === 0) {
+    return formatErrorResponse(`No entities found for domain: ${domain}`);
+  }
+  
+  let content = `# ${domain.charAt(0).toUpperCase() + domain.slice(1)} Domain Entities\n\n`;
+  content += `Total entities: ${entities.length}\n\n`;
+  
+  entities.forEach((entity: any) => {
+    const name = entity.attributes?.friendly_name || entity.entity_id;
+    content += `## ${entity.entity_id}\n`;
+    content += `- **Name**: ${name}\n`;
+    content += `- **State**: ${entity.state}\n`;
+    
+    // Add important attributes for this domain
+    const importantAttrs = DOMAIN_IMPORTANT_ATTRIBUTES[domain] || [];
+    importantAttrs.forEach(attr => {
+      if (entity.attributes?.[attr] !== undefined) {
+        content += `- **${attr}**: ${entity.attributes[attr]}\n`;
       }
     });
-    
-    content += `\n## Related Resources\n\n`;
-    content += `- [View all ${domain} entities](hass://entities/domain/${domain})\n`;
-    content += `- [Search ${domain} entities](hass://search/${domain}/20)\n`;
-    
-    return formatSuccessResponse(content);
-  }
+    content += "\n";
+  });
+  
+  content += `## Related Resources\n\n`;
+  content += `- [Domain summary](hass://entities/domain/${domain}/summary)\n`;
+  content += `- [Search in this domain](hass://search/${domain}/20)\n`;
+  
+  return formatSuccessResponse(content, { domain, total: entities.length, entities });
+}
 
-  async function handleSearchResource(query: string, limit: number) {
-    if (!query || query.trim() === "") {
-      return formatErrorResponse("Please provide a search query");
+async function handleDomainSummaryResource(client: HomeAssistantClient, domain: string) {
+  const result = await client.getCachedStates();
+  
+  if (!result.success) {
+    return formatErrorResponse(`Error retrieving entities: ${result.message}`);
+  }
+  
+  const allEntities = result.data;
+  const entities = allEntities.filter((entity: any) => 
+    entity.entity_id.startsWith(`${domain}.`)
+  );
+  
+  if (entities.length === 0) {
+    return formatErrorResponse(`No entities found for domain: ${domain}`);
+  }
+  
+  // Analyze the domain
+  const stateCounts: { [key: string]: number } = {};
+  const attributesSummary: { [key: string]: Set<any> } = {};
+  
+  entities.forEach((entity: any) => {
+    const state = entity.state || "unknown";
+    stateCounts[state] = (stateCounts[state] || 0) + 1;
+    
+    if (entity.attributes) {
+      Object.entries(entity.attributes).forEach(([key, value]) => {
+        if (!attributesSummary[key]) {
+          attributesSummary[key] = new Set();
+        }
+        if (value !== null && value !== undefined) {
+          attributesSummary[key].add(typeof value === 'object' ? JSON.stringify(value) : value);
+        }
+      });
     }
-    
-    const result = await getAllStates();
-    
-    if (!result.success) {
-      return formatErrorResponse(`Error searching entities: ${result.message}`);
+  });
+  
+  let content = `# ${domain.charAt(0).toUpperCase() + domain.slice(1)} Domain Summary\n\n`;
+  content += `**Total entities**: ${entities.length}\n\n`;
+  
+  // State distribution
+  content += "## State Distribution\n\n";
+  Object.entries(stateCounts).forEach(([state, count]) => {
+    const percentage = ((count / entities.length) * 100).toFixed(1);
+    content += `- **${state}**: ${count} entities (${percentage}%)\n`;
+  });
+  
+  // Common attributes
+  content += "\n## Common Attributes\n\n";
+  const sortedAttributes = Object.entries(attributesSummary)
+    .sort(([, a], [, b]) => b.size - a.size)
+    .slice(0, 10);
+    
+  sortedAttributes.forEach(([attr, values]) => {
+    const valueCount = values.size;
+    content += `- **${attr}**: ${valueCount} unique values\n`;
+    
+    if (valueCount <= 5) {
+      const valuesList = Array.from(values).slice(0, 5);
+      content += `  Values: ${valuesList.join(', ')}\n`;
     }
-    
-    const searchTerm = query.toLowerCase().trim();
-    const matchingEntities = result.data.filter((entity: any) => {
-      const entityId = entity.entity_id.toLowerCase();
-      const friendlyName = (entity.attributes?.friendly_name || "").toLowerCase();
-      const state = (entity.state || "").toLowerCase();
-      
-      return entityId.includes(searchTerm) || 
-             friendlyName.includes(searchTerm) || 
-             state.includes(searchTerm);
-    }).slice(0, limit);
-    
-    if (matchingEntities.length === 0) {
-      return formatSuccessResponse(`No entities found matching: '${query}'`);
+  });
+  
+  content += `\n## Related Resources\n\n`;
+  content += `- [View all ${domain} entities](hass://entities/domain/${domain})\n`;
+  content += `- [Search ${domain} entities](hass://search/${domain}/20)\n`;
+  
+  return formatSuccessResponse(content, {
+    domain,
+    total: entities.length,
+    states: stateCounts,
+    // Number of distinct values of each attribute
+    attributes: Object.fromEntries(Object.entries(attributesSummary).map(([attr, values]) => [attr, values.size]))
+  });
+}
+
+async function handleSearchResource(client: HomeAssistantClient, query: string, limit: number) {
+  if (!query || query.trim() === "") {
+    return formatErrorResponse("Please provide a search query");
+  }
+  
+  const result = await client.getCachedStates();
+  
+  if (!result.success) {
+    return formatErrorResponse(`Error searching entities: ${result.message}`);
+  }
+  
+  const searchTerm = query.toLowerCase().trim();
+  const matchingEntities = result.data.filter((entity: any) => {
+    const entityId = entity.entity_id.toLowerCase();
+    const friendlyName = (entity.attributes?.friendly_name || "").toLowerCase();
+    const state = (entity.state || "").toLowerCase();
+    
+    return entityId.includes(searchTerm) || 
+           friendlyName.includes(searchTerm) || 
+           state.includes(searchTerm);
+  }).slice(0, limit);
+  
+  if (matchingEntities.length === 0) {
+    return formatSuccessResponse(`No entities found matching: '${query}'`, { query, entities: [] });
+  }
+  
+  let content = `# Search Results for '${query}'\n\n`;
+  content += `Found ${matchingEntities.length} matching entities (limit: ${limit}):\n\n`;
+  
+  // Group by domain
+  const domains: { [key: string]: any[] } = {};
+  matchingEntities.forEach((entity: any) => {
+    const domain = entity.entity_id.split('.')[0];
+    if (!domains[domain]) {
+      domains[domain] = [];
     }
-    
-    let content = `# Search Results for '${query}'\n\n`;
-    content += `Found ${matchingEntities.length} matching entities (limit: ${limit}):\n\n`;
-    
-    // Group by domain
-    const domains: { [key: string]: any[] } = {};
-    matchingEntities.forEach((entity: any) => {
-      const domain = entity.entity_id.split('.')[0];
-      if (!domains[domain]) {
-        domains[domain] = [];
+    domains[domain].push(entity);
+  });
+  
+  Object.entries(domains).forEach(([domain, domainEntities]) => {
+    content += `## ${domain.toUpperCase()} (${domainEntities.length})\n\n`;
+    domainEntities.forEach(entity => {
+      const name = entity.attributes?.friendly_name || entity.entity_id;
+      content += `- [${entity.entity_id}](hass://entities/${entity.entity_id}): ${entity.state}\n`;
+      if (name !== entity.entity_id) {
+        content += `  Name: ${name}\n`;
       }
-      domains[domain].push(entity);
     });
-    
-    Object.entries(domains).forEach(([domain, domainEntities]) => {
-      content += `## ${domain.toUpperCase()} (${domainEntities.length})\n\n`;
-      domainEntities.forEach(entity => {
-        const name = entity.attributes?.friendly_name || entity.entity_id;
-        content += `- [${entity.entity_id}](hass://entities/${entity.entity_id}): ${entity.state}\n`;
-        if (name !== entity.entity_id) {
-          content += `  Name: ${name}\n`;
-        }
-      });
-      content += "\n";
-    });
-    
-    return formatSuccessResponse(content);
-  }
+    content += "\n";
+  });
+  
+  return formatSuccessResponse(content, { query, entities: matchingEntities });
 }
@@ -1,22 +1,35 @@
 import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import {
-  getAllStates,
-  callHomeAssistantService,
-  restartHomeAssistant,
-  stopHomeAssistant,
-  renderTemplate,
-  makeGetRequest,
-  formatErrorResponse,
-  formatSuccessResponse
-} from "../../utils/api.js";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+import { loadEntityIndex, rankEntities, scoreEntity } from "../../utils/resolver.js";
+import { describePage, pageInfo, pageOutputSchema, paginate, paginationArguments } from "../../utils/pagination.js";
+
+// Structured content of the list tools
+const areaSchema = z.object({ area_id: z.string(), name: z.string() }).passthrough();
+const deviceSummarySchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  manufacturer: z.string().nullish(),
+  model: z.string().nullish(),
+  area_id: z.string().nullish(),
+  area: z.string().optional()
+});
+const addonSchema = z.object({ slug: z.string(), name: z.string() }).passthrough();
+const entityMatchSchema = z.object({
+  entity_id: z.string(),
+  friendly_name: z.string().optional(),
+  state: z.string(),
+  area: z.string().optional(),
+  score: z.number().describe("0 (unrelated) to 1 (exact)")
+});
 
 /**
  * Register system administration and management tools
  */
-export function registerSystemTools(server: McpServer) {
+export function registerSystemTools(registry: ToolRegistry, client: HomeAssistantClient) {
   // System information tool
-  server.tool(
+  registry.tool(
     "homeassistant_system_info",  
     "Get Home Assistant system information and health status",
     {},
@@ -24,14 +37,23 @@ export function registerSystemTools(server: McpServer) {
       try {
         // Get multiple system endpoints
         const [statesResult, configResult] = await Promise.all([
-          getAllStates(),
-          makeGetRequest('/api/config')
+          client.getAllStates(),
+          client.makeGetRequest('/api/config')
         ]);
         
         const output = ["Home Assistant System Information:", ""];
+        const info: { [key: string]: any } = {};
         
         if (configResult.success && configResult.data) {
           const config = configResult.data;
+          Object.assign(info, {
+            version: config.version,
+            installation_type: config.installation_type,
+            location_name: config.location_name,
+            time_zone: config.time_zone,
+            unit_system: config.unit_system,
+            components: config.components ? config.components.length : 0
+          });
           output.push(`Version: ${config.version || 'Unknown'}`);
           output.push(`Installation Type: ${config.installation_type || 'Unknown'}`);
           output.push(`Location: ${config.location_name || 'Unknown'}`);
@@ -50,6 +72,8 @@ export function registerSystemTools(server: McpServer) {
             entityStats[domain] = (entityStats[domain] || 0) + 1;
           });
           
+          info.total_entities = entities.length;
+          info.entities_by_domain = entityStats;
           output.push(`Total Entities: ${entities.length}`);
           output.push("Entities by Domain:");
           Object.entries(entityStats)
@@ -59,7 +83,7 @@ export function registerSystemTools(server: McpServer) {
             });
         }
         
-        return formatSuccessResponse(output.join('\n'));
+        return formatSuccessResponse(output.join('\n'), info);
       } catch (error) {
         return formatErrorResponse(`Failed to get system info: ${error}`);
       }
@@ -67,30 +91,32 @@ export function registerSystemTools(server: McpServer) {
   );
 
   // Template rendering tool
-  server.tool(
+  registry.tool(
     "homeassistant_render_template",  
     "Render a Home Assistant Jinja2 template",
     {
       template: z.string().describe("The Jinja2 template to render (e.g., '{{ states.sensor.temperature.state }}')"),
     },
     async ({ template }) => {
-      const result = await renderTemplate(template);
+      const result = await client.renderTemplate(template);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to render template: ${result.message}`);
       }
       
-      return formatSuccessResponse(`Template result: ${result.data}`);
+      return formatSuccessResponse(`Template result: ${result.data}`, { template, result: result.data });
     }
   );
 
   // Get all areas
-  server.tool(
+  registry.tool(
     "homeassistant_list_areas",  
     "Get all areas defined in Home Assistant",
-    {},
-    async () => {
-      const result = await makeGetRequest('/api/config/area_registry');
+    {
+      ...paginationArguments(100, "areas")
+    },
+    async ({ limit = 100, cursor, max_tokens }) => {
+      const result = await client.getAreaRegistry();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get areas: ${result.message}`);
@@ -99,12 +125,17 @@ export function registerSystemTools(server: McpServer) {
       const areas = result.data;
       
       if (!areas || areas.length === 0) {
-        return formatSuccessResponse("No areas configured");
+        return formatSuccessResponse("No areas configured", { areas: [] });
+      }
+      
+      const page = paginate<any>(areas, { listing: "list_areas", cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
       }
       
       const output = [`Found ${areas.length} areas:`, ""];
       
-      areas.forEach((area: any) => {
+      page.data!.items.forEach((area: any) => {
         output.push(`🏠 ${area.name} (${area.area_id})`);
         if (area.aliases && area.aliases.length > 0) {
           output.push(`   Aliases: ${area.aliases.join(', ')}`);
@@ -112,54 +143,88 @@ export function registerSystemTools(server: McpServer) {
         output.push("");
       });
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "areas");
+      if (pageNote) {
+        output.push(pageNote);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), areas: page.data!.items });
+    },
+    { outputSchema: pageOutputSchema("areas", areaSchema) }
   );
 
   // Get all devices
-  server.tool(
+  registry.tool(
     "homeassistant_list_devices",  
     "Get all devices registered in Home Assistant",
-    {},
-    async () => {
-      const result = await makeGetRequest('/api/config/device_registry');
+    {
+      ...paginationArguments(50, "devices")
+    },
+    async ({ limit = 50, cursor, max_tokens }) => {
+      const [result, areasResult] = await Promise.all([
+        client.getDeviceRegistry(),
+        client.getAreaRegistry()
+      ]);
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get devices: ${result.message}`);
       }
       
       const devices = result.data;
+      const areaNames: { [key: string]: string } = {};
+      if (areasResult.success && areasResult.data) {
+        areasResult.data.forEach((area: any) => {
+          areaNames[area.area_id] = area.name;
+        });
+      }
       
       if (!devices || devices.length === 0) {
-        return formatSuccessResponse("No devices found");
+        return formatSuccessResponse("No devices found", { total: 0, devices: [] });
+      }
+      
+      const summaries = devices.map((device: any) => ({
+        id: device.id,
+        name: device.name_by_user || device.name,
+        manufacturer: device.manufacturer,
+        model: device.model,
+        area_id: device.area_id,
+        area: device.area_id ? areaNames[device.area_id] : undefined
+      }));
+      const page = paginate<any>(summaries, { listing: "list_devices", cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
       }
       
       const output = [`Found ${devices.length} devices:`, ""];
       
-      devices.slice(0, 50).forEach((device: any) => {
-        output.push(`📱 ${device.name || device.name_by_user || 'Unknown Device'}`);
+      page.data!.items.forEach((device: any) => {
+        output.push(`📱 ${device.name || 'Unknown Device'}`);
         output.push(`   ID: ${device.id}`);
         if (device.manufacturer) output.push(`   Manufacturer: ${device.manufacturer}`);
         if (device.model) output.push(`   Model: ${device.model}`);
-        if (device.area_id) output.push(`   Area: ${device.area_id}`);
+        if (device.area_id) output.push(`   Area: ${device.area || device.area_id}`);
         output.push("");
       });
       
-      if (devices.length > 50) {
-        output.push(`... and ${devices.length - 50} more devices`);
+      const pageNote = describePage(page.data!, "devices");
+      if (pageNote) {
+        output.push(pageNote);
       }
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), devices: page.data!.items });
+    },
+    { outputSchema: pageOutputSchema("devices", deviceSummarySchema) }
   );
 
   // Get integrations
-  server.tool(
+  registry.tool(
     "homeassistant_list_integrations",  
     "Get all installed integrations/components",
-    {},
-    async () => {
-      const result = await makeGetRequest('/api/config');
+    {
+      ...paginationArguments(0, "components")
+    },
+    async ({ limit = 0, cursor, max_tokens }) => {
+      const result = await client.makeGetRequest('/api/config');
       
       if (!result.success) {
         return formatErrorResponse(`Failed to get integrations: ${result.message}`);
@@ -168,22 +233,33 @@ export function registerSystemTools(server: McpServer) {
       const config = result.data;
       
       if (!config.components || config.components.length === 0) {
-        return formatSuccessResponse("No components found");
+        return formatSuccessResponse("No components found", { components: [] });
       }
       
       const components = config.components.sort();
+      const page = paginate<string>(components, { listing: "list_integrations", cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
+      }
+      
       const output = [
         `Found ${components.length} components/integrations:`,
         "",
-        components.join(', ')
+        page.data!.items.join(', ')
       ];
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "components");
+      if (pageNote) {
+        output.push("", pageNote);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), { ...pageInfo(page.data!), components: page.data!.items });
+    },
+    { outputSchema: pageOutputSchema("components", z.string()) }
   );
 
   // Restart Home Assistant (dangerous - requires confirmation)
-  server.tool(
+  registry.action(
     "homeassistant_restart_service",  
     "Restart Home Assistant (WARNING: This will restart the entire system)",
     {
@@ -194,27 +270,27 @@ export function registerSystemTools(server: McpServer) {
         return formatErrorResponse("Restart cancelled. Set confirm=true to proceed with restart.");
       }
       
-      const result = await restartHomeAssistant();
+      const result = await client.restartHomeAssistant();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to restart Home Assistant: ${result.message}`);
       }
       
-      return formatSuccessResponse("⚠️ Home Assistant restart initiated. The system will be unavailable for a few minutes.");
+      return formatSuccessResponse("⚠️ Home Assistant restart initiated. The system will be unavailable for a few minutes.", { restarting: true });
     }
   );
 
   // Get supervisor info (if running Home Assistant OS/Supervised)
-  server.tool(
+  registry.tool(
     "homeassistant_supervisor_info",  
     "Get Home Assistant Supervisor information (if available)",
     {},
     async () => {
-      const result = await makeGetRequest('/api/hassio/supervisor/info');
+      const result = await client.makeGetRequest('/api/hassio/supervisor/info');
       
       if (!result.success) {
         if (result.statusCode === 404) {
-          return formatSuccessResponse("Home Assistant Supervisor not available (running in Core mode)");
+          return formatSuccessResponse("Home Assistant Supervisor not available (running in Core mode)", { available: false });
         }
         return formatErrorResponse(`Failed to get supervisor info: ${result.message}`);
       }
@@ -237,21 +313,23 @@ export function registerSystemTools(server: McpServer) {
         output.push("", `Add-ons: ${info.addons.length}`);
       }
       
-      return formatSuccessResponse(output.join('\n'));
+      return formatSuccessResponse(output.join('\n'), { available: true, ...info });
     }
   );
 
   // Get add-ons list
-  server.tool(
+  registry.tool(
     "homeassistant_list_addons",  
     "Get list of Home Assistant add-ons (if Supervisor is available)",
-    {},
-    async () => {
-      const result = await makeGetRequest('/api/hassio/addons');
+    {
+      ...paginationArguments(50, "add-ons")
+    },
+    async ({ limit = 50, cursor, max_tokens }) => {
+      const result = await client.makeGetRequest('/api/hassio/addons');
       
       if (!result.success) {
         if (result.statusCode === 404) {
-          return formatSuccessResponse("Add-ons not available (not running Home Assistant OS/Supervised)");
+          return formatSuccessResponse("Add-ons not available (not running Home Assistant OS/Supervised)", { available: false, addons: [] });
         }
         return formatErrorResponse(`Failed to get add-ons: ${result.message}`);
       }
@@ -259,12 +337,17 @@ export function registerSystemTools(server: McpServer) {
       const addons = result.data;
       
       if (!addons.addons || addons.addons.length === 0) {
-        return formatSuccessResponse("No add-ons installed");
+        return formatSuccessResponse("No add-ons installed", { available: true, addons: [] });
+      }
+      
+      const page = paginate<any>(addons.addons, { listing: "list_addons", cursor, limit, maxTokens: max_tokens });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
       }
       
       const output = [`Found ${addons.addons.length} add-ons:`, ""];
       
-      addons.addons.forEach((addon: any) => {
+      page.data!.items.forEach((addon: any) => {
         const status = addon.installed ? (addon.state === 'started' ? '🟢 Running' : '🟡 Stopped') : '⚪ Not Installed';
         output.push(`${status} ${addon.name}`);
         output.push(`   Slug: ${addon.slug}`);
@@ -273,20 +356,45 @@ export function registerSystemTools(server: McpServer) {
         output.push("");
       });
       
-      return formatSuccessResponse(output.join('\n'));
-    }
+      const pageNote = describePage(page.data!, "add-ons");
+      if (pageNote) {
+        output.push(pageNote);
+      }
+      
+      return formatSuccessResponse(output.join('\n'), { available: true, ...pageInfo(page.data!), addons: page.data!.items });
+    },
+    { outputSchema: { available: z.boolean(), ...pageOutputSchema("addons", addonSchema) } }
   );
 
-  // Get entity registry
-  server.tool(
-    "homeassistant_search_entities",  
-    "Search for entities by name or ID pattern",
+  // Tool to search entities (merged from the Python search_entities_tool)
+  registry.tool(
+    "homeassistant_search_entities",
+    "Search for entities matching a query string in entity IDs, friendly names, states and attributes",
     {
-      search: z.string().describe("Search term to find in entity IDs or friendly names"),
-      domain: z.string().optional().describe("Limit search to specific domain")
+      query: z.string().optional().describe("Search query to match against entity IDs, friendly names, states and attributes"),
+      search: z.string().optional().describe("Alias for query"),
+      domain: z.string().optional().describe("Limit search to specific domain"),
+      ...paginationArguments(20, "results"),
+      match_attributes: z.boolean().optional().default(true).describe("Also match states and attribute values, not just IDs and names")
     },
-    async ({ search, domain }) => {
-      const result = await getAllStates();
+    async ({ query, search, domain, limit = 20, cursor, max_tokens, match_attributes = true }: {
+      query?: string;
+      search?: string;
+      domain?: string;
+      limit?: number;
+      cursor?: string;
+      max_tokens?: number;
+      match_attributes?: boolean;
+    }) => {
+      const searchQuery = (query ?? search ?? "").trim();
+      console.error(`Searching for entities matching: '${searchQuery}' with limit: ${limit}`);
+      
+      // Handle special cases
+      if (searchQuery === "*" || !searchQuery) {
+        return formatErrorResponse("Please provide a specific search query");
+      }
+      
+      const result = await client.getCachedStates();
       
       if (!result.success) {
         return formatErrorResponse(`Failed to search entities: ${result.message}`);
@@ -299,34 +407,333 @@ export function registerSystemTools(server: McpServer) {
         entities = entities.filter((entity: any) => entity.entity_id.startsWith(`${domain}.`));
       }
       
-      // Search in entity ID and friendly name
-      const searchLower = search.toLowerCase();
-      const matchingEntities = entities.filter((entity: any) => {
-        const entityIdMatch = entity.entity_id.toLowerCase().includes(searchLower);
-        const nameMatch = entity.attributes?.friendly_name?.toLowerCase().includes(searchLower);
-        return entityIdMatch || nameMatch;
+      const searchTerm = searchQuery.toLowerCase();
+      const allMatches = entities.filter((entity: any) => {
+        const entityId = entity.entity_id.toLowerCase();
+        const friendlyName = (entity.attributes?.friendly_name || "").toLowerCase();
+        
+        if (entityId.includes(searchTerm) || friendlyName.includes(searchTerm)) {
+          return true;
+        }
+        
+        return match_attributes && (
+          (entity.state || "").toLowerCase().includes(searchTerm) ||
+          JSON.stringify(entity.attributes || {}).toLowerCase().includes(searchTerm)
+        );
+      });
+      
+      // Rank by name, alias and area, and suggest close matches when there are few exact ones
+      const index = await loadEntityIndex(client, entities);
+      const indexed = index.success ? index.data! : [];
+      const scores = new Map(indexed.map(entity => [entity.entity_id, scoreEntity(entity, searchQuery)]));
+      allMatches.sort((a: any, b: any) => (scores.get(b.entity_id) ?? 0) - (scores.get(a.entity_id) ?? 0) || a.entity_id.localeCompare(b.entity_id));
+      
+      const simplifiedMatches: Array<{ entity_id: string; friendly_name: string; state: string; domain: string }> = allMatches.map((entity: any) => ({
+        entity_id: entity.entity_id,
+        friendly_name: entity.attributes?.friendly_name || entity.entity_id,
+        state: entity.state,
+        domain: entity.entity_id.split('.')[0]
+      }));
+      const page = paginate(simplifiedMatches, {
+        listing: "search_entities",
+        query: { query: searchQuery, domain, match_attributes },
+        cursor,
+        limit,
+        maxTokens: max_tokens
       });
+      if (!page.success) {
+        return formatErrorResponse(page.message!);
+      }
+      const simplifiedEntities = page.data!.items;
+      
+      // Close matches fill up the last page
+      const matchedIds = new Set(allMatches.map((entity: any) => entity.entity_id));
+      const closeMatches = !page.data!.next_cursor && (limit === 0 || simplifiedEntities.length < limit)
+        ? rankEntities(indexed.filter(entity => !matchedIds.has(entity.entity_id)), searchQuery, { limit: limit === 0 ? 5 : limit - simplifiedEntities.length })
+        : [];
       
-      if (matchingEntities.length === 0) {
-        return formatSuccessResponse(`No entities found matching "${search}"`);
+      if (allMatches.length === 0 && closeMatches.length === 0) {
+        return formatSuccessResponse(`No entities found matching: '${searchQuery}'`, { query: searchQuery, total: 0, offset: 0, entities: [], close_matches: [] });
       }
       
-      const output = [`Found ${matchingEntities.length} entities matching "${search}":`, ""];
+      // Group by domain
+      const domainsCount: { [key: string]: number } = {};
+      simplifiedEntities.forEach(entity => {
+        domainsCount[entity.domain] = (domainsCount[entity.domain] || 0) + 1;
+      });
+      
+      const output = [
+        `# Entity Search Results for '${searchQuery}'`,
+        "",
+        `Found ${allMatches.length} matching entities:`,
+        ""
+      ];
       
-      matchingEntities.slice(0, 20).forEach((entity: any) => {
-        output.push(`📍 ${entity.entity_id}`);
-        if (entity.attributes?.friendly_name) {
-          output.push(`   Name: ${entity.attributes.friendly_name}`);
+      // Add domain summary
+      if (simplifiedEntities.length > 0) {
+        output.push("## Domains found:");
+        Object.entries(domainsCount).forEach(([entityDomain, count]) => {
+          output.push(`- ${entityDomain}: ${count} entities`);
+        });
+        output.push("");
+      }
+      
+      // Add entities by domain
+      const entitiesByDomain: { [key: string]: any[] } = {};
+      simplifiedEntities.forEach((entity: any) => {
+        if (!entitiesByDomain[entity.domain]) {
+          entitiesByDomain[entity.domain] = [];
         }
-        output.push(`   State: ${entity.state}`);
+        entitiesByDomain[entity.domain].push(entity);
+      });
+      
+      Object.entries(entitiesByDomain).forEach(([entityDomain, domainEntities]) => {
+        output.push(`## ${entityDomain.toUpperCase()} (${domainEntities.length}):`);
+        domainEntities.forEach(entity => {
+          output.push(`- **${entity.entity_id}**: ${entity.state}`);
+          if (entity.friendly_name !== entity.entity_id) {
+            output.push(`  Name: ${entity.friendly_name}`);
+          }
+        });
         output.push("");
       });
       
-      if (matchingEntities.length > 20) {
-        output.push(`... and ${matchingEntities.length - 20} more matches`);
+      const pageNote = describePage(page.data!, "matches");
+      if (pageNote) {
+        output.push(pageNote);
+        output.push("");
       }
       
-      return formatSuccessResponse(output.join('\n'));
+      if (closeMatches.length > 0) {
+        output.push(`## Close matches (${closeMatches.length}):`);
+        closeMatches.forEach(match => {
+          const details = [match.friendly_name, match.area && `area: ${match.area}`].filter(Boolean);
+          output.push(`- **${match.entity_id}**: ${match.state} (${[...details, `match ${Math.round(match.score * 100)}%`].join(', ')})`);
+        });
+      }
+      
+      return formatSuccessResponse(output.join('\n'), {
+        query: searchQuery,
+        ...pageInfo(page.data!),
+        entities: simplifiedEntities,
+        close_matches: closeMatches
+      });
+    },
+    { outputSchema: {
+      query: z.string(),
+      ...pageOutputSchema("entities", z.object({ entity_id: z.string(), friendly_name: z.string(), state: z.string(), domain: z.string() })),
+      close_matches: z.array(entityMatchSchema).describe("Entities that don't contain the query but are close to it")
+    } }
+  );
+
+  // Tool to get domain summary (from Python code)
+  registry.tool(
+    "homeassistant_domain_summary",
+    "Get a summary of entities in a specific domain",
+    {
+      domain: z.string().describe("The domain to summarize (e.g., 'light', 'switch', 'sensor')"),
+      example_limit: z.number().optional().default(3).describe("Maximum number of examples to include for each state")
+    },
+    async ({ domain, example_limit = 3 }: { domain: string; example_limit?: number }) => {
+      console.error(`Getting domain summary for: ${domain}`);
+      
+      const result = await client.getCachedStates();
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to get domain summary: ${result.message}`);
+      }
+      
+      const entities = result.data.filter((entity: any) => 
+        entity.entity_id.startsWith(`${domain}.`)
+      );
+      
+      if (entities.length === 0) {
+        return formatSuccessResponse(`No entities found for domain: ${domain}`, { domain, total: 0, states: {}, examples: {}, attributes: {} });
+      }
+      
+      // Analyze the domain
+      const stateCounts: { [key: string]: number } = {};
+      const stateExamples: { [key: string]: any[] } = {};
+      const attributesSummary: { [key: string]: Set<any> } = {};
+      
+      entities.forEach((entity: any) => {
+        const state = entity.state || "unknown";
+        stateCounts[state] = (stateCounts[state] || 0) + 1;
+        
+        if (!stateExamples[state]) {
+          stateExamples[state] = [];
+        }
+        if (stateExamples[state].length < example_limit) {
+          stateExamples[state].push({
+            entity_id: entity.entity_id,
+            friendly_name: entity.attributes?.friendly_name || entity.entity_id
+          });
+        }
+        
+        // Collect attribute information
+        if (entity.attributes) {
+          Object.entries(entity.attributes).forEach(([key, value]) => {
+            if (!attributesSummary[key]) {
+              attributesSummary[key] = new Set();
+            }
+            if (value !== null && value !== undefined) {
+              attributesSummary[key].add(typeof value === 'object' ? JSON.stringify(value) : value);
+            }
+          });
+        }
+      });
+      
+      const output = [
+        `# Domain Summary: ${domain}`,
+        "",
+        `**Total entities**: ${entities.length}`,
+        ""
+      ];
+      
+      // Add state distribution
+      output.push("## State Distribution:");
+      Object.entries(stateCounts).forEach(([state, count]) => {
+        const percentage = ((count / entities.length) * 100).toFixed(1);
+        output.push(`- **${state}**: ${count} entities (${percentage}%)`);
+        
+        if (stateExamples[state] && stateExamples[state].length > 0) {
+          output.push("  Examples:");
+          stateExamples[state].forEach(example => {
+            output.push(`    - ${example.entity_id} (${example.friendly_name})`);
+          });
+        }
+      });
+      output.push("");
+      
+      // Add common attributes
+      output.push("## Common Attributes:");
+      const sortedAttributes = Object.entries(attributesSummary)
+        .sort(([, a], [, b]) => b.size - a.size)
+        .slice(0, 10);
+        
+      sortedAttributes.forEach(([attr, values]) => {
+        const valueCount = values.size;
+        output.push(`- **${attr}**: ${valueCount} unique values`);
+        
+        if (valueCount <= 5) {
+          const valuesList = Array.from(values).slice(0, 5);
+          output.push(`  Values: ${valuesList.join(', ')}`);
+        }
+      });
+      
+      return formatSuccessResponse(output.join('\n'), {
+        domain,
+        total: entities.length,
+        states: stateCounts,
+        examples: stateExamples,
+        // Number of distinct values of each attribute
+        attributes: Object.fromEntries(Object.entries(attributesSummary).map(([attr, values]) => [attr, values.size]))
+      });
+    }
+  );
+
+  // Tool to get system overview (from Python code)
+  registry.tool(
+    "homeassistant_system_overview",
+    "Get a comprehensive overview of the entire Home Assistant system",
+    {},
+    async () => {
+      console.error("Generating complete system overview");
+      
+      const result = await client.getAllStates();
+      
+      if (!result.success) {
+        return formatErrorResponse(`Failed to get system overview: ${result.message}`);
+      }
+      
+      const allEntities = result.data;
+      
+      // Group entities by domain
+      const domainEntities: { [key: string]: any[] } = {};
+      allEntities.forEach((entity: any) => {
+        const domain = entity.entity_id.split('.')[0];
+        if (!domainEntities[domain]) {
+          domainEntities[domain] = [];
+        }
+        domainEntities[domain].push(entity);
+      });
+      
+      const overview = {
+        total_entities: allEntities.length,
+        domain_count: Object.keys(domainEntities).length,
+        domains: {} as { [key: string]: any },
+        domain_samples: {} as { [key: string]: any[] },
+        most_common_domains: [] as Array<{ domain: string; count: number }>
+      };
+      
+      // Process each domain
+      Object.entries(domainEntities).forEach(([domain, entities]) => {
+        const stateCounts: { [key: string]: number } = {};
+        
+        entities.forEach(entity => {
+          const state = entity.state || "unknown";
+          stateCounts[state] = (stateCounts[state] || 0) + 1;
+        });
+        
+        overview.domains[domain] = {
+          count: entities.length,
+          states: stateCounts
+        };
+        
+        // Add samples (2-3 entities per domain)
+        overview.domain_samples[domain] = entities.slice(0, 3).map(entity => ({
+          entity_id: entity.entity_id,
+          friendly_name: entity.attributes?.friendly_name || entity.entity_id,
+          state: entity.state
+        }));
+      });
+      
+      // Find most common domains
+      overview.most_common_domains = Object.entries(domainEntities)
+        .map(([domain, entities]) => ({ domain, count: entities.length }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5);
+      
+      const output = [
+        "# Home Assistant System Overview",
+        "",
+        `**Total Entities**: ${overview.total_entities}`,
+        `**Total Domains**: ${overview.domain_count}`,
+        ""
+      ];
+      
+      // Add most common domains
+      output.push("## Most Common Domains:");
+      overview.most_common_domains.forEach(({ domain, count }) => {
+        const percentage = ((count / overview.total_entities) * 100).toFixed(1);
+        output.push(`1. **${domain}**: ${count} entities (${percentage}%)`);
+      });
+      output.push("");
+      
+      // Add domain details
+      output.push("## Domain Details:");
+      Object.entries(overview.domains).forEach(([domain, info]) => {
+        output.push(`### ${domain.toUpperCase()} (${info.count} entities)`);
+        
+        // State distribution
+        if (Object.keys(info.states).length > 1) {
+          output.push("States:");
+          Object.entries(info.states).forEach(([state, count]) => {
+            output.push(`  - ${state}: ${count}`);
+          });
+        }
+        
+        // Sample entities
+        if (overview.domain_samples[domain]) {
+          output.push("Sample entities:");
+          overview.domain_samples[domain].forEach((sample: any) => {
+            output.push(`  - ${sample.entity_id}: ${sample.state}`);
+          });
+        }
+        output.push("");
+      });
+      
+      return formatSuccessResponse(output.join('\n'), overview);
     }
   );
 }
\ No newline at end of file
@@ -0,0 +1,213 @@
+import { z } from "zod";
+import { ToolRegistry } from "../registry.js";
+import { formatErrorResponse, formatSuccessResponse } from "../../utils/api.js";
+import { HomeAssistantClient } from "../../utils/client.js";
+import { EntitySnapshot, UndoHistory } from "../../utils/undo.js";
+
+interface ServiceCall {
+  domain: string;
+  service: string;
+  data: Record<string, any>;
+}
+
+const call = (domain: string, service: string, data: Record<string, any>): ServiceCall => ({ domain, service, data });
+
+const isSet = (value: any) => value !== undefined && value !== null;
+
+/**
+ * Service calls that bring an entity back to a captured state, or an empty
+ * list if the state can't be restored (e.g. unavailable)
+ */
+export function restoreCalls(snapshot: EntitySnapshot): ServiceCall[] {
+  const { entity_id, state, attributes } = snapshot;
+  const domain = entity_id.split('.')[0];
+
+  switch (domain) {
+    case 'light': {
+      if (state === 'off') {
+        return [call('light', 'turn_off', { entity_id })];
+      }
+      if (state !== 'on') {
+        return [];
+      }
+
+      const data: Record<string, any> = { entity_id };
+      if (isSet(attributes.brightness)) data.brightness = attributes.brightness;
+
+      // Only the attributes of the active color mode describe the actual color
+      const colorMode = attributes.color_mode;
+      if (colorMode === 'color_temp') {
+        if (isSet(attributes.color_temp_kelvin)) data.color_temp_kelvin = attributes.color_temp_kelvin;
+        else if (isSet(attributes.color_temp)) data.color_temp = attributes.color_temp;
+      } else if (['hs', 'rgb', 'rgbw', 'rgbww', 'xy'].includes(colorMode) && isSet(attributes[`${colorMode}_color`])) {
+        data[`${colorMode}_color`] = attributes[`${colorMode}_color`];
+      }
+      if (isSet(attributes.effect) && attributes.effect_list?.includes(attributes.effect)) data.effect = attributes.effect;
+
+      return [call('light', 'turn_on', data)];
+    }
+
+    case 'climate': {
+      if (!attributes.hvac_modes?.includes(state) && state !== 'off') {
+        return [];
+      }
+
+      const calls = [call('climate', 'set_hvac_mode', { entity_id, hvac_mode: state })];
+      if (state === 'off') {
+        return calls;
+      }
+
+      if (isSet(attributes.temperature)) {
+        calls.push(call('climate', 'set_temperature', { entity_id, temperature: attributes.temperature }));
+      } else if (isSet(attributes.target_temp_low) && isSet(attributes.target_temp_high)) {
+        calls.push(call('climate', 'set_temperature', {
+          entity_id,
+          target_temp_low: attributes.target_temp_low,
+          target_temp_high: attributes.target_temp_high
+        }));
+      }
+      if (isSet(attributes.fan_mode)) calls.push(call('climate', 'set_fan_mode', { entity_id, fan_mode: attributes.fan_mode }));
+      if (isSet(attributes.preset_mode)) calls.push(call('climate', 'set_preset_mode', { entity_id, preset_mode: attributes.preset_mode }));
+      return calls;
+    }
+
+    case 'cover': {
+      const calls: ServiceCall[] = [];
+      if (isSet(attributes.current_position)) {
+        calls.push(call('cover', 'set_cover_position', { entity_id, position: attributes.current_position }));
+      } else if (state === 'open' || state === 'closed') {
+        calls.push(call('cover', state === 'open' ? 'open_cover' : 'close_cover', { entity_id }));
+      }
+      if (isSet(attributes.current_tilt_position)) {
+        calls.push(call('cover', 'set_cover_tilt_position', { entity_id, tilt_position: attributes.current_tilt_position }));
+      }
+      return calls;
+    }
+
+    case 'media_player': {
+      if (state === 'off') {
+        return [call('media_player', 'turn_off', { entity_id })];
+      }
+      if (!['on', 'idle', 'playing', 'paused'].includes(state)) {
+        return [];
+      }
+
+      const calls = [call('media_player', 'turn_on', { entity_id })];
+      if (isSet(attributes.source)) calls.push(call('media_player', 'select_source', { entity_id, source: attributes.source }));
+      if (isSet(attributes.volume_level)) calls.push(call('media_player', 'volume_set', { entity_id, volume_level: attributes.volume_level }));
+      if (isSet(attributes.is_volume_muted)) calls.push(call('media_player', 'volume_mute', { entity_id, is_volume_muted: attributes.is_volume_muted }));
+      if (state === 'playing') calls.push(call('media_player', 'media_play', { entity_id }));
+      if (state === 'paused') calls.push(call('media_player', 'media_pause', { entity_id }));
+      return calls;
+    }
+
+    case 'fan': {
+      if (state === 'off') {
+        return [call('fan', 'turn_off', { entity_id })];
+      }
+      if (state !== 'on') {
+        return [];
+      }
+
+      const calls = [call('fan', 'turn_on', { entity_id })];
+      if (isSet(attributes.percentage)) calls.push(call('fan', 'set_percentage', { entity_id, percentage: attributes.percentage }));
+      if (isSet(attributes.preset_mode)) calls.push(call('fan', 'set_preset_mode', { entity_id, preset_mode: attributes.preset_mode }));
+      if (isSet(attributes.oscillating)) calls.push(call('fan', 'oscillate', { entity_id, oscillating: attributes.oscillating }));
+      if (isSet(attributes.direction)) calls.push(call('fan', 'set_direction', { entity_id, direction: attributes.direction }));
+      return calls;
+    }
+
+    case 'lock':
+      return state === 'locked' || state === 'unlocked'
+        ? [call('lock', state === 'locked' ? 'lock' : 'unlock', { entity_id })]
+        : [];
+
+    default:
+      // Switches, input booleans and other on/off entities
+      return state === 'on' || state === 'off'
+        ? [call('homeassistant', state === 'on' ? 'turn_on' : 'turn_off', { entity_id })]
+        : [];
+  }
+}
+
+/**
+ * Register the tool that undoes changes recorded by undoable actions
+ */
+export function registerUndoTools(registry: ToolRegistry, client: HomeAssistantClient, history: UndoHistory) {
+  // Tool to restore the states captured before the last changes
+  registry.action(
+    "homeassistant_undo",
+    "Undo the last changes made by entity_action, bulk_operations or the device control tools by restoring each target's prior state (on/off, brightness, color, climate setpoints, cover positions, volume)",
+    {
+      count: z.number().int().min(1).optional().default(1).describe("Number of changes (tool calls) to undo, newest first (default: 1)")
+    },
+    async ({ count = 1 }) => {
+      const entries = history.peek(count);
+      if (entries.length === 0) {
+        return formatErrorResponse("Nothing to undo in this session");
+      }
+
+      const output = [`# Undo (${entries.length} ${entries.length === 1 ? 'change' : 'changes'})`, ""];
+      const undone: number[] = [];
+      const restored: Array<{ tool: string; timestamp: string; entity_id: string; state: string; status: "restored" | "skipped" | "failed"; errors?: string[] }> = [];
+
+      // Newest first, so an entity changed several times ends up in its oldest captured state
+      for (const entry of entries) {
+        output.push(`## ${entry.tool} at ${entry.timestamp}`);
+        let failed = false;
+
+        for (const snapshot of entry.snapshots) {
+          const calls = restoreCalls(snapshot);
+          if (calls.length === 0) {
+            output.push(`- ⚠️ ${snapshot.entity_id}: can't restore state "${snapshot.state}"`);
+            restored.push({ tool: entry.tool, timestamp: entry.timestamp, entity_id: snapshot.entity_id, state: snapshot.state, status: "skipped" });
+            continue;
+          }
+
+          const errors: string[] = [];
+          await client.withInstance(snapshot.instance, async () => {
+            for (const { domain, service, data } of calls) {
+              const result = await client.callHomeAssistantService(domain, service, data);
+              if (!result.success) {
+                errors.push(`${domain}.${service}: ${result.message}`);
+              }
+            }
+          });
+
+          if (errors.length > 0) {
+            failed = true;
+            output.push(`- ❌ ${snapshot.entity_id}: ${errors.join('; ')}`);
+          } else {
+            output.push(`- ✅ ${snapshot.entity_id} → ${snapshot.state}`);
+          }
+          restored.push({
+            tool: entry.tool,
+            timestamp: entry.timestamp,
+            entity_id: snapshot.entity_id,
+            state: snapshot.state,
+            status: errors.length > 0 ? "failed" : "restored",
+            ...(errors.length > 0 && { errors })
+          });
+        }
+
+        // Entries that failed stay in the history so they can be retried
+        if (!failed) {
+          undone.push(entry.id);
+        }
+        output.push("");
+      }
+
+      if (!client.isPlanning) {
+        history.remove(undone);
+      }
+      output.push(`${history.size} ${history.size === 1 ? 'change' : 'changes'} left to undo.`);
+
+      const attempted = restored.filter(entity => entity.status !== "skipped");
+      if (attempted.length > 0 && attempted.every(entity => entity.status === "failed")) {
+        return formatErrorResponse(output.join('\n'));
+      }
+
+      return formatSuccessResponse(output.join('\n'), { entities: restored, remaining: history.size });
+    }
+  );
+}
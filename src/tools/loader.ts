@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { ToolRegistry } from "./registry.js";
+import { registerBasicTools } from "./homeassistant/basic.js";
+import { registerAutomationTools } from "./homeassistant/automation.js";
+import { registerHistoryTools } from "./homeassistant/history.js";
+import { registerDeviceTools } from "./homeassistant/devices.js";
+import { registerSystemTools } from "./homeassistant/system.js";
+import { registerResourceTools } from "./homeassistant/resources.js";
+import { formatErrorResponse, formatSuccessResponse } from "../utils/api.js";
+import { HomeAssistantClient } from "../utils/client.js";
+import { FavoritesStore } from "../utils/favorites.js";
+
+export const TOOL_GROUP_NAMES = ["basic", "automation", "history", "devices", "system", "resources"] as const;
+
+export type ToolGroupName = typeof TOOL_GROUP_NAMES[number];
+
+/**
+ * Persistent stores shared by the tool groups of a session
+ */
+export interface SessionStores {
+  favorites: FavoritesStore;
+}
+
+interface ToolGroupDefinition {
+  description: string;
+  register: (registry: ToolRegistry, client: HomeAssistantClient, stores: SessionStores) => void;
+}
+
+export const TOOL_GROUPS: Record<ToolGroupName, ToolGroupDefinition> = {
+  basic: { description: "API status, entity states, service calls", register: registerBasicTools },
+  automation: { description: "Automations, scenes, scripts, input booleans, traces", register: registerAutomationTools },
+  history: { description: "Entity history, logbook, events, statistics, energy report, error logs", register: registerHistoryTools },
+  devices: { description: "Lights, climate, media players, covers, notifications", register: registerDeviceTools },
+  system: { description: "System info, templates, areas, devices, integrations, search", register: registerSystemTools },
+  resources: { description: "URI-based resource access", register: registerResourceTools }
+};
+
+/**
+ * Loads and unloads tool groups on a live server. Tools registered or removed
+ * after the transport connects make the SDK send tools/list_changed, so
+ * clients pick up the new tool list without reconnecting.
+ */
+export class ToolSetLoader {
+  private loaded = new Set<ToolGroupName>();
+
+  constructor(private registry: ToolRegistry, private client: HomeAssistantClient, private stores: SessionStores) {}
+
+  isLoaded(group: ToolGroupName): boolean {
+    return this.loaded.has(group);
+  }
+
+  /**
+   * Register a group's tools. Returns the names of the tools that were added.
+   */
+  load(group: ToolGroupName): string[] {
+    if (this.loaded.has(group)) {
+      return [];
+    }
+
+    try {
+      this.registry.registerGroup(group, (registry) => TOOL_GROUPS[group].register(registry, this.client, this.stores));
+    } catch (error) {
+      // Don't leave a half-registered group behind
+      this.registry.removeGroup(group);
+      throw error;
+    }
+
+    this.loaded.add(group);
+    return this.registry.listByGroup()[group] || [];
+  }
+
+  /**
+   * Remove a group's tools. Returns the names of the tools that were removed.
+   */
+  unload(group: ToolGroupName): string[] {
+    if (!this.loaded.delete(group)) {
+      return [];
+    }
+
+    return this.registry.removeGroup(group);
+  }
+}
+
+/**
+ * Register the tool that lets clients list, load and unload tool groups
+ */
+export function registerLoaderTools(registry: ToolRegistry, loader: ToolSetLoader) {
+  registry.tool(
+    "homeassistant_tool_groups",
+    "List the available tool groups, or load/unload groups to change which Home Assistant tools are exposed",
+    {
+      action: z.enum(["list", "load", "unload"]).optional().default("list").describe("List groups, or load/unload the given groups"),
+      groups: z.array(z.enum(TOOL_GROUP_NAMES)).optional().describe("Tool groups to load or unload")
+    },
+    async ({ action = "list", groups = [] }) => {
+      if (action !== "list" && groups.length === 0) {
+        return formatErrorResponse(`Specify the groups to ${action}. Available groups: ${TOOL_GROUP_NAMES.join(', ')}`);
+      }
+
+      const output: string[] = [];
+
+      try {
+        for (const group of groups) {
+          if (action === "load") {
+            const added = loader.load(group);
+            output.push(added.length > 0 ? `✅ Loaded ${group} (${added.length} tools)` : `ℹ️ ${group} is already loaded`);
+          } else if (action === "unload") {
+            const removed = loader.unload(group);
+            output.push(removed.length > 0 ? `✅ Unloaded ${group} (${removed.length} tools)` : `ℹ️ ${group} is not loaded`);
+          }
+        }
+      } catch (error: any) {
+        return formatErrorResponse(`Failed to ${action} tool groups: ${error.message}`);
+      }
+
+      if (output.length > 0) {
+        output.push("");
+      }
+
+      output.push("# Tool Groups", "");
+      TOOL_GROUP_NAMES.forEach(group => {
+        const status = loader.isLoaded(group) ? "✅ loaded" : "⬜ not loaded";
+        output.push(`- **${group}** (${status}): ${TOOL_GROUPS[group].description}`);
+      });
+
+      return formatSuccessResponse(output.join('\n'), {
+        groups: TOOL_GROUP_NAMES.map(group => ({
+          name: group,
+          loaded: loader.isLoaded(group),
+          description: TOOL_GROUPS[group].description
+        }))
+      });
+    }
+  );
+}
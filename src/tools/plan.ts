@@ -0,0 +1,227 @@
+import { HomeAssistantClient, PlannedRequest } from "../utils/client.js";
+import { ConfigItemDomain } from "../utils/api.js";
+import { ConfigPolicyDecision, PolicyDecision } from "../utils/policy.js";
+import { TARGET_KEYS, getTargetEntityIds } from "../utils/targets.js";
+
+// Attributes worth showing next to a target's current state
+const KEY_ATTRIBUTES = [
+  "brightness", "color_temp", "color_temp_kelvin", "rgb_color", "hs_color", "effect",
+  "temperature", "target_temp_low", "target_temp_high", "hvac_mode", "preset_mode", "fan_mode",
+  "current_position", "current_tilt_position",
+  "volume_level", "is_volume_muted", "source", "media_title",
+  "percentage", "oscillating", "direction"
+];
+
+/**
+ * Current state of a planned call's target, as shown in the dry run
+ */
+export interface TargetState {
+  entity_id: string;
+  state?: string;
+  // The key attributes that are set
+  attributes?: Record<string, any>;
+  // Why the state couldn't be read, e.g. "entity not found"
+  error?: string;
+}
+
+/**
+ * A planned request with what the dry run found out about it
+ */
+export interface PlannedCall extends PlannedRequest {
+  // "domain.service" of a service call
+  service?: string;
+  // Undefined when the service list couldn't be loaded
+  service_exists?: boolean;
+  unknown_fields?: string[];
+  // Set when the policy would deny the call or require confirmation
+  policy?: { effect: PolicyDecision["effect"]; reason?: string; entity_id?: string; call?: string };
+  target_states?: TargetState[];
+}
+
+export interface Plan {
+  text: string;
+  requests: PlannedCall[];
+}
+
+/**
+ * Service domain and name of a request to /api/services/{domain}/{service}
+ */
+export function parseServiceEndpoint(endpoint: string): { domain: string; service: string } | undefined {
+  const match = endpoint.match(/^\/api\/services\/([^/]+)\/([^/?]+)/);
+  return match ? { domain: match[1], service: match[2] } : undefined;
+}
+
+/**
+ * Domain and id of a request to /api/config/{domain}/config/{id}
+ */
+export function parseConfigEndpoint(endpoint: string): { domain: ConfigItemDomain; id: string } | undefined {
+  const match = endpoint.match(/^\/api\/config\/(automation|script|scene)\/config\/([^/?]+)/);
+  return match ? { domain: match[1] as ConfigItemDomain, id: decodeURIComponent(match[2]) } : undefined;
+}
+
+/**
+ * Policy line of a planned call, or undefined when the policy allows it
+ */
+function describeDecision(decision: PolicyDecision | undefined, subject = ''): string | undefined {
+  const reason = decision?.reason ? ` (${decision.reason})` : '';
+  if (decision?.effect === "deny") {
+    return `   - Policy: 🚫 denied${subject}${reason}`;
+  }
+  if (decision?.effect === "confirm") {
+    return `   - Policy: ⚠️ requires confirmation${subject}${reason}; call again with \`confirm: true\``;
+  }
+  return undefined;
+}
+
+function policyInfo(decision: ConfigPolicyDecision | undefined): PlannedCall["policy"] {
+  if (!decision || decision.effect === "allow") {
+    return undefined;
+  }
+  return { effect: decision.effect, reason: decision.reason, entity_id: decision.entityId, call: decision.call };
+}
+
+/**
+ * Describe what a dry-run tool call would have done: every planned request,
+ * whether each service exists, and the current state of each target. The
+ * requests come back with the same details for structured content.
+ */
+export async function describePlan(
+  client: HomeAssistantClient,
+  toolName: string,
+  requests: PlannedRequest[],
+  error?: Error
+): Promise<Plan> {
+  const output = [
+    `# Dry Run: ${toolName}`,
+    "",
+    "No changes were made to Home Assistant.",
+    ""
+  ];
+
+  if (error) {
+    output.push(`⚠️ The tool stopped while planning: ${error.message}`);
+    output.push("");
+  }
+
+  if (requests.length === 0) {
+    output.push("This call would not send any state-changing requests.");
+    return { text: output.join('\n'), requests: [] };
+  }
+
+  output.push(`## Planned Calls (${requests.length})`);
+  output.push("");
+
+  // Services per instance, fetched once
+  const services = new Map<string, Promise<any[] | undefined>>();
+  const getServices = (instance: string) => {
+    if (!services.has(instance)) {
+      services.set(instance, client.withInstance(instance, async () => {
+        const result = await client.getServices();
+        return result.success ? result.data : undefined;
+      }));
+    }
+    return services.get(instance)!;
+  };
+
+  const calls: PlannedCall[] = [];
+  for (const [index, request] of requests.entries()) {
+    const call: PlannedCall = { ...request };
+    calls.push(call);
+    const service = parseServiceEndpoint(request.endpoint);
+    const instanceLabel = client.instanceNames.length > 1 ? ` (instance: ${request.instance})` : '';
+
+    if (!service) {
+      output.push(`${index + 1}. **${request.method} ${request.endpoint}**${instanceLabel}`);
+      const config = parseConfigEndpoint(request.endpoint);
+      if (config && request.method === "POST") {
+        const decision = client.withInstance(request.instance, () => client.checkConfigPolicy(config.domain, request.data));
+        call.policy = policyInfo(decision);
+        const line = describeDecision(decision, decision?.call
+          ? ` (calls ${decision.call}${decision.entityId ? ` on ${decision.entityId}` : ''})`
+          : '');
+        if (line) {
+          output.push(line);
+        }
+      }
+      if (request.data !== undefined && Object.keys(request.data).length > 0) {
+        output.push("   ```json");
+        output.push(...JSON.stringify(request.data, null, 2).split('\n').map(line => `   ${line}`));
+        output.push("   ```");
+      }
+      output.push("");
+      continue;
+    }
+
+    output.push(`${index + 1}. **${service.domain}.${service.service}**${instanceLabel}`);
+    call.service = `${service.domain}.${service.service}`;
+
+    const available = await getServices(request.instance);
+    const domainServices = available?.find((entry: any) => entry.domain === service.domain)?.services;
+    const definition = domainServices?.[service.service];
+
+    if (!available) {
+      output.push("   - Service: ⚠️ could not load the service list to validate it");
+    } else if (!definition) {
+      output.push(`   - Service: ❌ ${service.domain}.${service.service} does not exist`);
+      call.service_exists = false;
+    } else {
+      output.push("   - Service: ✅ exists");
+      call.service_exists = true;
+
+      const fields = Object.keys(definition.fields || {});
+      const unknownFields = Object.keys(request.data || {})
+        .filter(key => !TARGET_KEYS.includes(key) && key !== 'target' && !fields.includes(key));
+      if (fields.length > 0 && unknownFields.length > 0) {
+        output.push(`   - ⚠️ Unknown fields: ${unknownFields.join(', ')}`);
+        call.unknown_fields = unknownFields;
+      }
+    }
+
+    const decision = client.withInstance(request.instance, () =>
+      client.checkPolicy(service.domain, service.service, request.data));
+    call.policy = policyInfo(decision);
+    const policyLine = describeDecision(decision);
+    if (policyLine) {
+      output.push(policyLine);
+    }
+
+    const serviceData = { ...request.data };
+    TARGET_KEYS.forEach(key => delete serviceData[key]);
+    if (Object.keys(serviceData).length > 0) {
+      output.push(`   - Data: \`${JSON.stringify(serviceData)}\``);
+    }
+
+    const otherTargets = TARGET_KEYS
+      .filter(key => key !== 'entity_id' && request.data?.[key] !== undefined)
+      .map(key => `${key}: ${JSON.stringify(request.data[key])}`);
+    if (otherTargets.length > 0) {
+      output.push(`   - Targets: ${otherTargets.join(', ')}`);
+    }
+
+    const entityIds = getTargetEntityIds(request.data);
+    if (entityIds.length > 0) {
+      output.push("   - Current state of targets:");
+      call.target_states = [];
+      for (const entityId of entityIds) {
+        const state = await client.withInstance(request.instance, () => client.getHomeAssistantState(entityId));
+        if (!state.success) {
+          const reason = state.statusCode === 404 ? 'entity not found' : state.message;
+          output.push(`     - ${entityId}: ❌ ${reason}`);
+          call.target_states.push({ entity_id: entityId, error: reason });
+          continue;
+        }
+
+        const attributes = Object.fromEntries(KEY_ATTRIBUTES
+          .filter(key => state.data.attributes?.[key] !== undefined && state.data.attributes[key] !== null)
+          .map(key => [key, state.data.attributes[key]]));
+        const shown = Object.entries(attributes).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+        output.push(`     - ${entityId}: **${state.data.state}**${shown.length > 0 ? ` (${shown.join(', ')})` : ''}`);
+        call.target_states.push({ entity_id: entityId, state: state.data.state, attributes });
+      }
+    }
+
+    output.push("");
+  }
+
+  return { text: output.join('\n'), requests: calls };
+}
@@ -0,0 +1,281 @@
+import { z, ZodRawShape } from "zod";
+import { McpServer, RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { formatErrorResponse, formatSuccessResponse } from "../utils/api.js";
+import { HomeAssistantClient, UnknownInstanceError } from "../utils/client.js";
+import { EntitySnapshot, UndoHistory } from "../utils/undo.js";
+import { describePlan } from "./plan.js";
+
+/**
+ * Thrown when two tool groups register a tool with the same name
+ */
+export class DuplicateToolError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly existingGroup: string,
+    public readonly group: string
+  ) {
+    super(
+      existingGroup === group
+        ? `Tool "${toolName}" is registered twice by the ${group} tool group`
+        : `Tool "${toolName}" is registered by both the ${existingGroup} and ${group} tool groups`
+    );
+    this.name = "DuplicateToolError";
+  }
+}
+
+interface ToolEntry {
+  group: string;
+  tool: RegisteredTool;
+}
+
+export interface ToolGroupOptions {
+  // Add the optional `instance` argument and route the call to that instance (default: true)
+  perInstance?: boolean;
+}
+
+export interface ToolRegistryOptions {
+  // Run every state-changing tool as a dry run unless a call passes dry_run: false
+  dryRun?: boolean;
+  // Where undoable actions record the prior state of the entities they change
+  undo?: UndoHistory;
+}
+
+export interface ToolOptions {
+  // Fields of the tool's structured content, declared to clients as its output schema
+  outputSchema?: ZodRawShape;
+}
+
+export interface ActionOptions {
+  // Capture the state of every target before it changes so homeassistant_undo can restore it
+  undoable?: boolean;
+}
+
+const instanceArgument = z.string().optional().describe("Name of the Home Assistant instance to use (default: the primary instance)");
+const dryRunArgument = z.boolean().optional().describe("Only plan the call: return the service calls that would run and the current state of each target, without changing anything");
+const confirmArgument = z.boolean().optional().describe("Confirm service calls that the action policy requires confirmation for");
+const outputFormatArgument = z.enum(["text", "json"]).optional().describe("text (default): human-readable text; json: the structured data as JSON text. Structured content is returned either way.");
+
+function resultText(result: CallToolResult): string {
+  return result.content
+    .map(item => item.type === "text" ? item.text : "")
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Replace a result's text with its structured content as JSON. Tools
+ * without structured data return their text (or error) wrapped in an object.
+ */
+function toJsonResult(result: CallToolResult): CallToolResult {
+  const text = resultText(result);
+  const data = result.structuredContent ?? (result.isError ? { error: text } : { text });
+
+  return {
+    ...result,
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+    structuredContent: data
+  };
+}
+
+/**
+ * The output schema clients see. Errors only carry { error } as structured
+ * content, so every declared field is optional.
+ */
+function declaredOutputSchema(outputSchema: ZodRawShape): ZodRawShape {
+  const declared: ZodRawShape = {};
+  Object.entries(outputSchema).forEach(([key, schema]) => {
+    declared[key] = schema.optional();
+  });
+  declared.error = z.string().optional().describe("Why the call failed, set only on errors");
+  return declared;
+}
+
+/**
+ * Tracks which group registered each tool, so name collisions are caught at
+ * startup with a clear error instead of throwing deep inside the MCP SDK.
+ * Every tool call also passes through here, which is where the `instance`,
+ * `dry_run`, `confirm` and `output_format` arguments are applied.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolEntry>();
+  private currentGroup = "default";
+  private currentOptions: ToolGroupOptions = {};
+
+  constructor(readonly server: McpServer, private client: HomeAssistantClient, private options: ToolRegistryOptions = {}) {}
+
+  /**
+   * Run a register function with every tool it defines attributed to a group
+   */
+  registerGroup(group: string, register: (registry: ToolRegistry) => void, options: ToolGroupOptions = {}) {
+    const previousGroup = this.currentGroup;
+    const previousOptions = this.currentOptions;
+    this.currentGroup = group;
+    this.currentOptions = options;
+
+    try {
+      register(this);
+    } finally {
+      this.currentGroup = previousGroup;
+      this.currentOptions = previousOptions;
+    }
+  }
+
+  /**
+   * Register a tool, failing if another tool already uses the name
+   */
+  tool<Args extends ZodRawShape>(name: string, description: string, paramsSchema: Args, cb: ToolCallback<Args>, options: ToolOptions = {}): RegisteredTool {
+    return this.register(name, description, paramsSchema, cb, false, false, options.outputSchema);
+  }
+
+  /**
+   * Register a tool that changes Home Assistant state. Actions also take a
+   * `dry_run` argument, and a `confirm` argument when the action policy has
+   * rules that require confirmation.
+   */
+  action<Args extends ZodRawShape>(name: string, description: string, paramsSchema: Args, cb: ToolCallback<Args>, options: ActionOptions = {}): RegisteredTool {
+    return this.register(name, description, paramsSchema, cb, true, options.undoable === true);
+  }
+
+  private register<Args extends ZodRawShape>(name: string, description: string, paramsSchema: Args, cb: ToolCallback<Args>, isAction: boolean, undoable: boolean = false, outputSchema?: ZodRawShape): RegisteredTool {
+    const existing = this.tools.get(name);
+    if (existing) {
+      throw new DuplicateToolError(name, existing.group, this.currentGroup);
+    }
+
+    const perInstance = this.currentOptions.perInstance !== false;
+    const shape: ZodRawShape = { ...paramsSchema, output_format: outputFormatArgument };
+    if (perInstance) {
+      shape.instance = instanceArgument;
+    }
+    if (isAction) {
+      shape.dry_run = dryRunArgument;
+    }
+    // Tools with their own `confirm` argument (e.g. restarts) reuse it for the policy
+    const addsConfirm = isAction && !("confirm" in paramsSchema) && this.client.policy?.usesConfirmation === true;
+    if (addsConfirm) {
+      shape.confirm = confirmArgument;
+    }
+
+    const callback = this.wrapCallback(name, cb, perInstance, isAction, addsConfirm, undoable, outputSchema !== undefined);
+    const tool = outputSchema
+      ? this.server.registerTool(name, { description, inputSchema: shape, outputSchema: declaredOutputSchema(outputSchema) }, callback)
+      : this.server.tool(name, description, shape, callback);
+    this.tools.set(name, { group: this.currentGroup, tool });
+    return tool;
+  }
+
+  /**
+   * Remove every tool a group registered. Returns the removed tool names.
+   */
+  removeGroup(group: string): string[] {
+    const removed: string[] = [];
+    this.tools.forEach((entry, name) => {
+      if (entry.group === group) {
+        entry.tool.remove();
+        removed.push(name);
+      }
+    });
+    removed.forEach(name => this.tools.delete(name));
+    return removed;
+  }
+
+  /**
+   * Wrap a tool callback so the Home Assistant requests it makes go to the
+   * instance named by its `instance` argument, so actions called with
+   * `dry_run` only report what they would do, and so the service calls it
+   * makes are attributed to the tool and `confirm` reaches the policy check.
+   * Undoable actions record the prior state of what they changed. With
+   * `output_format: "json"` the result's structured data replaces its text.
+   * Errors of tools with an output schema get their message as structured
+   * content, which the SDK requires of them.
+   */
+  private wrapCallback<Args extends ZodRawShape>(name: string, cb: ToolCallback<Args>, perInstance: boolean, isAction: boolean, addsConfirm: boolean, undoable: boolean, structured: boolean): ToolCallback<ZodRawShape> {
+    const callback = cb as (args: any, extra: any) => any;
+
+    return (async ({ instance, dry_run, output_format, ...args }: { instance?: string; dry_run?: boolean; output_format?: "text" | "json"; [key: string]: any }, extra: any) => {
+      const confirmed = isAction && args.confirm === true;
+      if (addsConfirm) {
+        delete args.confirm;
+      }
+
+      const execute = async () => {
+        const undo = this.options.undo;
+        if (!isAction || !(dry_run ?? this.options.dryRun)) {
+          if (!undoable || !undo) {
+            return callback(args, extra);
+          }
+
+          // Only changes that were made can be undone
+          const snapshots: EntitySnapshot[] = [];
+          const result = await this.client.captureStates(snapshots, async () => callback(args, extra));
+          if (!result.isError && snapshots.length > 0) {
+            undo.record(name, snapshots);
+          }
+          return result;
+        }
+
+        const plan = await this.client.planRequests(async () => callback(args, extra));
+        if (plan.result?.isError && plan.requests.length === 0) {
+          return plan.result;
+        }
+        const description = await describePlan(this.client, name, plan.requests, plan.error);
+        return formatSuccessResponse(description.text, {
+          dry_run: true,
+          tool: name,
+          requests: description.requests,
+          error: plan.error?.message
+        });
+      };
+      const run = () => this.client.withToolCall({ tool: name, confirmed }, execute);
+
+      const call = async (): Promise<CallToolResult> => {
+        if (!perInstance) {
+          return run();
+        }
+
+        try {
+          return await this.client.withInstance(instance, run);
+        } catch (error) {
+          if (error instanceof UnknownInstanceError) {
+            return formatErrorResponse(error.message);
+          }
+          throw error;
+        }
+      };
+
+      let result: CallToolResult;
+      try {
+        result = await call();
+      } catch (error) {
+        if (!structured) {
+          throw error;
+        }
+        result = formatErrorResponse(error instanceof Error ? error.message : String(error));
+      }
+      if (structured && result.isError && !result.structuredContent) {
+        result = { ...result, structuredContent: { error: resultText(result) } };
+      }
+      return output_format === "json" ? toJsonResult(result) : result;
+    }) as ToolCallback<ZodRawShape>;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  hasGroup(group: string): boolean {
+    return Array.from(this.tools.values()).some(entry => entry.group === group);
+  }
+
+  /**
+   * Names of all registered tools, grouped by the group that registered them
+   */
+  listByGroup(): { [group: string]: string[] } {
+    const groups: { [group: string]: string[] } = {};
+    this.tools.forEach((entry, name) => {
+      (groups[entry.group] ||= []).push(name);
+    });
+    return groups;
+  }
+}
@@ -0,0 +1,110 @@
+import { createReadStream, promises as fs } from "fs";
+import { dirname } from "path";
+import { createInterface } from "readline";
+
+export interface AuditEntry {
+  timestamp: string;
+  session_id: string;
+  instance: string;
+  // Tool that made the call, undefined for calls made outside a tool (e.g. prompts)
+  tool?: string;
+  domain: string;
+  service: string;
+  entity_ids: string[];
+  service_data: any;
+  result: {
+    success: boolean;
+    status_code?: number;
+    message?: string;
+  };
+}
+
+export interface AuditQuery {
+  // ISO timestamps, inclusive
+  since?: string;
+  until?: string;
+  entityId?: string;
+  sessionId?: string;
+  tool?: string;
+  instance?: string;
+  limit?: number;
+}
+
+// Serializes appends per file across every log (and session) in this process
+const fileLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Append-only JSONL log of service calls, shared by every session writing to
+ * the same file. Entries are never rewritten; queries stream the file.
+ */
+export class AuditLog {
+  constructor(readonly filePath: string) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    const previous = fileLocks.get(this.filePath) || Promise.resolve();
+
+    const next = previous.catch(() => undefined).then(async () => {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+    });
+
+    fileLocks.set(this.filePath, next);
+    return next;
+  }
+
+  /**
+   * Entries matching every given filter, newest first
+   */
+  async query(query: AuditQuery = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+    const matches: AuditEntry[] = [];
+
+    await fileLocks.get(this.filePath)?.catch(() => undefined);
+
+    try {
+      await fs.access(this.filePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { entries: [], total: 0 };
+      }
+      throw new Error(`Failed to read audit log ${this.filePath}: ${error.message}`);
+    }
+
+    const lines = createInterface({ input: createReadStream(this.filePath, 'utf8'), crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (line.trim().length === 0) {
+          continue;
+        }
+
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // A partially written line (e.g. after a crash) shouldn't hide the rest of the log
+          continue;
+        }
+
+        const time = Date.parse(entry.timestamp);
+        if ((since !== undefined && time < since) ||
+            (until !== undefined && time > until) ||
+            (query.entityId && !entry.entity_ids.includes(query.entityId)) ||
+            (query.sessionId && entry.session_id !== query.sessionId) ||
+            (query.tool && entry.tool !== query.tool) ||
+            (query.instance && entry.instance !== query.instance)) {
+          continue;
+        }
+        matches.push(entry);
+      }
+    } catch (error: any) {
+      throw new Error(`Failed to read audit log ${this.filePath}: ${error.message}`);
+    }
+
+    matches.reverse();
+    return {
+      entries: query.limit !== undefined ? matches.slice(0, query.limit) : matches,
+      total: matches.length
+    };
+  }
+}
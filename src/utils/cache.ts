@@ -0,0 +1,263 @@
+import { ApiResponse } from "./api.js";
+import { HomeAssistantWebSocket } from "./websocket.js";
+
+export interface StateCacheOptions {
+  // Maximum age of cached states when state_changed events aren't available (0 disables the cache)
+  ttl: number;
+  fetchStates: () => Promise<ApiResponse>;
+  fetchState: (entityId: string) => Promise<ApiResponse>;
+  getWebSocket: () => HomeAssistantWebSocket;
+}
+
+export interface StateCacheMetrics {
+  // live: kept current by state_changed events; ttl: refetched when older than the TTL
+  mode: "live" | "ttl" | "disabled";
+  entities: number;
+  hits: number;
+  misses: number;
+  refreshes: number;
+  events: number;
+  last_refresh?: string;
+  last_event?: string;
+  // How out of date a read may be: 0 while live, otherwise the age of the last refresh
+  staleness_ms?: number;
+}
+
+// Wait this long before trying to subscribe again after a failure
+const SUBSCRIBE_RETRY_DELAY = 60000;
+
+/**
+ * All entity states of one Home Assistant instance, fetched once from
+ * /api/states and then kept current from state_changed events. While events
+ * aren't available (no WebSocket, or after a reconnect until the next
+ * refresh) the states are refetched once they are older than the TTL.
+ * Entities a service call changed are refetched on the next read either way,
+ * so a read right after the call doesn't depend on its event having arrived.
+ */
+export class StateCache {
+  private entities?: Map<string, any>;
+  private refreshedAt?: number;
+  private lastEventAt?: number;
+  private loading?: Promise<ApiResponse>;
+  // Events that arrive while a refresh is in flight, applied on top of its result
+  private pendingEvents?: any[];
+  private unsubscribe?: () => Promise<void>;
+  private subscribing = false;
+  private subscribeFailedAt?: number;
+  // WebSocket connection the current states were fetched on while subscribed
+  private liveConnection?: number;
+  // Entities invalidated while live, refetched one by one on the next read
+  private staleEntities = new Set<string>();
+  private updatingEntities?: Promise<boolean>;
+  // Invalidated entirely while live: the next read refetches every state
+  private invalidated = false;
+  private counters = { hits: 0, misses: 0, refreshes: 0, events: 0 };
+
+  constructor(private options: StateCacheOptions) {}
+
+  /**
+   * All entity states, from the cache when it is current
+   */
+  async getStates(): Promise<ApiResponse> {
+    if (this.options.ttl <= 0) {
+      this.counters.misses++;
+      return this.options.fetchStates();
+    }
+
+    this.subscribe();
+
+    if (this.entities && this.isFresh() && await this.updateStaleEntities()) {
+      this.counters.hits++;
+      return { success: true, data: Array.from(this.entities.values()), statusCode: 200 };
+    }
+
+    this.counters.misses++;
+    return this.refresh();
+  }
+
+  /**
+   * Make the next read refetch the given entities, or every state when
+   * they aren't known (e.g. a call that targets an area). Without events
+   * the next read refetches every state anyway.
+   */
+  invalidate(entityIds?: string[]) {
+    if (!this.isLive()) {
+      this.refreshedAt = undefined;
+    } else if (entityIds) {
+      entityIds.forEach(entityId => this.staleEntities.add(entityId));
+    } else {
+      this.invalidated = true;
+    }
+  }
+
+  metrics(): StateCacheMetrics {
+    const live = this.isLive();
+    return {
+      mode: this.options.ttl <= 0 ? "disabled" : live ? "live" : "ttl",
+      entities: this.entities?.size ?? 0,
+      ...this.counters,
+      last_refresh: this.refreshedAt ? new Date(this.refreshedAt).toISOString() : undefined,
+      last_event: this.lastEventAt ? new Date(this.lastEventAt).toISOString() : undefined,
+      staleness_ms: live ? 0 : this.refreshedAt ? Date.now() - this.refreshedAt : undefined
+    };
+  }
+
+  close() {
+    this.unsubscribe?.().catch(() => undefined);
+    this.unsubscribe = undefined;
+    this.entities = undefined;
+    this.refreshedAt = undefined;
+    this.liveConnection = undefined;
+    this.staleEntities.clear();
+    this.invalidated = false;
+  }
+
+  private isLive(): boolean {
+    if (!this.unsubscribe || this.liveConnection === undefined) {
+      return false;
+    }
+    const webSocket = this.options.getWebSocket();
+    return webSocket.connected && webSocket.connectionCount === this.liveConnection;
+  }
+
+  private isFresh(): boolean {
+    if (this.isLive()) {
+      return !this.invalidated;
+    }
+    // Subscribed on a new connection: events were missed while it was down
+    if (this.unsubscribe && this.options.getWebSocket().connected) {
+      return false;
+    }
+    return this.refreshedAt !== undefined && Date.now() - this.refreshedAt < this.options.ttl;
+  }
+
+  private refresh(): Promise<ApiResponse> {
+    if (!this.loading) {
+      const webSocket = this.options.getWebSocket();
+      const subscribed = this.unsubscribe !== undefined && webSocket.connected;
+      const connection = webSocket.connectionCount;
+      this.pendingEvents = [];
+      // Invalidations from here on may not be reflected in the fetched states
+      const staleEntities = Array.from(this.staleEntities);
+      const invalidated = this.invalidated;
+      this.staleEntities.clear();
+      this.invalidated = false;
+
+      this.loading = this.options.fetchStates()
+        .then(result => {
+          if (result.success) {
+            this.entities = new Map(result.data.map((entity: any) => [entity.entity_id, entity]));
+            this.refreshedAt = Date.now();
+            this.liveConnection = subscribed ? connection : undefined;
+            this.counters.refreshes++;
+            this.pendingEvents?.forEach(event => this.applyEvent(event));
+          } else {
+            staleEntities.forEach(entityId => this.staleEntities.add(entityId));
+            this.invalidated = this.invalidated || invalidated;
+          }
+          return result;
+        })
+        .finally(() => {
+          this.loading = undefined;
+          this.pendingEvents = undefined;
+        });
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Refetch the entities invalidated since the last read. Returns false if
+   * one couldn't be fetched, so the caller refetches every state instead.
+   */
+  private updateStaleEntities(): Promise<boolean> {
+    if (this.staleEntities.size === 0) {
+      return this.updatingEntities ?? Promise.resolve(true);
+    }
+
+    const entityIds = Array.from(this.staleEntities);
+    this.staleEntities.clear();
+    const previous = this.updatingEntities ?? Promise.resolve(true);
+
+    const updating = Promise.all([previous, ...entityIds.map(entityId => this.options.fetchState(entityId))])
+      .then(([previousOk, ...results]) => {
+        let ok = previousOk as boolean;
+        results.forEach((result, index) => {
+          if (result.success) {
+            this.applyState(entityIds[index], result.data);
+          } else if (result.statusCode === 404) {
+            this.entities?.delete(entityIds[index]);
+          } else {
+            ok = false;
+          }
+        });
+        return ok;
+      })
+      .finally(() => {
+        if (this.updatingEntities === updating) {
+          this.updatingEntities = undefined;
+        }
+      });
+
+    this.updatingEntities = updating;
+    return updating;
+  }
+
+  /**
+   * Subscribe to state_changed events in the background, if not already
+   */
+  private subscribe() {
+    if (this.unsubscribe || this.subscribing ||
+        (this.subscribeFailedAt && Date.now() - this.subscribeFailedAt < SUBSCRIBE_RETRY_DELAY)) {
+      return;
+    }
+
+    this.subscribing = true;
+    this.options.getWebSocket().subscribeEvents(event => this.handleEvent(event), "state_changed")
+      .then(unsubscribe => {
+        this.unsubscribe = unsubscribe;
+        this.subscribeFailedAt = undefined;
+      })
+      .catch(error => {
+        console.error(`State cache falling back to a ${this.options.ttl}ms TTL: ${error.message}`);
+        this.subscribeFailedAt = Date.now();
+      })
+      .finally(() => {
+        this.subscribing = false;
+      });
+  }
+
+  private handleEvent(event: any) {
+    this.lastEventAt = Date.now();
+    this.counters.events++;
+
+    if (this.pendingEvents) {
+      this.pendingEvents.push(event);
+    } else {
+      this.applyEvent(event);
+    }
+  }
+
+  private applyEvent(event: any) {
+    const entityId = event?.data?.entity_id;
+    if (!this.entities || !entityId) {
+      return;
+    }
+
+    const newState = event.data.new_state;
+    if (!newState) {
+      this.entities.delete(entityId);
+      return;
+    }
+    this.applyState(entityId, newState);
+  }
+
+  private applyState(entityId: string, state: any) {
+    // Events replayed after a refresh, or a refetched state, may be older than the cached one
+    const current = this.entities?.get(entityId);
+    if (!this.entities || (current && Date.parse(current.last_updated) > Date.parse(state.last_updated))) {
+      return;
+    }
+    this.entities.set(entityId, state);
+  }
+}
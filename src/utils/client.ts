@@ -0,0 +1,849 @@
+import axios, { AxiosResponse } from "axios";
+import { AsyncLocalStorage } from "async_hooks";
+import { HomeAssistantWebSocket } from "./websocket.js";
+import { ApiResponse, ConfigItemDomain } from "./api.js";
+import { ActionPolicy, ConfigPolicyDecision, PolicyDecision } from "./policy.js";
+import { AuditLog } from "./audit.js";
+import { getTargetEntityIds, hasIndirectTargets } from "./targets.js";
+import { EntitySnapshot } from "./undo.js";
+import { StateCache, StateCacheMetrics } from "./cache.js";
+import {
+  backoffDelay,
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  HomeAssistantApiError,
+  RetryOptions,
+  sleep
+} from "./retry.js";
+
+export interface HomeAssistantInstanceOptions {
+  name: string;
+  url: string;
+  token: string;
+}
+
+export interface HomeAssistantClientOptions {
+  // The first instance is the default one
+  instances: HomeAssistantInstanceOptions[];
+  timeout?: number;
+  // Checked before every service call (default: allow everything)
+  policy?: ActionPolicy;
+  // Every service call is recorded here, attributed to sessionId
+  audit?: AuditLog;
+  sessionId?: string;
+  // Maximum age of cached states when state_changed events aren't available (0 disables the cache)
+  stateCacheTtl?: number;
+  // GETs that fail because Home Assistant is unavailable or slow are retried with backoff
+  retry?: Partial<RetryOptions>;
+  // Requests fail fast while an instance keeps being unavailable
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
+
+interface HomeAssistantInstance {
+  name: string;
+  url: string;
+  token: string;
+  circuitBreaker: CircuitBreaker;
+  webSocket?: HomeAssistantWebSocket;
+  stateCache?: StateCache;
+}
+
+/**
+ * A state-changing request that was recorded instead of sent (dry run)
+ */
+export interface PlannedRequest {
+  instance: string;
+  method: "POST" | "DELETE";
+  endpoint: string;
+  data?: any;
+}
+
+// State carried through everything awaited within a single tool call
+interface CallContext {
+  instance?: HomeAssistantInstance;
+  // Name of the tool being called
+  tool?: string;
+  // Set while planning: state-changing requests are recorded here instead of sent
+  plan?: PlannedRequest[];
+  // The caller confirmed service calls that the policy requires confirmation for
+  confirmed?: boolean;
+  // Set while capturing: states of service call targets are recorded here before they change
+  snapshots?: EntitySnapshot[];
+}
+
+/**
+ * The tool call that requests are made for
+ */
+export interface ToolCall {
+  tool: string;
+  // Confirms service calls that the policy requires confirmation for
+  confirmed?: boolean;
+}
+
+// POST endpoints that only read, so they still run during a dry run
+const READ_ONLY_POST_ENDPOINTS = ['/api/template', '/api/config/core/check_config'];
+
+// Services of these domains change other entities than the ones they target
+const INDIRECT_EFFECT_DOMAINS = ['scene', 'script', 'automation'];
+
+/**
+ * Thrown when a tool call names an instance that isn't configured
+ */
+export class UnknownInstanceError extends Error {
+  constructor(public readonly instance: string, public readonly available: string[]) {
+    super(`Unknown Home Assistant instance "${instance}". Available instances: ${available.join(', ')}`);
+    this.name = "UnknownInstanceError";
+  }
+}
+
+/**
+ * REST and WebSocket access to the Home Assistant instances of one session.
+ *
+ * Each MCP session creates its own client from its config, so sessions
+ * pointed at different instances never share credentials or connections.
+ * Requests go to the default instance unless a call runs inside
+ * withInstance(), which selects another instance for everything awaited
+ * within it. Inside planRequests(), state-changing requests are recorded
+ * rather than sent. Every service call is checked against the action policy
+ * and recorded in the audit log, and automations, scripts and scenes are
+ * checked for the calls they make before they are saved.
+ */
+export class HomeAssistantClient {
+  readonly defaultInstance: string;
+  readonly policy?: ActionPolicy;
+  readonly sessionId: string;
+  private audit?: AuditLog;
+  private instances = new Map<string, HomeAssistantInstance>();
+  private context = new AsyncLocalStorage<CallContext>();
+  private timeout: number;
+  private stateCacheTtl: number;
+  private retry: RetryOptions;
+
+  constructor(options: HomeAssistantClientOptions) {
+    if (options.instances.length === 0) {
+      throw new Error('At least one Home Assistant instance must be configured');
+    }
+
+    const circuitBreaker: CircuitBreakerOptions = {
+      failureThreshold: options.circuitBreaker?.failureThreshold ?? 5,
+      cooldown: options.circuitBreaker?.cooldown ?? 30000
+    };
+
+    options.instances.forEach(instance => {
+      if (this.instances.has(instance.name)) {
+        throw new Error(`Home Assistant instance "${instance.name}" is configured twice`);
+      }
+      this.instances.set(instance.name, {
+        name: instance.name,
+        url: instance.url.replace(/\/+$/, ''),
+        token: instance.token,
+        circuitBreaker: new CircuitBreaker(circuitBreaker)
+      });
+    });
+
+    this.defaultInstance = options.instances[0].name;
+    this.timeout = options.timeout ?? 10000;
+    this.stateCacheTtl = options.stateCacheTtl ?? 30000;
+    this.retry = {
+      maxRetries: options.retry?.maxRetries ?? 2,
+      baseDelay: options.retry?.baseDelay ?? 500,
+      maxDelay: options.retry?.maxDelay ?? 5000
+    };
+    this.policy = options.policy;
+    this.audit = options.audit;
+    this.sessionId = options.sessionId ?? "default";
+  }
+
+  get instanceNames(): string[] {
+    return Array.from(this.instances.keys());
+  }
+
+  /**
+   * Name of the instance requests are currently routed to
+   */
+  get currentInstance(): string {
+    return this.instance.name;
+  }
+
+  /**
+   * Base URL of the instance requests are currently routed to
+   */
+  get url(): string {
+    return this.instance.url;
+  }
+
+  hasInstance(name: string): boolean {
+    return this.instances.has(name);
+  }
+
+  /**
+   * Run fn with every request it makes routed to the named instance
+   * (the current instance when name is undefined)
+   */
+  withInstance<T>(name: string | undefined, fn: () => T): T {
+    if (name === undefined) {
+      return fn();
+    }
+
+    const instance = this.instances.get(name);
+    if (!instance) {
+      throw new UnknownInstanceError(name, this.instanceNames);
+    }
+
+    return this.context.run({ ...this.context.getStore(), instance }, fn);
+  }
+
+  /**
+   * Run fn as a dry run: reads go through, but every state-changing request
+   * is recorded and answered with an empty success response
+   */
+  async planRequests<T>(fn: () => Promise<T>): Promise<{ result?: T; error?: Error; requests: PlannedRequest[] }> {
+    const requests: PlannedRequest[] = [];
+
+    try {
+      const result = await this.context.run({ ...this.context.getStore(), plan: requests }, fn);
+      return { result, requests };
+    } catch (error: any) {
+      return { error, requests };
+    }
+  }
+
+  /**
+   * Run fn on behalf of a tool call: service calls within it are attributed
+   * to the tool and, if the call confirmed them, may run when the policy
+   * requires confirmation
+   */
+  withToolCall<T>(call: ToolCall, fn: () => T): T {
+    return this.context.run({ ...this.context.getStore(), tool: call.tool, confirmed: call.confirmed }, fn);
+  }
+
+  /**
+   * What the action policy decides for a service call on the current instance
+   * (undefined without a policy)
+   */
+  checkPolicy(domain: string, service: string, serviceData: any = {}): PolicyDecision | undefined {
+    return this.policy?.evaluate({ instance: this.instance.name, domain, service, data: serviceData });
+  }
+
+  /**
+   * What the action policy decides for saving an automation, script or scene
+   * on the current instance, from the service calls it makes (undefined
+   * without a policy)
+   */
+  checkConfigPolicy(domain: ConfigItemDomain, config: any): ConfigPolicyDecision | undefined {
+    return this.policy?.evaluateConfig(this.instance.name, domain, config);
+  }
+
+  /**
+   * Whether a policy decision stops the request: it is denied, or needs
+   * confirmation the caller hasn't given. Dry runs aren't refused, their
+   * plan reports the decision instead.
+   */
+  private isRefused(decision: PolicyDecision | undefined): decision is PolicyDecision {
+    const store = this.context.getStore();
+    return !!decision && decision.effect !== "allow" && !store?.plan && !(decision.effect === "confirm" && store?.confirmed);
+  }
+
+  /**
+   * Refuse a service call the policy denies or that needs confirmation the
+   * caller hasn't given. Returns the response to use instead of sending it.
+   */
+  private enforcePolicy(domain: string, service: string, serviceData: any): ApiResponse | undefined {
+    const decision = this.checkPolicy(domain, service, serviceData);
+    if (!this.isRefused(decision)) {
+      return undefined;
+    }
+
+    const target = decision.entityId ? ` on ${decision.entityId}` : '';
+    const reason = decision.reason ? ` (${decision.reason})` : '';
+    console.error(`Policy ${decision.effect}: ${domain}.${service}${target}`);
+
+    return {
+      success: false,
+      statusCode: 403,
+      message: decision.effect === "deny"
+        ? `${domain}.${service}${target} is denied by policy${reason}`
+        : `${domain}.${service}${target} requires confirmation by policy${reason}. Call the tool again with confirm: true to proceed.`
+    };
+  }
+
+  /**
+   * Refuse to save an automation, script or scene that makes a service call
+   * the policy denies, or needs confirmation the caller hasn't given.
+   * Otherwise it could make the call later, when nothing checks it.
+   */
+  private enforceConfigPolicy(domain: ConfigItemDomain, id: string, config: any): ApiResponse | undefined {
+    const decision = this.checkConfigPolicy(domain, config);
+    if (!this.isRefused(decision)) {
+      return undefined;
+    }
+
+    const call = `${decision.call}${decision.entityId ? ` on ${decision.entityId}` : ''}`;
+    const reason = decision.reason ? ` (${decision.reason})` : '';
+    console.error(`Policy ${decision.effect}: saving ${domain} ${id} (${call})`);
+
+    return {
+      success: false,
+      statusCode: 403,
+      message: decision.effect === "deny"
+        ? `Saving ${domain} ${id} is denied by policy: it calls ${call}, which is denied${reason}`
+        : `Saving ${domain} ${id} requires confirmation by policy: it calls ${call}${reason}. Call the tool again with confirm: true to proceed.`
+    };
+  }
+
+  /**
+   * Append a service call to the audit log. Dry runs aren't recorded, and a
+   * failure to write the log doesn't fail the call.
+   */
+  private async recordServiceCall(domain: string, service: string, serviceData: any, result: ApiResponse) {
+    const store = this.context.getStore();
+    if (!this.audit || store?.plan) {
+      return;
+    }
+
+    try {
+      await this.audit.append({
+        timestamp: new Date().toISOString(),
+        session_id: this.sessionId,
+        instance: this.instance.name,
+        tool: store?.tool,
+        domain,
+        service,
+        entity_ids: getTargetEntityIds(serviceData),
+        service_data: serviceData,
+        result: {
+          success: result.success,
+          status_code: result.statusCode,
+          message: result.message
+        }
+      });
+    } catch (error: any) {
+      console.error(`Failed to write audit log entry for ${domain}.${service}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether requests are currently being planned rather than sent
+   */
+  get isPlanning(): boolean {
+    return this.context.getStore()?.plan !== undefined;
+  }
+
+  /**
+   * Run fn, adding the state of every entity its service calls target to
+   * snapshots right before the first call that changes it
+   */
+  captureStates<T>(snapshots: EntitySnapshot[], fn: () => T): T {
+    return this.context.run({ ...this.context.getStore(), snapshots }, fn);
+  }
+
+  private async snapshotTargets(serviceData: any) {
+    const store = this.context.getStore();
+    const snapshots = store?.snapshots;
+    if (!snapshots || store?.plan) {
+      return;
+    }
+
+    const instance = this.instance.name;
+    const entityIds = getTargetEntityIds(serviceData)
+      .filter(entityId => !snapshots.some(snapshot => snapshot.instance === instance && snapshot.entity_id === entityId));
+
+    await Promise.all(entityIds.map(async entityId => {
+      const result = await this.getHomeAssistantState(entityId);
+      if (result.success) {
+        snapshots.push({ instance, entity_id: entityId, state: result.data.state, attributes: result.data.attributes || {} });
+      }
+    }));
+  }
+
+  private get instance(): HomeAssistantInstance {
+    return this.context.getStore()?.instance ?? this.instances.get(this.defaultInstance)!;
+  }
+
+  /**
+   * Record a state-changing request when planning. Returns the response to
+   * use instead of sending it, or undefined if it should be sent.
+   */
+  private planRequest(method: PlannedRequest["method"], endpoint: string, data?: any): ApiResponse | undefined {
+    const plan = this.context.getStore()?.plan;
+    if (!plan || (method === "POST" && READ_ONLY_POST_ENDPOINTS.includes(endpoint))) {
+      return undefined;
+    }
+
+    console.error(`Dry run: not sending ${method} ${endpoint}`);
+    plan.push({ instance: this.instance.name, method, endpoint, data });
+    return { success: true, data: [], statusCode: 200 };
+  }
+
+  /**
+   * Get axios configuration with Home Assistant authentication
+   */
+  private getAxiosConfig() {
+    return {
+      headers: {
+        'Authorization': `Bearer ${this.instance.token}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: this.timeout
+    };
+  }
+
+  /**
+   * Generic function to make GET requests to Home Assistant API
+   */
+  async makeGetRequest<T = any>(endpoint: string): Promise<ApiResponse<T>> {
+    return this.sendRequest<T>("GET", endpoint);
+  }
+
+  /**
+   * Generic function to make POST requests to Home Assistant API
+   */
+  async makePostRequest<T = any>(endpoint: string, data: any = {}): Promise<ApiResponse<T>> {
+    const planned = this.planRequest("POST", endpoint, data);
+    if (planned) {
+      return planned;
+    }
+
+    return this.sendRequest<T>("POST", endpoint, data);
+  }
+
+  /**
+   * Generic function to make DELETE requests to Home Assistant API
+   */
+  async makeDeleteRequest<T = any>(endpoint: string): Promise<ApiResponse<T>> {
+    const planned = this.planRequest("DELETE", endpoint);
+    if (planned) {
+      return planned;
+    }
+
+    return this.sendRequest<T>("DELETE", endpoint);
+  }
+
+  /**
+   * Send a request to the current instance. GETs are retried with backoff
+   * while Home Assistant is unavailable or slow; other requests only when
+   * the connection was refused, since they never reached it. Nothing is sent
+   * while the instance's circuit breaker is open.
+   */
+  private async sendRequest<T>(method: "GET" | "POST" | "DELETE", endpoint: string, data?: any): Promise<ApiResponse<T>> {
+    const instance = this.instance;
+    const url = `${instance.url}${endpoint}`;
+
+    for (let attempt = 0; ; attempt++) {
+      const open = instance.circuitBreaker.check();
+      if (open) {
+        console.error(`Not sending ${method} request to ${endpoint}: ${open.message}`);
+        return this.handleApiError(open);
+      }
+
+      try {
+        console.error(`Making ${method} request to: ${url}`);
+        
+        const config = this.getAxiosConfig();
+        const response: AxiosResponse<T> = await axios.request({ ...config, method, url, data });
+        instance.circuitBreaker.recordSuccess();
+        
+        return { 
+          data: response.data,
+          success: true,
+          statusCode: response.status
+        };
+      } catch (error: any) {
+        console.error(`Failed to make ${method} request to ${endpoint}: ${error.message}`);
+        const apiError = HomeAssistantApiError.from(error);
+
+        if (apiError.kind === "unavailable" || apiError.statusCode === undefined) {
+          instance.circuitBreaker.recordFailure();
+        } else {
+          instance.circuitBreaker.recordSuccess();
+        }
+
+        const retryable = apiError.retryable && (method === "GET" || apiError.code === "ECONNREFUSED");
+        if (!retryable || attempt >= this.retry.maxRetries) {
+          return this.handleApiError(apiError);
+        }
+
+        const delay = backoffDelay(attempt, this.retry);
+        console.error(`Retrying ${method} request to ${endpoint} in ${delay}ms (retry ${attempt + 1} of ${this.retry.maxRetries})`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Handle API errors in a consistent way. The error is a
+   * HomeAssistantApiError, so callers can tell e.g. a restart from a 404.
+   */
+  private handleApiError(error: HomeAssistantApiError): ApiResponse {
+    return {
+      success: false,
+      statusCode: error.statusCode,
+      message: error.message,
+      error
+    };
+  }
+
+  /**
+   * WebSocket connection to the current instance, opened lazily on first use
+   */
+  getWebSocket(): HomeAssistantWebSocket {
+    const instance = this.instance;
+
+    if (!instance.webSocket) {
+      instance.webSocket = new HomeAssistantWebSocket({
+        url: instance.url,
+        token: instance.token,
+        timeout: this.timeout
+      });
+    }
+
+    return instance.webSocket;
+  }
+
+  /**
+   * State cache of the current instance, created on first use
+   */
+  private getStateCache(): StateCache {
+    const instance = this.instance;
+
+    if (!instance.stateCache) {
+      instance.stateCache = new StateCache({
+        ttl: this.stateCacheTtl,
+        fetchStates: () => this.withInstance(instance.name, () => this.getAllStates()),
+        fetchState: entityId => this.withInstance(instance.name, () => this.getHomeAssistantState(entityId)),
+        getWebSocket: () => this.withInstance(instance.name, () => this.getWebSocket())
+      });
+    }
+
+    return instance.stateCache;
+  }
+
+  /**
+   * Hit, refresh and staleness metrics of the current instance's state cache
+   */
+  stateCacheMetrics(): StateCacheMetrics {
+    return this.getStateCache().metrics();
+  }
+
+  /**
+   * Close the WebSocket connections (REST calls don't hold any connection)
+   */
+  close() {
+    this.instances.forEach(instance => {
+      instance.stateCache?.close();
+      instance.stateCache = undefined;
+      instance.webSocket?.close();
+      instance.webSocket = undefined;
+    });
+  }
+
+  /**
+   * Generic function to send commands over the Home Assistant WebSocket API
+   */
+  async sendWebSocketCommand<T = any>(message: Record<string, any>): Promise<ApiResponse<T>> {
+    try {
+      console.error(`Sending WebSocket command: ${message.type}`);
+      
+      const data = await this.getWebSocket().sendCommand<T>(message);
+      
+      return {
+        data,
+        success: true
+      };
+    } catch (error: any) {
+      console.error(`Failed to send WebSocket command ${message.type}: ${error.message}`);
+      return {
+        success: false,
+        message: error.message,
+        error
+      };
+    }
+  }
+
+  /**
+   * Verify if Home Assistant API is online
+   */
+  async getHomeAssistantApi(): Promise<ApiResponse> {
+    return this.makeGetRequest('/api/');
+  }
+
+  /**
+   * Get the state of a Home Assistant entity
+   */
+  async getHomeAssistantState(entity_id: string): Promise<ApiResponse> {
+    return this.makeGetRequest(`/api/states/${entity_id}`);
+  }
+
+  /**
+   * Get all states from Home Assistant
+   */
+  async getAllStates(): Promise<ApiResponse> {
+    return this.makeGetRequest('/api/states');
+  }
+
+  /**
+   * Get all states from the state cache, which is kept current from
+   * state_changed events (or refetched after a TTL without them)
+   */
+  async getCachedStates(): Promise<ApiResponse> {
+    return this.getStateCache().getStates();
+  }
+
+  /**
+   * Call a Home Assistant service
+   */
+  async callHomeAssistantService(
+    domain: string, 
+    service: string, 
+    serviceData: any = {}
+  ): Promise<ApiResponse> {
+    let result = this.enforcePolicy(domain, service, serviceData);
+    if (!result) {
+      await this.snapshotTargets(serviceData);
+      result = await this.makePostRequest(`/api/services/${domain}/${service}`, serviceData);
+      if (result.success && !this.isPlanning) {
+        this.instance.stateCache?.invalidate(this.changedEntityIds(domain, serviceData));
+      }
+    }
+
+    await this.recordServiceCall(domain, service, serviceData, result);
+    return result;
+  }
+
+  /**
+   * Entities a service call changes, or undefined when that isn't known from
+   * its targets: indirect targets, no targets, or a service that runs other
+   * actions (activating a scene changes the entities in it, not the scene)
+   */
+  private changedEntityIds(domain: string, serviceData: any): string[] | undefined {
+    const entityIds = getTargetEntityIds(serviceData);
+    if (entityIds.length === 0 || hasIndirectTargets(serviceData) || INDIRECT_EFFECT_DOMAINS.includes(domain)) {
+      return undefined;
+    }
+    return entityIds;
+  }
+
+  /**
+   * Get all available services
+   */
+  async getServices(): Promise<ApiResponse> {
+    return this.makeGetRequest('/api/services');
+  }
+
+  /**
+   * Get Home Assistant configuration
+   */
+  async getConfig(): Promise<ApiResponse> {
+    return this.makeGetRequest('/api/config');
+  }
+
+  /**
+   * Get events from Home Assistant
+   */
+  async getEvents(): Promise<ApiResponse> {
+    return this.makeGetRequest('/api/events');
+  }
+
+  /**
+   * Get error log
+   */
+  async getErrorLog(): Promise<ApiResponse> {
+    return this.makeGetRequest('/api/error_log');
+  }
+
+  /**
+   * Get logbook entries
+   */
+  async getLogbook(entity?: string, start_time?: string, end_time?: string): Promise<ApiResponse> {
+    let endpoint = '/api/logbook';
+    const params = new URLSearchParams();
+    
+    if (entity) params.append('entity', entity);
+    if (start_time) params.append('start_time', start_time);
+    if (end_time) params.append('end_time', end_time);
+    
+    if (params.toString()) {
+      endpoint += `?${params.toString()}`;
+    }
+    
+    return this.makeGetRequest(endpoint);
+  }
+
+  /**
+   * Get history for entities
+   */
+  async getHistory(
+    filter_entity_id?: string,
+    start_time?: string,
+    end_time?: string,
+    minimal_response?: boolean
+  ): Promise<ApiResponse> {
+    let endpoint = '/api/history/period';
+    if (start_time) {
+      endpoint += `/${start_time}`;
+    }
+    
+    const params = new URLSearchParams();
+    if (filter_entity_id) params.append('filter_entity_id', filter_entity_id);
+    if (end_time) params.append('end_time', end_time);
+    if (minimal_response) params.append('minimal_response', 'true');
+    
+    if (params.toString()) {
+      endpoint += `?${params.toString()}`;
+    }
+    
+    return this.makeGetRequest(endpoint);
+  }
+
+  /**
+   * Check Home Assistant configuration
+   */
+  async checkConfig(): Promise<ApiResponse> {
+    return this.makePostRequest('/api/config/core/check_config');
+  }
+
+  /**
+   * Restart Home Assistant
+   */
+  async restartHomeAssistant(): Promise<ApiResponse> {
+    return this.callHomeAssistantService('homeassistant', 'restart');
+  }
+
+  /**
+   * Stop Home Assistant
+   */
+  async stopHomeAssistant(): Promise<ApiResponse> {
+    return this.callHomeAssistantService('homeassistant', 'stop');
+  }
+
+  /**
+   * Get template result
+   */
+  async renderTemplate(template: string): Promise<ApiResponse> {
+    return this.makePostRequest('/api/template', { template });
+  }
+
+  /**
+   * Get the area registry (WebSocket only)
+   */
+  async getAreaRegistry(): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "config/area_registry/list" });
+  }
+
+  /**
+   * Get the device registry (WebSocket only)
+   */
+  async getDeviceRegistry(): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "config/device_registry/list" });
+  }
+
+  /**
+   * Get the entity registry (WebSocket only)
+   */
+  async getEntityRegistry(): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "config/entity_registry/list" });
+  }
+
+  /**
+   * Get the floor registry (WebSocket only)
+   */
+  async getFloorRegistry(): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "config/floor_registry/list" });
+  }
+
+  /**
+   * Get the label registry (WebSocket only)
+   */
+  async getLabelRegistry(): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "config/label_registry/list" });
+  }
+
+  /**
+   * Get recorder long-term statistics for a period (WebSocket only)
+   */
+  async getStatisticsDuringPeriod(
+    statistic_ids: string[],
+    start_time: string,
+    end_time?: string,
+    period: string = "hour",
+    types?: string[],
+    units?: Record<string, string>
+  ): Promise<ApiResponse> {
+    const message: Record<string, any> = {
+      type: "recorder/statistics_during_period",
+      statistic_ids,
+      start_time,
+      period
+    };
+    if (end_time) message.end_time = end_time;
+    if (types && types.length > 0) message.types = types;
+    if (units && Object.keys(units).length > 0) message.units = units;
+    
+    return this.sendWebSocketCommand(message);
+  }
+
+  /**
+   * Get metadata (units, available statistic types) for long-term statistics
+   */
+  async getStatisticsMetadata(statistic_ids?: string[]): Promise<ApiResponse> {
+    const message: Record<string, any> = { type: "recorder/get_statistics_metadata" };
+    if (statistic_ids) message.statistic_ids = statistic_ids;
+    
+    return this.sendWebSocketCommand(message);
+  }
+
+  /**
+   * Get the energy dashboard configuration: sources and tracked devices (WebSocket only)
+   */
+  async getEnergyPrefs(): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "energy/get_prefs" });
+  }
+
+  /**
+   * Get energy dashboard info, including the cost sensors Home Assistant
+   * created for sources priced by an entity or a fixed price (WebSocket only)
+   */
+  async getEnergyInfo(): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "energy/info" });
+  }
+
+  /**
+   * Get the stored configuration of a UI-managed automation, script or scene
+   */
+  async getConfigItem(domain: ConfigItemDomain, id: string): Promise<ApiResponse> {
+    return this.makeGetRequest(`/api/config/${domain}/config/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Create or replace the configuration of a UI-managed automation, script or scene
+   */
+  async saveConfigItem(domain: ConfigItemDomain, id: string, config: Record<string, any>): Promise<ApiResponse> {
+    const refused = this.enforceConfigPolicy(domain, id, config);
+    if (refused) {
+      return refused;
+    }
+
+    return this.makePostRequest(`/api/config/${domain}/config/${encodeURIComponent(id)}`, config);
+  }
+
+  /**
+   * Delete a UI-managed automation, script or scene
+   */
+  async deleteConfigItem(domain: ConfigItemDomain, id: string): Promise<ApiResponse> {
+    return this.makeDeleteRequest(`/api/config/${domain}/config/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * List stored traces for an automation or script (WebSocket only)
+   */
+  async listTraces(domain: "automation" | "script", item_id: string): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "trace/list", domain, item_id });
+  }
+
+  /**
+   * Get a stored trace of a single automation or script run (WebSocket only)
+   */
+  async getTrace(domain: "automation" | "script", item_id: string, run_id: string): Promise<ApiResponse> {
+    return this.sendWebSocketCommand({ type: "trace/get", domain, item_id, run_id });
+  }
+}
@@ -0,0 +1,313 @@
+export type EnergyPeriod = "day" | "week" | "month";
+
+export const ENERGY_PERIODS: EnergyPeriod[] = ["day", "week", "month"];
+
+/**
+ * A stretch of a calendar period and the same stretch of the period before
+ * it, as epoch milliseconds (start inclusive, end exclusive)
+ */
+export interface EnergyWindow {
+  start: number;
+  end: number;
+  previous: { start: number; end: number };
+}
+
+/**
+ * Statistics the energy dashboard is built from, by what they measure
+ */
+export interface EnergyStatisticIds {
+  grid_import: string[];
+  grid_export: string[];
+  solar: string[];
+  // Energy the battery delivered to the home
+  battery_discharge: string[];
+  // Energy the battery took in
+  battery_charge: string[];
+  gas: string[];
+  water: string[];
+  grid_cost: string[];
+  // Money received for energy returned to the grid
+  grid_compensation: string[];
+  gas_cost: string[];
+  water_cost: string[];
+  devices: EnergyDevice[];
+}
+
+export interface EnergyDevice {
+  statistic_id: string;
+  name?: string;
+  // Statistic of an upstream device this one's consumption is already part of
+  included_in_stat?: string;
+}
+
+export interface DeviceConsumption extends EnergyDevice {
+  consumption: number;
+  // Share of total electricity consumption, 0 to 1
+  share?: number;
+}
+
+/**
+ * Energy totals for one period. Figures are undefined when no source of
+ * that kind is configured or none of its statistics have data.
+ */
+export interface EnergyTotals {
+  grid_import?: number;
+  grid_export?: number;
+  solar?: number;
+  battery_discharge?: number;
+  battery_charge?: number;
+  // Electricity used by the home: imported, produced and discharged minus exported and charged
+  consumption?: number;
+  // Share of consumption not imported from the grid, 0 to 1
+  self_sufficiency?: number;
+  // Share of solar production used at home rather than exported, 0 to 1
+  solar_self_consumption?: number;
+  gas?: number;
+  water?: number;
+  cost?: {
+    grid?: number;
+    grid_compensation?: number;
+    gas?: number;
+    water?: number;
+    total: number;
+  };
+  devices: DeviceConsumption[];
+}
+
+/**
+ * Statistic ids of every source and device in the energy preferences. Sources
+ * priced by an entity or a fixed price get their cost from the cost sensors
+ * Home Assistant creates for them (from energy/info).
+ */
+export function energyStatisticIds(prefs: any, costSensors: Record<string, string> = {}): EnergyStatisticIds {
+  const ids: EnergyStatisticIds = {
+    grid_import: [], grid_export: [], solar: [], battery_discharge: [], battery_charge: [],
+    gas: [], water: [], grid_cost: [], grid_compensation: [], gas_cost: [], water_cost: [],
+    devices: []
+  };
+  const add = (list: string[], id?: string | null) => {
+    if (id && !list.includes(id)) {
+      list.push(id);
+    }
+  };
+  const costOf = (statId: string, explicit?: string | null) => explicit || costSensors[statId];
+
+  (prefs?.energy_sources || []).forEach((source: any) => {
+    switch (source.type) {
+      case "grid":
+        (source.flow_from || []).forEach((flow: any) => {
+          add(ids.grid_import, flow.stat_energy_from);
+          add(ids.grid_cost, costOf(flow.stat_energy_from, flow.stat_cost));
+        });
+        (source.flow_to || []).forEach((flow: any) => {
+          add(ids.grid_export, flow.stat_energy_to);
+          add(ids.grid_compensation, costOf(flow.stat_energy_to, flow.stat_compensation));
+        });
+        break;
+      case "solar":
+        add(ids.solar, source.stat_energy_from);
+        break;
+      case "battery":
+        add(ids.battery_discharge, source.stat_energy_from);
+        add(ids.battery_charge, source.stat_energy_to);
+        break;
+      case "gas":
+        add(ids.gas, source.stat_energy_from);
+        add(ids.gas_cost, costOf(source.stat_energy_from, source.stat_cost));
+        break;
+      case "water":
+        add(ids.water, source.stat_energy_from);
+        add(ids.water_cost, costOf(source.stat_energy_from, source.stat_cost));
+        break;
+    }
+  });
+
+  (prefs?.device_consumption || []).forEach((device: any) => {
+    if (device.stat_consumption) {
+      ids.devices.push({
+        statistic_id: device.stat_consumption,
+        name: device.name || undefined,
+        included_in_stat: device.included_in_stat || undefined
+      });
+    }
+  });
+
+  return ids;
+}
+
+/**
+ * Every statistic id the report needs
+ */
+export function allStatisticIds(ids: EnergyStatisticIds): string[] {
+  const { devices, ...sources } = ids;
+  return Array.from(new Set([...Object.values(sources).flat(), ...devices.map(device => device.statistic_id)]));
+}
+
+/**
+ * Totals for a period from the change of each statistic during it. Statistics
+ * without data are left out rather than counted as zero.
+ */
+export function energyTotals(ids: EnergyStatisticIds, changes: Map<string, number>): EnergyTotals {
+  const sum = (list: string[]): number | undefined => {
+    const values = list.map(id => changes.get(id)).filter((value): value is number => value !== undefined);
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) : undefined;
+  };
+
+  const totals: EnergyTotals = {
+    grid_import: sum(ids.grid_import),
+    grid_export: sum(ids.grid_export),
+    solar: sum(ids.solar),
+    battery_discharge: sum(ids.battery_discharge),
+    battery_charge: sum(ids.battery_charge),
+    gas: sum(ids.gas),
+    water: sum(ids.water),
+    devices: []
+  };
+
+  const electricity = [totals.grid_import, totals.grid_export, totals.solar, totals.battery_discharge, totals.battery_charge];
+  if (electricity.some(value => value !== undefined)) {
+    const consumption = (totals.grid_import ?? 0) + (totals.solar ?? 0) + (totals.battery_discharge ?? 0) -
+      (totals.grid_export ?? 0) - (totals.battery_charge ?? 0);
+    totals.consumption = Math.max(0, consumption);
+    if (totals.consumption > 0) {
+      totals.self_sufficiency = clamp(1 - (totals.grid_import ?? 0) / totals.consumption);
+    }
+  }
+  if (totals.solar !== undefined && totals.solar > 0) {
+    totals.solar_self_consumption = clamp(1 - (totals.grid_export ?? 0) / totals.solar);
+  }
+
+  const cost = {
+    grid: sum(ids.grid_cost),
+    grid_compensation: sum(ids.grid_compensation),
+    gas: sum(ids.gas_cost),
+    water: sum(ids.water_cost)
+  };
+  if (Object.values(cost).some(value => value !== undefined)) {
+    totals.cost = {
+      ...cost,
+      total: (cost.grid ?? 0) - (cost.grid_compensation ?? 0) + (cost.gas ?? 0) + (cost.water ?? 0)
+    };
+  }
+
+  totals.devices = ids.devices
+    .filter(device => changes.has(device.statistic_id))
+    .map(device => {
+      const consumption = changes.get(device.statistic_id)!;
+      return {
+        ...device,
+        consumption,
+        share: totals.consumption ? consumption / totals.consumption : undefined
+      };
+    })
+    .sort((a, b) => b.consumption - a.consumption);
+
+  return totals;
+}
+
+/**
+ * Consumption not covered by individually tracked devices. Devices included
+ * in another device's statistic aren't counted twice.
+ */
+export function untrackedConsumption(totals: EnergyTotals): number | undefined {
+  if (totals.consumption === undefined || totals.devices.length === 0) {
+    return undefined;
+  }
+  const tracked = totals.devices
+    .filter(device => !device.included_in_stat || !totals.devices.some(other => other.statistic_id === device.included_in_stat))
+    .reduce((total, device) => total + device.consumption, 0);
+  return Math.max(0, totals.consumption - tracked);
+}
+
+/**
+ * Relative change from previous to current, or undefined when there is
+ * nothing to compare against
+ */
+export function relativeChange(current?: number, previous?: number): number | undefined {
+  if (current === undefined || previous === undefined || previous === 0) {
+    return undefined;
+  }
+  return (current - previous) / Math.abs(previous);
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Local calendar date and time of an instant in a time zone
+ */
+function wallClock(ms: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric"
+  }).formatToParts(new Date(ms));
+  const part = (type: string) => Number(parts.find(entry => entry.type === type)?.value);
+  return { year: part("year"), month: part("month"), day: part("day"), hour: part("hour"), minute: part("minute"), second: part("second") };
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+function zoneOffset(ms: number, timeZone: string): number {
+  const local = wallClock(ms, timeZone);
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * The instant a calendar date starts in a time zone. Month and day may be
+ * out of range, e.g. day 0 is the last day of the month before.
+ */
+function localMidnight(year: number, month: number, day: number, timeZone: string): number {
+  const utc = Date.UTC(year, month - 1, day);
+  const guess = utc - zoneOffset(utc, timeZone);
+  // Around a DST change the offset at local midnight differs from the one at UTC midnight
+  return utc - zoneOffset(guess, timeZone);
+}
+
+/**
+ * Start of the calendar day, week (starting on Monday) or month that
+ * contains an instant, in a time zone
+ */
+export function periodStart(period: EnergyPeriod, ms: number, timeZone: string): number {
+  const { year, month, day } = wallClock(ms, timeZone);
+  if (period === "month") {
+    return localMidnight(year, month, 1, timeZone);
+  }
+  if (period === "week") {
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    return localMidnight(year, month, day - (weekday + 6) % 7, timeZone);
+  }
+  return localMidnight(year, month, day, timeZone);
+}
+
+/**
+ * Start of the period count periods after the one starting at start
+ * (before it, when count is negative)
+ */
+export function shiftPeriod(period: EnergyPeriod, start: number, count: number, timeZone: string): number {
+  const { year, month, day } = wallClock(start, timeZone);
+  return period === "month"
+    ? localMidnight(year, month + count, 1, timeZone)
+    : localMidnight(year, month, day + count * (period === "week" ? 7 : 1), timeZone);
+}
+
+/**
+ * The period starting at start up to end, and what to compare it with: the
+ * whole previous period when it is complete, otherwise the same time since
+ * the start of the previous period (the first 14 hours of yesterday for
+ * today until 14:00)
+ */
+export function energyWindow(period: EnergyPeriod, start: number, end: number, timeZone: string): EnergyWindow {
+  const previousStart = shiftPeriod(period, start, -1, timeZone);
+  const complete = end >= shiftPeriod(period, start, 1, timeZone);
+  return {
+    start,
+    end,
+    previous: { start: previousStart, end: complete ? start : Math.min(previousStart + (end - start), start) }
+  };
+}
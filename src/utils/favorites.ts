@@ -0,0 +1,156 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+
+export interface Favorite {
+  entity_id: string;
+  alias?: string;
+  groups: string[];
+  added_at: string;
+}
+
+interface FavoritesFile {
+  version: 1;
+  // Favorites keyed by Home Assistant instance URL, then by entity id
+  instances: { [instanceUrl: string]: { [entityId: string]: Favorite } };
+}
+
+// Serializes writes per file across every store (and session) in this process
+const fileLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * File-backed favorites, scoped per Home Assistant instance.
+ *
+ * Favorites are keyed by the instance URL, so every session pointed at the
+ * same instance sees the same favorites. The file is re-read for every
+ * operation and replaced atomically on write.
+ */
+export class FavoritesStore {
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Favorites of an instance, optionally only those in a group
+   */
+  async list(instanceUrl: string, group?: string): Promise<Favorite[]> {
+    const data = await this.read();
+    const favorites = Object.values(data.instances[instanceUrl] || {});
+    return group ? favorites.filter(favorite => favorite.groups.includes(group)) : favorites;
+  }
+
+  /**
+   * Number of favorites in each group of an instance
+   */
+  async groups(instanceUrl: string): Promise<{ [group: string]: number }> {
+    const counts: { [group: string]: number } = {};
+    (await this.list(instanceUrl)).forEach(favorite => {
+      favorite.groups.forEach(group => {
+        counts[group] = (counts[group] || 0) + 1;
+      });
+    });
+    return counts;
+  }
+
+  /**
+   * Add a favorite, or update its alias and add it to another group
+   */
+  async add(instanceUrl: string, entityId: string, options: { alias?: string; group?: string } = {}): Promise<Favorite> {
+    return this.update(data => {
+      const favorites = data.instances[instanceUrl] ||= {};
+      const favorite = favorites[entityId] ||= {
+        entity_id: entityId,
+        groups: [],
+        added_at: new Date().toISOString()
+      };
+
+      if (options.alias !== undefined) {
+        favorite.alias = options.alias;
+      }
+      if (options.group && !favorite.groups.includes(options.group)) {
+        favorite.groups.push(options.group);
+      }
+
+      return favorite;
+    });
+  }
+
+  /**
+   * Remove a favorite entirely, or only from one group when a group is given.
+   * Returns false if there was nothing to remove.
+   */
+  async remove(instanceUrl: string, entityId: string, group?: string): Promise<boolean> {
+    return this.update(data => {
+      const favorites = data.instances[instanceUrl] || {};
+      const favorite = favorites[entityId];
+
+      if (!favorite) {
+        return false;
+      }
+
+      if (group) {
+        if (!favorite.groups.includes(group)) {
+          return false;
+        }
+        favorite.groups = favorite.groups.filter(name => name !== group);
+        return true;
+      }
+
+      delete favorites[entityId];
+      return true;
+    });
+  }
+
+  /**
+   * Remove all favorites of an instance, or empty a single group.
+   * Returns the number of favorites affected.
+   */
+  async clear(instanceUrl: string, group?: string): Promise<number> {
+    return this.update(data => {
+      const favorites = data.instances[instanceUrl] || {};
+
+      if (!group) {
+        const count = Object.keys(favorites).length;
+        delete data.instances[instanceUrl];
+        return count;
+      }
+
+      let count = 0;
+      Object.values(favorites).forEach(favorite => {
+        if (favorite.groups.includes(group)) {
+          favorite.groups = favorite.groups.filter(name => name !== group);
+          count++;
+        }
+      });
+      return count;
+    });
+  }
+
+  private async read(): Promise<FavoritesFile> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return { version: 1, instances: data.instances || {} };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { version: 1, instances: {} };
+      }
+      throw new Error(`Failed to read favorites from ${this.filePath}: ${error.message}`);
+    }
+  }
+
+  private async update<T>(change: (data: FavoritesFile) => T): Promise<T> {
+    const previous = fileLocks.get(this.filePath) || Promise.resolve();
+
+    const next = previous.catch(() => undefined).then(async () => {
+      const data = await this.read();
+      const result = change(data);
+
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+      await fs.rename(tempPath, this.filePath);
+
+      return result;
+    });
+
+    fileLocks.set(this.filePath, next);
+    return next;
+  }
+}
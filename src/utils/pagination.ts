@@ -0,0 +1,166 @@
+import { z, ZodTypeAny } from "zod";
+import { createHash } from "crypto";
+import { ApiResponse } from "./api.js";
+
+export interface PageOptions {
+  // Name of the listing, so a cursor can't continue a different tool's listing
+  listing: string;
+  // Arguments that select and order the items; a cursor only continues the listing it came from
+  query?: Record<string, unknown>;
+  cursor?: string;
+  // Maximum number of items on the page (0 for no limit)
+  limit?: number;
+  // Approximate token budget for the items on the page
+  maxTokens?: number;
+  // Value the first page pinned to keep later pages consistent, such as the end of a time range
+  anchor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Number of items in the whole listing
+  total: number;
+  // Position of the first item on the page in the listing
+  offset: number;
+  // Cursor for the next page, if there is one
+  next_cursor?: string;
+}
+
+interface Cursor {
+  offset: number;
+  fingerprint: string;
+  anchor?: string;
+}
+
+// Rough number of characters per token in JSON and markdown output
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * The limit, cursor and max_tokens arguments of a paginated tool
+ */
+export function paginationArguments(defaultLimit: number, noun: string) {
+  return {
+    limit: z.number().int().min(0).optional().default(defaultLimit).describe(`Maximum number of ${noun} per page (default: ${defaultLimit}, 0 for no limit)`),
+    cursor: z.string().optional().describe("next_cursor returned by the previous page, to continue the listing"),
+    max_tokens: z.number().int().positive().optional().describe("Optional: Approximate token budget for the page; a page that would exceed it is cut short and returns a next_cursor")
+  };
+}
+
+function fingerprint(listing: string, query: Record<string, unknown> = {}): string {
+  return createHash("sha256").update(JSON.stringify([listing, query])).digest("hex").slice(0, 12);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (Number.isInteger(cursor?.offset) && cursor.offset >= 0 && typeof cursor.fingerprint === "string") {
+      return cursor;
+    }
+  } catch {
+    // Not a cursor this server issued
+  }
+  return undefined;
+}
+
+/**
+ * The anchor a cursor carries, to fetch the listing the same way as the
+ * first page did. paginate() still checks that the cursor is valid.
+ */
+export function cursorAnchor(cursor?: string): string | undefined {
+  return cursor ? decodeCursor(cursor)?.anchor : undefined;
+}
+
+/**
+ * Approximate number of tokens an item takes up in the output
+ */
+export function estimateTokens(item: unknown): number {
+  return Math.ceil((JSON.stringify(item) ?? "").length / CHARS_PER_TOKEN);
+}
+
+/**
+ * One page of a listing, starting where the cursor left off. The page ends
+ * at the limit or before the item that would exceed the token budget, but
+ * always has at least one item so every call makes progress.
+ */
+export function paginate<T>(items: T[], options: PageOptions): ApiResponse<Page<T>> {
+  const expected = fingerprint(options.listing, options.query);
+  let offset = 0;
+
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (!cursor) {
+      return { success: false, statusCode: 400, message: `Invalid cursor: ${options.cursor}` };
+    }
+    if (cursor.fingerprint !== expected) {
+      return {
+        success: false,
+        statusCode: 400,
+        message: "The cursor belongs to a listing with different arguments. Repeat the call with the same arguments, or start again without a cursor."
+      };
+    }
+    offset = Math.min(cursor.offset, items.length);
+  }
+
+  let end = options.limit && options.limit > 0 ? Math.min(items.length, offset + options.limit) : items.length;
+  if (options.maxTokens !== undefined) {
+    let tokens = 0;
+    for (let index = offset; index < end; index++) {
+      tokens += estimateTokens(items[index]);
+      if (tokens > options.maxTokens && index > offset) {
+        end = index;
+        break;
+      }
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      items: items.slice(offset, end),
+      total: items.length,
+      offset,
+      next_cursor: end < items.length ? encodeCursor({ offset: end, fingerprint: expected, anchor: options.anchor }) : undefined
+    }
+  };
+}
+
+/**
+ * Which part of the listing a page shows and how to get the next one, as
+ * markdown, or an empty string when the page is the whole listing
+ */
+export function describePage(page: Page<unknown>, noun: string): string {
+  if (page.offset === 0 && !page.next_cursor) {
+    return "";
+  }
+
+  const shown = page.items.length === 0
+    ? `No more ${noun} (${page.total} in total).`
+    : `Showing ${noun} ${page.offset + 1}-${page.offset + page.items.length} of ${page.total}.`;
+  return page.next_cursor
+    ? `${shown} To see more, call again with the same arguments and cursor "${page.next_cursor}".`
+    : `${shown} This is the last page.`;
+}
+
+/**
+ * Position of a page in its listing, for structured content
+ */
+export function pageInfo(page: Page<unknown>) {
+  return { total: page.total, offset: page.offset, next_cursor: page.next_cursor };
+}
+
+/**
+ * Output schema fields of a paginated listing: the position of the page
+ * (as pageInfo returns it) and its items under key
+ */
+export function pageOutputSchema(key: string, item: ZodTypeAny) {
+  return {
+    total: z.number().int().describe("Number of items in the whole listing"),
+    offset: z.number().int().describe("Position of the first item on the page in the listing"),
+    next_cursor: z.string().optional().describe("Cursor for the next page, if there is one"),
+    [key]: z.array(item)
+  };
+}
@@ -0,0 +1,321 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { ConfigItemDomain } from "./api.js";
+import { TARGET_KEYS, getTargetEntityIds, hasIndirectTargets } from "./targets.js";
+
+export type PolicyEffect = "allow" | "deny" | "confirm";
+
+const effectSchema = z.enum(["allow", "deny", "confirm"]);
+
+// A single pattern or a list of patterns
+const patternsSchema = z.union([z.string(), z.array(z.string())])
+  .transform(value => Array.isArray(value) ? value : [value]);
+
+const ruleSchema = z.object({
+  effect: effectSchema,
+  // Service patterns matched against "domain.service", e.g. "lock.unlock", "lock.*", "*.turn_off"
+  services: patternsSchema.optional(),
+  domains: patternsSchema.optional(),
+  // Entity patterns matched against each target, e.g. "lock.front_*"
+  entities: patternsSchema.optional(),
+  instances: patternsSchema.optional(),
+  reason: z.string().optional()
+});
+
+const policyFileSchema = z.object({
+  default: effectSchema.optional().default("allow"),
+  rules: z.array(ruleSchema).optional().default([])
+});
+
+export type PolicyRule = z.infer<typeof ruleSchema>;
+
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  reason?: string;
+  // Index of the rule that decided, undefined when the default applied
+  rule?: number;
+  // The target that led to the decision, if any
+  entityId?: string;
+}
+
+export interface PolicyRequest {
+  instance: string;
+  domain: string;
+  service: string;
+  data?: any;
+  // The service name is a template, so it could be any service
+  templated?: boolean;
+}
+
+/**
+ * A service call an automation, script or scene makes when it runs
+ */
+export interface EmbeddedServiceCall {
+  domain: string;
+  service: string;
+  data: any;
+  templated?: boolean;
+}
+
+export interface ConfigPolicyDecision extends PolicyDecision {
+  // The embedded call that led to the decision, e.g. "lock.unlock"
+  call?: string;
+}
+
+// Order of effects from least to most restrictive
+const SEVERITY: PolicyEffect[] = ["allow", "confirm", "deny"];
+
+// Stands for targets that can't be checked against entity patterns (areas, devices, "all", ...)
+const INDIRECT_TARGET = Symbol("indirect target");
+
+// Services that put an entity into a state a scene stores, by entity domain and state
+const SCENE_STATE_SERVICES: Record<string, Record<string, string>> = {
+  lock: { locked: "lock", unlocked: "unlock", open: "open" },
+  cover: { open: "open_cover", closed: "close_cover" },
+  valve: { open: "open_valve", closed: "close_valve" },
+  alarm_control_panel: {
+    disarmed: "alarm_disarm",
+    armed_home: "alarm_arm_home",
+    armed_away: "alarm_arm_away",
+    armed_night: "alarm_arm_night",
+    armed_vacation: "alarm_arm_vacation",
+    armed_custom_bypass: "alarm_arm_custom_bypass"
+  }
+};
+
+// Policies are read once per file for the lifetime of the process
+const loadedPolicies = new Map<string, ActionPolicy>();
+
+function matchesPattern(pattern: string, value: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+function isTemplate(value: unknown): boolean {
+  return typeof value === "string" && /\{\{|\{%/.test(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesAny(patterns: string[] | undefined, value: string): boolean {
+  return patterns === undefined || patterns.some(pattern => matchesPattern(pattern, value));
+}
+
+/**
+ * Whether an entity pattern could match entities a service of this domain
+ * acts on. homeassistant.* services act on entities of every domain.
+ */
+function couldTargetDomain(pattern: string, domain: string): boolean {
+  const dot = pattern.indexOf('.');
+  return domain === "homeassistant" || dot === -1 || matchesPattern(pattern.slice(0, dot), domain);
+}
+
+/**
+ * Declarative allow/deny/confirm rules for service calls.
+ *
+ * Each target entity of a call is checked against the rules in order and the
+ * first matching rule decides for it (the default effect if none matches).
+ * The most restrictive decision across all targets applies to the call.
+ * Calls that target areas, devices, floors, labels or "all" can't be checked
+ * against entity patterns, so deny and confirm rules with entity patterns
+ * for the service's domain apply to them as well.
+ */
+export class ActionPolicy {
+  readonly defaultEffect: PolicyEffect;
+  readonly rules: PolicyRule[];
+
+  constructor(readonly source: string, definition: unknown) {
+    const parsed = policyFileSchema.safeParse(definition);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid policy in ${source}: ${issues}`);
+    }
+
+    this.defaultEffect = parsed.data.default;
+    this.rules = parsed.data.rules;
+  }
+
+  /**
+   * Whether any call can require confirmation under this policy
+   */
+  get usesConfirmation(): boolean {
+    return this.defaultEffect === "confirm" || this.rules.some(rule => rule.effect === "confirm");
+  }
+
+  /**
+   * Decide whether a service call may run
+   */
+  evaluate(request: PolicyRequest): PolicyDecision {
+    const subjects: Array<string | typeof INDIRECT_TARGET | undefined> = getTargetEntityIds(request.data);
+    if (hasIndirectTargets(request.data)) {
+      subjects.push(INDIRECT_TARGET);
+    }
+    if (subjects.length === 0) {
+      subjects.push(undefined);
+    }
+
+    let decision: PolicyDecision | undefined;
+    for (const subject of subjects) {
+      const candidate = this.decide(request, subject);
+      if (!decision || SEVERITY.indexOf(candidate.effect) > SEVERITY.indexOf(decision.effect)) {
+        decision = candidate;
+      }
+    }
+    return decision!;
+  }
+
+  /**
+   * Decide whether an automation, script or scene may be saved. Saving it
+   * lets it make service calls later, so each call it makes is checked as if
+   * it were made now and the most restrictive decision applies.
+   */
+  evaluateConfig(instance: string, domain: ConfigItemDomain, config: any): ConfigPolicyDecision {
+    let decision: ConfigPolicyDecision = { effect: "allow" };
+    for (const call of embeddedServiceCalls(domain, config)) {
+      const candidate = this.evaluate({ instance, ...call });
+      if (SEVERITY.indexOf(candidate.effect) > SEVERITY.indexOf(decision.effect)) {
+        decision = { ...candidate, call: call.templated ? call.service : `${call.domain}.${call.service}` };
+      }
+    }
+    return decision;
+  }
+
+  private decide(request: PolicyRequest, subject: string | typeof INDIRECT_TARGET | undefined): PolicyDecision {
+    const entityId = typeof subject === "string" ? subject : undefined;
+    const index = this.rules.findIndex(rule => {
+      if (!matchesAny(rule.instances, request.instance)) {
+        return false;
+      }
+      if (request.templated) {
+        // Any deny or confirm rule could be the one for the rendered service,
+        // but an allow rule for some services doesn't cover it
+        if (rule.effect === "allow" && (rule.domains !== undefined || rule.services !== undefined)) {
+          return false;
+        }
+      } else if (!matchesAny(rule.domains, request.domain) ||
+          !matchesAny(rule.services, `${request.domain}.${request.service}`)) {
+        return false;
+      }
+      if (rule.entities === undefined) {
+        return true;
+      }
+      if (subject === INDIRECT_TARGET) {
+        return rule.effect !== "allow" &&
+          rule.entities.some(pattern => request.templated || couldTargetDomain(pattern, request.domain));
+      }
+      return entityId !== undefined && matchesAny(rule.entities, entityId);
+    });
+
+    if (index === -1) {
+      return { effect: this.defaultEffect, entityId };
+    }
+    return { effect: this.rules[index].effect, reason: this.rules[index].reason, rule: index, entityId };
+  }
+}
+
+/**
+ * Load a JSON policy file. Each file is read once; an unreadable or invalid
+ * file throws so the server refuses to start without the intended policy.
+ */
+export function loadPolicy(filePath: string): ActionPolicy {
+  let policy = loadedPolicies.get(filePath);
+  if (!policy) {
+    let definition: unknown;
+    try {
+      definition = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Failed to read policy file ${filePath}: ${error.message}`);
+    }
+
+    policy = new ActionPolicy(filePath, definition);
+    loadedPolicies.set(filePath, policy);
+  }
+  return policy;
+}
+
+/**
+ * Service calls an automation, script or scene makes when it runs: the
+ * actions of an automation or script at any depth (choose, if, repeat,
+ * parallel, ...), scenes and device actions they activate, and the service
+ * that puts each entity of a scene into its stored state. Targets given as
+ * templates could be any entity, so they count as indirect targets.
+ */
+export function embeddedServiceCalls(domain: ConfigItemDomain, config: any): EmbeddedServiceCall[] {
+  const calls: EmbeddedServiceCall[] = [];
+
+  if (domain === "scene") {
+    Object.entries(isPlainObject(config?.entities) ? config.entities : {}).forEach(([entityId, value]) => {
+      const state = isPlainObject(value) ? value.state : value;
+      const entityDomain = entityId.split('.')[0];
+      const service = SCENE_STATE_SERVICES[entityDomain]?.[state] ??
+        (state === "on" ? "turn_on" : state === "off" ? "turn_off" : undefined);
+      calls.push(service
+        ? { domain: entityDomain, service, data: { entity_id: entityId } }
+        : { domain: "scene", service: "apply", data: { entity_id: entityId } });
+    });
+    return calls;
+  }
+
+  collectActionCalls(domain === "automation" ? config?.actions ?? config?.action : config?.sequence, calls);
+  return calls;
+}
+
+function collectActionCalls(node: any, calls: EmbeddedServiceCall[]) {
+  if (Array.isArray(node)) {
+    node.forEach(item => collectActionCalls(item, calls));
+    return;
+  }
+  if (!isPlainObject(node)) {
+    return;
+  }
+
+  const service = node.action ?? node.service;
+  if (typeof service === "string") {
+    calls.push(serviceCall(service, node));
+    return;
+  }
+  if (typeof node.scene === "string") {
+    calls.push({ domain: "scene", service: "turn_on", data: { entity_id: node.scene } });
+    return;
+  }
+  // Device actions; device triggers and conditions have the same keys but don't act
+  if (typeof node.device_id === "string" && typeof node.domain === "string" && typeof node.type === "string" &&
+      node.condition === undefined && node.trigger === undefined && node.platform === undefined) {
+    calls.push({
+      domain: node.domain,
+      service: node.type,
+      data: node.entity_id !== undefined ? { entity_id: node.entity_id } : { device_id: node.device_id }
+    });
+    return;
+  }
+
+  // Nested sequences: choose, if/then/else, repeat, parallel, sequence, default, ...
+  Object.values(node).forEach(value => collectActionCalls(value, calls));
+}
+
+function serviceCall(service: string, node: Record<string, any>): EmbeddedServiceCall {
+  const data: Record<string, any> = {
+    ...(isPlainObject(node.data) ? node.data : {}),
+    ...(isPlainObject(node.data_template) ? node.data_template : {}),
+    ...(isPlainObject(node.target) ? node.target : {})
+  };
+  if (node.entity_id !== undefined) {
+    data.entity_id = node.entity_id;
+  }
+  if (isTemplate(node.target) || TARGET_KEYS.some(key => [].concat(data[key] ?? []).some(isTemplate))) {
+    data.entity_id = "all";
+  }
+
+  if (isTemplate(service)) {
+    return { domain: service, service, data, templated: true };
+  }
+  const dot = service.indexOf('.');
+  return dot === -1
+    ? { domain: service, service: "", data }
+    : { domain: service.slice(0, dot), service: service.slice(dot + 1), data };
+}
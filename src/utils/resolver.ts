@@ -0,0 +1,262 @@
+import type { HomeAssistantClient } from "./client.js";
+import { ApiResponse } from "./api.js";
+
+/**
+ * An entity with everything it can be referred to by
+ */
+export interface IndexedEntity {
+  entity_id: string;
+  domain: string;
+  state: string;
+  friendly_name?: string;
+  aliases: string[];
+  area?: string;
+}
+
+export interface EntityMatch {
+  entity_id: string;
+  friendly_name?: string;
+  state: string;
+  area?: string;
+  // 0 (unrelated) to 1 (exact)
+  score: number;
+}
+
+// Words that hint at a domain when they appear in a query
+const DOMAIN_HINTS: { [word: string]: string } = {
+  light: "light", lights: "light", lamp: "light", lamps: "light", bulb: "light",
+  switch: "switch", plug: "switch", outlet: "switch",
+  thermostat: "climate", heating: "climate", heater: "climate", ac: "climate", climate: "climate",
+  blind: "cover", blinds: "cover", shade: "cover", shades: "cover", curtain: "cover", curtains: "cover", cover: "cover", garage: "cover",
+  tv: "media_player", speaker: "media_player", speakers: "media_player", player: "media_player",
+  fan: "fan", lock: "lock", vacuum: "vacuum", camera: "camera",
+  sensor: "sensor", temperature: "sensor", humidity: "sensor",
+  automation: "automation", scene: "scene", script: "script"
+};
+
+// A match needs at least this score to be suggested
+const SUGGESTION_THRESHOLD = 0.45;
+// A read-only tool uses a match for a missing entity id only if it is this good and this far ahead of the next one
+const CONFIDENT_SCORE = 0.85;
+const CONFIDENT_MARGIN = 0.1;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).split(' ').filter(token => token.length > 0);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two strings from their edit distance, 0 to 1
+ */
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+/**
+ * Share of query tokens found in a name, allowing small typos
+ */
+function tokenCoverage(queryTokens: string[], nameTokens: string[]): number {
+  if (queryTokens.length === 0) {
+    return 0;
+  }
+  const found = queryTokens.filter(token =>
+    nameTokens.some(nameToken => nameToken === token || (token.length > 3 && similarity(token, nameToken) >= 0.75))
+  );
+  return found.length / queryTokens.length;
+}
+
+/**
+ * Score how well an entity matches a query: an entity id guess such as
+ * light.living_room or words such as "living room lamp"
+ */
+export function scoreEntity(entity: IndexedEntity, query: string, domain?: string): number {
+  if (entity.entity_id === query) {
+    return 1;
+  }
+
+  const dot = query.indexOf('.');
+  const queryDomain = dot > 0 && !query.includes(' ') ? query.slice(0, dot) : undefined;
+  const queryName = normalize(queryDomain ? query.slice(dot + 1) : query);
+  const queryTokens = tokenize(queryName);
+
+  // Domain words only hint at the domain, they aren't part of the name
+  const hintedDomains = new Set(queryTokens.map(token => DOMAIN_HINTS[token]).filter(Boolean));
+  if (queryDomain) {
+    hintedDomains.add(queryDomain);
+  }
+  const nameTokens = queryTokens.filter(token => !DOMAIN_HINTS[token]);
+  const meaningfulTokens = nameTokens.length > 0 ? nameTokens : queryTokens;
+
+  const areaTokens = entity.area ? tokenize(entity.area) : [];
+  const names = [entity.entity_id.slice(entity.domain.length + 1), entity.friendly_name, ...entity.aliases]
+    .filter((name): name is string => !!name)
+    .map(normalize);
+
+  let best = 0;
+  names.forEach(name => {
+    const tokens = name.split(' ');
+    const coverage = tokenCoverage(meaningfulTokens, [...tokens, ...areaTokens]);
+    const closeness = Math.max(similarity(queryName, name), similarity(meaningfulTokens.join(' '), name));
+    best = Math.max(best, 0.6 * coverage + 0.4 * closeness);
+  });
+
+  if (hintedDomains.size > 0) {
+    best += hintedDomains.has(entity.domain) ? 0.1 : -0.2;
+  }
+  if (domain && entity.domain !== domain) {
+    best -= 0.3;
+  }
+
+  return Math.max(0, Math.min(best, 0.99));
+}
+
+/**
+ * Load every entity with its friendly name, aliases and area. Registry data
+ * comes over the WebSocket; without it entities are indexed by state only.
+ * Pass the states if they were already fetched.
+ */
+export async function loadEntityIndex(client: HomeAssistantClient, allStates?: any[]): Promise<ApiResponse<IndexedEntity[]>> {
+  const [states, entityRegistry, deviceRegistry, areaRegistry] = await Promise.all([
+    allStates ? Promise.resolve<ApiResponse>({ success: true, data: allStates }) : client.getCachedStates(),
+    client.getEntityRegistry(),
+    client.getDeviceRegistry(),
+    client.getAreaRegistry()
+  ]);
+
+  if (!states.success) {
+    return states;
+  }
+
+  const registryEntries = new Map<string, any>(
+    entityRegistry.success ? entityRegistry.data.map((entry: any) => [entry.entity_id, entry]) : []
+  );
+  const deviceAreas = new Map<string, string | null>(
+    deviceRegistry.success ? deviceRegistry.data.map((device: any) => [device.id, device.area_id]) : []
+  );
+  const areaNames = new Map<string, string>(
+    areaRegistry.success ? areaRegistry.data.map((area: any) => [area.area_id, area.name]) : []
+  );
+
+  const entities = states.data.map((entity: any): IndexedEntity => {
+    const entry = registryEntries.get(entity.entity_id);
+    const areaId = entry?.area_id ?? (entry?.device_id ? deviceAreas.get(entry.device_id) : undefined);
+    return {
+      entity_id: entity.entity_id,
+      domain: entity.entity_id.split('.')[0],
+      state: entity.state,
+      friendly_name: entity.attributes?.friendly_name,
+      aliases: entry?.aliases || [],
+      area: areaId ? areaNames.get(areaId) : undefined
+    };
+  });
+
+  return { success: true, data: entities };
+}
+
+/**
+ * Entities matching a query, best first. A domain ranks entities of other
+ * domains lower rather than excluding them.
+ */
+export function rankEntities(
+  entities: IndexedEntity[],
+  query: string,
+  options: { domain?: string; limit?: number; threshold?: number } = {}
+): EntityMatch[] {
+  const threshold = options.threshold ?? SUGGESTION_THRESHOLD;
+  return entities
+    .map(entity => ({
+      entity_id: entity.entity_id,
+      friendly_name: entity.friendly_name,
+      state: entity.state,
+      area: entity.area,
+      score: scoreEntity(entity, query, options.domain)
+    }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score || a.entity_id.localeCompare(b.entity_id))
+    .slice(0, options.limit ?? 5);
+}
+
+/**
+ * The entity a missing id almost certainly meant, if there is one
+ */
+export function confidentMatch(matches: EntityMatch[]): EntityMatch | undefined {
+  const [first, second] = matches;
+  if (first && first.score >= CONFIDENT_SCORE && (!second || first.score - second.score >= CONFIDENT_MARGIN)) {
+    return first;
+  }
+  return undefined;
+}
+
+/**
+ * Ranked suggestions for an entity that doesn't exist, as markdown lines
+ */
+export function formatSuggestions(query: string, matches: EntityMatch[]): string {
+  if (matches.length === 0) {
+    return `No entity matches '${query}'. Use homeassistant_search_entities to find the right entity ID.`;
+  }
+
+  const lines = [`Entity '${query}' not found. Did you mean:`];
+  matches.forEach(match => {
+    const details = [match.friendly_name, match.area && `area: ${match.area}`, `state: ${match.state}`].filter(Boolean);
+    lines.push(`- ${match.entity_id} (${details.join(', ')}; match ${Math.round(match.score * 100)}%)`);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Make sure every entity id exists. Tools that change state never act on a
+ * guess, so missing ids aren't replaced: the response lists ranked
+ * suggestions for each of them instead and nothing is done.
+ */
+export async function resolveEntityIds(
+  client: HomeAssistantClient,
+  entityIds: string[],
+  domain?: string
+): Promise<ApiResponse<string[]>> {
+  const states = await client.getCachedStates();
+  if (!states.success) {
+    return states;
+  }
+
+  // Entities missing from the cache are checked directly in case it is behind
+  const known = new Set<string>(states.data.map((entity: any) => entity.entity_id));
+  const checks = await Promise.all(entityIds.map(async entityId =>
+    known.has(entityId) || (await client.getHomeAssistantState(entityId)).success
+  ));
+  const missing = entityIds.filter((_, index) => !checks[index]);
+  if (missing.length === 0) {
+    return { success: true, data: entityIds };
+  }
+
+  const index = await loadEntityIndex(client, states.data);
+  if (!index.success) {
+    return { success: false, statusCode: index.statusCode, message: index.message };
+  }
+
+  const failures = missing.map(entityId => formatSuggestions(entityId, rankEntities(index.data!, entityId, { domain })));
+  return {
+    success: false,
+    statusCode: 404,
+    message: `${failures.join('\n\n')}\n\nNothing was changed. Call the tool again with the intended entity ID.`
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Why a request to Home Assistant failed:
+ * - unavailable: Home Assistant is restarting or down (connection refused or reset, HTTP 502/503/504)
+ * - circuit_open: not sent because recent requests kept finding Home Assistant unavailable
+ * - timeout: no response within the request timeout
+ * - unauthorized: the access token was rejected (HTTP 401/403)
+ * - http: any other error response, such as 400 or 404
+ * - network: any other failure to reach Home Assistant
+ */
+export type ApiErrorKind = "unavailable" | "circuit_open" | "timeout" | "unauthorized" | "http" | "network";
+
+export interface RetryOptions {
+  // Retries after the first attempt (0 disables retrying)
+  maxRetries: number;
+  // Delay before the first retry, doubled for each one after it
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive requests Home Assistant didn't answer that open the circuit (0 disables the breaker)
+  failureThreshold: number;
+  // How long an open circuit fails requests before letting one through to test
+  cooldown: number;
+}
+
+// Connection errors that mean Home Assistant isn't listening, typically while it restarts
+const UNAVAILABLE_CODES = ["ECONNREFUSED", "ECONNRESET", "EPIPE"];
+const UNAVAILABLE_STATUSES = [502, 503, 504];
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT"];
+
+/**
+ * A failed request to Home Assistant, with a message tools can show as is
+ */
+export class HomeAssistantApiError extends Error {
+  constructor(
+    public readonly kind: ApiErrorKind,
+    message: string,
+    public readonly statusCode?: number,
+    // Error code of the underlying connection error, e.g. ECONNREFUSED
+    public readonly code?: string,
+    // Body of the error response, if there was one
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = "HomeAssistantApiError";
+  }
+
+  /**
+   * Whether Home Assistant may answer if the request is tried again shortly
+   */
+  get retryable(): boolean {
+    return this.kind === "unavailable" || this.kind === "timeout";
+  }
+
+  /**
+   * Classify an axios error
+   */
+  static from(error: any): HomeAssistantApiError {
+    const status: number | undefined = error.response?.status;
+    const code: string | undefined = error.code;
+
+    if (status !== undefined) {
+      if (UNAVAILABLE_STATUSES.includes(status)) {
+        return new HomeAssistantApiError("unavailable", `Home Assistant is restarting or unavailable (HTTP ${status}). Try again in a moment.`, status, code);
+      }
+      if (status === 401 || status === 403) {
+        return new HomeAssistantApiError("unauthorized", `Home Assistant rejected the access token (HTTP ${status})`, status, code, error.response.data);
+      }
+      return new HomeAssistantApiError("http", error.response.data?.message || error.message, status, code, error.response.data);
+    }
+
+    if (code && UNAVAILABLE_CODES.includes(code)) {
+      return new HomeAssistantApiError("unavailable", `Home Assistant is restarting or unavailable (${code}). Try again in a moment.`, undefined, code);
+    }
+    if ((code && TIMEOUT_CODES.includes(code)) || /timeout/i.test(error.message || '')) {
+      return new HomeAssistantApiError("timeout", `Home Assistant did not respond in time (${error.message})`, undefined, code);
+    }
+    return new HomeAssistantApiError("network", error.message, undefined, code);
+  }
+}
+
+/**
+ * Delay before retry number attempt (0-based): exponential backoff with
+ * jitter, so clients retrying together don't hit Home Assistant at once
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const delay = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Stops requests to an instance that keeps being unavailable, so tools fail
+ * fast while it restarts instead of waiting out every timeout and retry.
+ * After the cooldown a single request is let through; its success closes
+ * the circuit and its failure opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * The error to fail a request with instead of sending it, if the circuit is open
+   */
+  check(): HomeAssistantApiError | undefined {
+    if (this.openedAt === undefined) {
+      return undefined;
+    }
+
+    const remaining = this.openedAt + this.options.cooldown - Date.now();
+    if (remaining <= 0 && !this.probing) {
+      this.probing = true;
+      return undefined;
+    }
+
+    const retryIn = remaining > 0 ? `in ${Math.ceil(remaining / 1000)}s` : "once a test request succeeds";
+    return new HomeAssistantApiError(
+      "circuit_open",
+      `Home Assistant is restarting or unavailable (${this.failures} failed requests in a row). Requests resume ${retryIn}.`
+    );
+  }
+
+  /**
+   * Home Assistant answered, even if with an error response
+   */
+  recordSuccess() {
+    if (this.openedAt !== undefined) {
+      console.error("Home Assistant is reachable again, closing the circuit breaker");
+    }
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.probing = false;
+  }
+
+  /**
+   * Home Assistant didn't answer, or answered that it is unavailable
+   */
+  recordFailure() {
+    this.failures++;
+    if (this.options.failureThreshold <= 0) {
+      return;
+    }
+
+    if (this.probing || (this.openedAt === undefined && this.failures >= this.options.failureThreshold)) {
+      if (!this.probing) {
+        console.error(`Home Assistant unavailable for ${this.failures} requests in a row, pausing requests for ${this.options.cooldown}ms`);
+      }
+      this.openedAt = Date.now();
+      this.probing = false;
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { z } from "zod";
+import type { HomeAssistantClient } from "./client.js";
+import { ApiResponse } from "./api.js";
+import { resolveEntityIds } from "./resolver.js";
+
+// Keys of service data that select targets rather than configure the call
+export const TARGET_KEYS = ["entity_id", "device_id", "area_id", "floor_id", "label_id"];
+
+/**
+ * Entity ids targeted by service data (entity_id as a string, comma-separated list or array)
+ */
+export function getTargetEntityIds(data: any): string[] {
+  const entityIds = data?.entity_id ?? data?.target?.entity_id;
+  if (!entityIds) {
+    return [];
+  }
+
+  const list: string[] = Array.isArray(entityIds) ? entityIds : String(entityIds).split(',');
+  return list.map(id => id.trim()).filter(id => id.length > 0 && id !== 'all');
+}
+
+/**
+ * Whether service data targets something that isn't a list of entity ids:
+ * devices, areas, floors, labels or entity_id "all"
+ */
+export function hasIndirectTargets(data: any): boolean {
+  const sources = [data, data?.target];
+  return sources.some(source =>
+    TARGET_KEYS.some(key => key !== 'entity_id' && source?.[key] !== undefined) ||
+    [].concat(source?.entity_id ?? []).some((id: any) => String(id).split(',').some(part => part.trim() === 'all'))
+  );
+}
+
+/**
+ * Targets a control tool can be pointed at. Each accepts one value, a
+ * comma-separated list or an array.
+ */
+export interface TargetSelection {
+  entity_id?: string | string[];
+  area_id?: string | string[];
+  device_id?: string | string[];
+  floor_id?: string | string[];
+  label_id?: string | string[];
+}
+
+const targetList = z.union([z.string(), z.array(z.string())]).optional();
+
+// Arguments that add area, device, floor and label targets to a tool
+export const targetArguments = {
+  area_id: targetList.describe("Area ID(s) or name(s) whose entities to target"),
+  device_id: targetList.describe("Device ID(s) or name(s) whose entities to target"),
+  floor_id: targetList.describe("Floor ID(s) or name(s) whose entities to target"),
+  label_id: targetList.describe("Label ID(s) or name(s) whose entities (and devices and areas) to target")
+};
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : value.split(','))
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Registry entries matching references by id, or by name ignoring case.
+ * References that match nothing are added to unknown.
+ */
+function matchRegistry(
+  items: any[],
+  references: string[],
+  idKey: string,
+  nameOf: (item: any) => string | undefined,
+  kind: string,
+  unknown: string[]
+): Set<string> {
+  const ids = new Set<string>();
+  references.forEach(reference => {
+    const matches = items.filter(item =>
+      item[idKey] === reference || nameOf(item)?.toLowerCase() === reference.toLowerCase()
+    );
+    if (matches.length === 0) {
+      unknown.push(`${kind} "${reference}"`);
+    }
+    matches.forEach(item => ids.add(item[idKey]));
+  });
+  return ids;
+}
+
+/**
+ * Entity ids from resolveTargets as the entity_id of a service call. Home
+ * Assistant only accepts "all" on its own, not in a list.
+ */
+export function serviceEntityId(entityIds: string[]): string | string[] {
+  return entityIds.length === 1 && entityIds[0] === 'all' ? 'all' : entityIds;
+}
+
+/**
+ * Resolve a target selection to the entity ids it covers, following Home
+ * Assistant's rules: an entity is in an area if it is assigned to it or,
+ * without an area of its own, its device is; floors contain areas; labels
+ * apply to entities, devices and areas. Disabled entities are skipped, and
+ * only entities of domain are kept when given. Entity ids that don't exist
+ * fail with suggestions rather than being guessed.
+ */
+export async function resolveTargets(
+  client: HomeAssistantClient,
+  selection: TargetSelection,
+  domain?: string
+): Promise<ApiResponse<string[]>> {
+  let entityIds = toList(selection.entity_id);
+  const areaRefs = toList(selection.area_id);
+  const deviceRefs = toList(selection.device_id);
+  const floorRefs = toList(selection.floor_id);
+  const labelRefs = toList(selection.label_id);
+
+  // Home Assistant expands "all" to every entity of the service's domain
+  if (entityIds.includes('all')) {
+    return domain
+      ? { success: true, data: ['all'] }
+      : { success: false, message: 'entity_id "all" needs a tool that controls a single domain, such as homeassistant_control_lights' };
+  }
+
+  if (entityIds.length > 0) {
+    const checked = await resolveEntityIds(client, entityIds, domain);
+    if (!checked.success) {
+      return checked;
+    }
+    entityIds = checked.data!;
+  }
+
+  if (areaRefs.length + deviceRefs.length + floorRefs.length + labelRefs.length === 0) {
+    return entityIds.length > 0
+      ? { success: true, data: entityIds }
+      : { success: false, message: "Provide entity_id, area_id, device_id, floor_id or label_id" };
+  }
+
+  const registries: Array<[string, () => Promise<ApiResponse>, boolean]> = [
+    ["entity", () => client.getEntityRegistry(), true],
+    ["device", () => client.getDeviceRegistry(), true],
+    ["area", () => client.getAreaRegistry(), true],
+    ["floor", () => client.getFloorRegistry(), floorRefs.length > 0],
+    ["label", () => client.getLabelRegistry(), labelRefs.length > 0]
+  ];
+  const results = await Promise.all(registries.map(([, load, needed]) => needed ? load() : Promise.resolve<ApiResponse>({ success: true, data: [] })));
+
+  const failed = results.findIndex(result => !result.success);
+  if (failed !== -1) {
+    return { success: false, message: `Failed to load the ${registries[failed][0]} registry: ${results[failed].message}` };
+  }
+  const [entities, devices, areas, floors, labels] = results.map(result => result.data as any[]);
+
+  const unknown: string[] = [];
+  const areaIds = matchRegistry(areas, areaRefs, 'area_id', area => area.name, 'area', unknown);
+  const deviceIds = matchRegistry(devices, deviceRefs, 'id', device => device.name_by_user || device.name, 'device', unknown);
+  const floorIds = matchRegistry(floors, floorRefs, 'floor_id', floor => floor.name, 'floor', unknown);
+  const labelIds = matchRegistry(labels, labelRefs, 'label_id', label => label.name, 'label', unknown);
+
+  if (unknown.length > 0) {
+    return { success: false, message: `Unknown ${unknown.join(', ')}` };
+  }
+
+  const hasLabel = (item: any) => (item.labels || []).some((label: string) => labelIds.has(label));
+  areas
+    .filter(area => floorIds.has(area.floor_id) || hasLabel(area))
+    .forEach(area => areaIds.add(area.area_id));
+  devices
+    .filter(device => hasLabel(device))
+    .forEach(device => deviceIds.add(device.id));
+
+  const deviceAreas = new Map<string, string | null>(devices.map(device => [device.id, device.area_id]));
+  const resolved = new Set(entityIds);
+  entities
+    .filter(entity => !entity.disabled_by && (!domain || entity.entity_id.startsWith(`${domain}.`)))
+    .forEach(entity => {
+      const area = entity.area_id ?? deviceAreas.get(entity.device_id);
+      if (deviceIds.has(entity.device_id) || (area && areaIds.has(area)) || hasLabel(entity)) {
+        resolved.add(entity.entity_id);
+      }
+    });
+
+  if (resolved.size === 0) {
+    return { success: false, message: `No ${domain ? `${domain} ` : ''}entities found in the given targets` };
+  }
+
+  return { success: true, data: Array.from(resolved).sort() };
+}
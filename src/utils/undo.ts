@@ -0,0 +1,61 @@
+/**
+ * State of an entity captured right before a service call changed it
+ */
+export interface EntitySnapshot {
+  instance: string;
+  entity_id: string;
+  state: string;
+  attributes: Record<string, any>;
+}
+
+/**
+ * Prior states captured during one tool call
+ */
+export interface UndoEntry {
+  id: number;
+  timestamp: string;
+  tool: string;
+  snapshots: EntitySnapshot[];
+}
+
+/**
+ * In-memory history of undoable changes for one session, newest last.
+ * Only the most recent entries are kept.
+ */
+export class UndoHistory {
+  private entries: UndoEntry[] = [];
+  private nextId = 1;
+
+  constructor(readonly maxEntries: number = 50) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  record(tool: string, snapshots: EntitySnapshot[]): UndoEntry {
+    const entry = { id: this.nextId++, timestamp: new Date().toISOString(), tool, snapshots };
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+    return entry;
+  }
+
+  /**
+   * The last count entries, newest first, without removing them
+   */
+  peek(count: number): UndoEntry[] {
+    return this.entries.slice(-count).reverse();
+  }
+
+  /**
+   * Remove entries once they have been undone
+   */
+  remove(ids: number[]) {
+    this.entries = this.entries.filter(entry => !ids.includes(entry.id));
+  }
+
+  clear() {
+    this.entries = [];
+  }
+}
@@ -0,0 +1,346 @@
+import WebSocket from "ws";
+
+export interface WebSocketOptions {
+  url: string;
+  token: string;
+  timeout?: number;
+}
+
+type MessageCallback = (message: any) => void;
+
+interface PendingCommand {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface Subscription {
+  message: Record<string, any>;
+  callback: MessageCallback;
+}
+
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Persistent, authenticated connection to the Home Assistant WebSocket API.
+ *
+ * Commands are matched to their results by message id. Subscriptions survive
+ * reconnects: after the connection drops, the client reconnects with backoff
+ * and replays every active subscription with a fresh id.
+ */
+export class HomeAssistantWebSocket {
+  private socket?: WebSocket;
+  // Socket that is still connecting or authenticating
+  private pendingSocket?: WebSocket;
+  private connecting?: Promise<void>;
+  private nextId = 1;
+  private pending = new Map<number, PendingCommand>();
+  // Keyed by the id of the subscribe command currently active on the socket
+  private subscriptions = new Map<number, Subscription>();
+  private reconnectAttempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private closed = false;
+  // Incremented on every successful (re)connect; events may have been missed in between
+  private connections = 0;
+
+  constructor(private options: WebSocketOptions) {}
+
+  /**
+   * WebSocket endpoint derived from the Home Assistant base URL
+   */
+  get endpoint(): string {
+    return `${this.options.url.replace(/\/+$/, '').replace(/^http/, 'ws')}/api/websocket`;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Number of times the connection has been established
+   */
+  get connectionCount(): number {
+    return this.connections;
+  }
+
+  /**
+   * Open the connection and complete the auth handshake (no-op if already connected)
+   */
+  async connect(): Promise<void> {
+    this.closed = false;
+
+    if (this.connected) {
+      return;
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.openSocket().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+
+    return this.connecting;
+  }
+
+  /**
+   * Send a command and wait for its result message
+   */
+  async sendCommand<T = any>(message: Record<string, any>): Promise<T> {
+    await this.connect();
+    return this.send<T>(message);
+  }
+
+  /**
+   * Subscribe to Home Assistant events, optionally filtered by event type.
+   * Returns a function that cancels the subscription.
+   */
+  async subscribeEvents(callback: MessageCallback, eventType?: string): Promise<() => Promise<void>> {
+    const message: Record<string, any> = { type: "subscribe_events" };
+    if (eventType) {
+      message.event_type = eventType;
+    }
+    return this.subscribeMessage(callback, message);
+  }
+
+  /**
+   * Send a subscription command (subscribe_events, subscribe_trigger, ...) and
+   * route every event message it produces to the callback.
+   */
+  async subscribeMessage(callback: MessageCallback, message: Record<string, any>): Promise<() => Promise<void>> {
+    await this.connect();
+
+    const subscription: Subscription = { message, callback };
+    let id = await this.startSubscription(subscription);
+
+    return async () => {
+      // The id changes when the subscription is replayed after a reconnect
+      for (const [currentId, sub] of this.subscriptions.entries()) {
+        if (sub === subscription) {
+          id = currentId;
+        }
+      }
+
+      if (!this.subscriptions.delete(id)) {
+        return;
+      }
+
+      if (this.connected) {
+        try {
+          await this.send({ type: "unsubscribe_events", subscription: id });
+        } catch (error: any) {
+          console.error(`Failed to unsubscribe from ${message.type}: ${error.message}`);
+        }
+      }
+    };
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  close() {
+    this.closed = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    this.subscriptions.clear();
+    this.socket?.close();
+    this.socket = undefined;
+    this.pendingSocket?.terminate();
+    this.pendingSocket = undefined;
+  }
+
+  private async startSubscription(subscription: Subscription): Promise<number> {
+    const id = this.nextId++;
+    this.subscriptions.set(id, subscription);
+
+    try {
+      await this.send(subscription.message, id);
+    } catch (error) {
+      this.subscriptions.delete(id);
+      throw error;
+    }
+
+    return id;
+  }
+
+  private send<T = any>(message: Record<string, any>, id: number = this.nextId++): Promise<T> {
+    const socket = this.socket;
+
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Home Assistant WebSocket is not connected'));
+    }
+
+    const timeout = this.options.timeout ?? 10000;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`WebSocket command ${message.type} timed out after ${timeout}ms`));
+      }, timeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+      socket.send(JSON.stringify({ ...message, id }));
+    });
+  }
+
+  private openSocket(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      console.error(`Connecting to Home Assistant WebSocket: ${this.endpoint}`);
+
+      const timeout = this.options.timeout ?? 10000;
+      const socket = new WebSocket(this.endpoint, { handshakeTimeout: timeout });
+      this.pendingSocket = socket;
+      let authenticated = false;
+      let authTimer: NodeJS.Timeout | undefined;
+
+      const fail = (error: Error) => {
+        clearTimeout(authTimer);
+        if (this.pendingSocket === socket) {
+          this.pendingSocket = undefined;
+        }
+        reject(error);
+      };
+
+      // handshakeTimeout only covers the HTTP upgrade, not a server that never answers the auth
+      socket.on('open', () => {
+        authTimer = setTimeout(() => {
+          socket.terminate();
+          fail(new Error(`Home Assistant WebSocket authentication timed out after ${timeout}ms`));
+        }, timeout);
+      });
+
+      socket.on('message', (raw) => {
+        let message: any;
+        try {
+          message = JSON.parse(raw.toString());
+        } catch (error) {
+          console.error(`Ignoring malformed WebSocket message: ${raw.toString()}`);
+          return;
+        }
+
+        switch (message.type) {
+          case 'auth_required':
+            socket.send(JSON.stringify({ type: "auth", access_token: this.options.token }));
+            break;
+
+          case 'auth_ok':
+            clearTimeout(authTimer);
+            if (this.pendingSocket === socket) {
+              this.pendingSocket = undefined;
+            }
+            // close() was called while this connection was being set up
+            if (this.closed) {
+              socket.close();
+              reject(new Error('Home Assistant WebSocket was closed while connecting'));
+              return;
+            }
+            authenticated = true;
+            this.socket = socket;
+            this.reconnectAttempts = 0;
+            this.connections++;
+            console.error(`Authenticated with Home Assistant WebSocket (HA ${message.ha_version})`);
+            this.resubscribe().finally(resolve);
+            break;
+
+          case 'auth_invalid':
+            this.closed = true;
+            socket.close();
+            fail(new Error(`WebSocket authentication failed: ${message.message || 'invalid token'}`));
+            break;
+
+          default:
+            this.handleMessage(message);
+        }
+      });
+
+      socket.on('error', (error) => {
+        console.error(`Home Assistant WebSocket error: ${error.message}`);
+        if (!authenticated) {
+          fail(error);
+        }
+      });
+
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = undefined;
+        }
+
+        for (const [id, command] of this.pending.entries()) {
+          clearTimeout(command.timer);
+          command.reject(new Error('Home Assistant WebSocket connection closed'));
+          this.pending.delete(id);
+        }
+
+        if (!authenticated) {
+          fail(new Error('Home Assistant WebSocket closed before authentication'));
+          return;
+        }
+
+        if (!this.closed) {
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  private handleMessage(message: any) {
+    if (message.type === 'result') {
+      const command = this.pending.get(message.id);
+      if (!command) {
+        return;
+      }
+
+      clearTimeout(command.timer);
+      this.pending.delete(message.id);
+
+      if (message.success) {
+        command.resolve(message.result);
+      } else {
+        const error = message.error || {};
+        command.reject(new Error(`${error.code || 'unknown_error'}: ${error.message || 'Command failed'}`));
+      }
+    } else if (message.type === 'event') {
+      const subscription = this.subscriptions.get(message.id);
+      if (subscription) {
+        try {
+          subscription.callback(message.event);
+        } catch (error: any) {
+          console.error(`WebSocket subscription handler failed: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  private async resubscribe() {
+    const subscriptions = Array.from(this.subscriptions.values());
+    this.subscriptions.clear();
+
+    for (const subscription of subscriptions) {
+      try {
+        await this.startSubscription(subscription);
+      } catch (error: any) {
+        console.error(`Failed to restore ${subscription.message.type} subscription: ${error.message}`);
+      }
+    }
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+
+    console.error(`Home Assistant WebSocket disconnected, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch((error) => {
+        console.error(`WebSocket reconnect failed: ${error.message}`);
+        if (!this.closed) {
+          this.scheduleReconnect();
+        }
+      });
+    }, delay);
+  }
+}
@@ -0,0 +1,84 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+import { configSchema } from "../dist/server.js";
+import { AuditLog } from "../dist/utils/audit.js";
+import { ActionPolicy } from "../dist/utils/policy.js";
+
+function entry(timestamp, overrides = {}) {
+  return {
+    timestamp,
+    session_id: "a",
+    instance: "default",
+    tool: "homeassistant_entity_action",
+    domain: "light",
+    service: "turn_on",
+    entity_ids: ["light.hall"],
+    service_data: { entity_id: "light.hall" },
+    result: { success: true, status_code: 200 },
+    ...overrides
+  };
+}
+
+test("entries are returned newest first and filtered", async () => {
+  const log = new AuditLog(join(mkdtempSync(join(tmpdir(), "ha-audit-")), "nested", "audit.jsonl"));
+  await log.append(entry("2026-10-01T10:00:00.000Z"));
+  await log.append(entry("2026-10-01T11:00:00.000Z", { session_id: "b", entity_ids: ["light.kitchen"] }));
+  await log.append(entry("2026-10-01T12:00:00.000Z", { tool: "homeassistant_call_service" }));
+
+  assert.deepEqual((await log.query()).entries.map(item => item.timestamp.slice(11, 13)), ["12", "11", "10"]);
+  assert.equal((await log.query({ sessionId: "b" })).total, 1);
+  assert.equal((await log.query({ entityId: "light.hall" })).total, 2);
+  assert.equal((await log.query({ tool: "homeassistant_call_service" })).total, 1);
+  assert.deepEqual((await log.query({ since: "2026-10-01T10:30:00Z", until: "2026-10-01T11:30:00Z" })).entries.map(item => item.session_id), ["b"]);
+});
+
+test("a missing log is empty and a partly written line is skipped", async () => {
+  const directory = mkdtempSync(join(tmpdir(), "ha-audit-"));
+  const log = new AuditLog(join(directory, "audit.jsonl"));
+  assert.deepEqual(await log.query(), { entries: [], total: 0 });
+
+  await log.append(entry("2026-10-01T10:00:00.000Z"));
+  appendFileSync(log.filePath, '{"timestamp": "2026-10-01T11:0');
+  assert.equal((await log.query()).total, 1);
+});
+
+test("the audit log location is a server setting, not session config", () => {
+  assert.equal("auditLogFile" in configSchema.shape, false);
+});
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({ states: [{ entity_id: "light.hall", state: "off" }, { entity_id: "lock.front", state: "locked" }] });
+  session = await connectServer(fake, {
+    settings: { policy: new ActionPolicy("test", { rules: [{ effect: "deny", domains: "lock" }] }) }
+  });
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("service calls made by tools are recorded, including refused ones but not dry runs", async () => {
+  await session.call("homeassistant_entity_action", { entity_id: "light.hall", action: "on" });
+  await session.call("homeassistant_entity_action", { entity_id: "light.hall", action: "off", dry_run: true });
+  await session.call("homeassistant_call_service", { domain: "lock", service: "unlock", data: { entity_id: "lock.front" } });
+
+  const result = await session.call("homeassistant_audit_log", { session_id: "current" });
+  const entries = result.structuredContent.entries;
+
+  assert.equal(entries.length, 2);
+  assert.equal(entries[0].tool, "homeassistant_call_service");
+  assert.deepEqual(entries[0].result, { success: false, status_code: 403, message: "lock.unlock on lock.front is denied by policy" });
+  assert.equal(entries[1].session_id, "test");
+  assert.equal(entries[1].tool, "homeassistant_entity_action");
+  assert.deepEqual(entries[1].entity_ids, ["light.hall"]);
+  assert.equal(entries[1].result.success, true);
+});
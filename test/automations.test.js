@@ -0,0 +1,103 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+const HALL_LIGHTS = {
+  alias: "Hall lights",
+  triggers: [{ trigger: "state", entity_id: "binary_sensor.hall_motion", to: "on" }],
+  actions: [{ action: "light.turn_on", target: { entity_id: "light.hall" } }]
+};
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant();
+  session = await connectServer(fake);
+});
+
+beforeEach(() => {
+  fake.configItems.clear();
+  fake.states.clear();
+  fake.serviceCalls.length = 0;
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("a new automation is validated, saved and reloaded", async () => {
+  const result = await session.call("homeassistant_create_automation", { id: "hall_lights", ...HALL_LIGHTS });
+
+  assert.equal(result.isError, undefined, result.text);
+  assert.deepEqual(fake.configItems.get("automation/hall_lights"), { id: "hall_lights", ...HALL_LIGHTS, conditions: [], mode: "single" });
+  assert.deepEqual(fake.serviceCalls.map(call => `${call.domain}.${call.service}`), ["automation.reload"]);
+  assert.match(result.text, /Created automation 'Hall lights' \(config id: hall_lights\)\nEntity: automation\.hall_lights/);
+});
+
+test("invalid automations and existing ids aren't saved", async () => {
+  const invalid = await session.call("homeassistant_create_automation", {
+    alias: "Broken",
+    triggers: [{ entity_id: "binary_sensor.hall_motion" }],
+    actions: []
+  });
+  assert.equal(invalid.isError, true);
+  assert.match(invalid.text, /triggers\.0: Each trigger needs a 'trigger' \(or legacy 'platform'\) key/);
+  assert.match(invalid.text, /actions: at least one action is required/);
+  assert.equal(fake.configItems.size, 0);
+
+  fake.configItems.set("automation/hall_lights", { id: "hall_lights", ...HALL_LIGHTS });
+  const existing = await session.call("homeassistant_create_automation", { id: "hall_lights", ...HALL_LIGHTS });
+  assert.equal(existing.isError, true);
+  assert.match(existing.text, /already exists/);
+});
+
+test("an automation is read by entity id in the current config format", async () => {
+  // Saved before 2024.10, with the singular keys
+  fake.configItems.set("automation/hall_lights", { id: "hall_lights", alias: "Hall lights", trigger: { platform: "state", entity_id: "binary_sensor.hall_motion" }, action: [{ service: "light.turn_on" }] });
+  await session.call("homeassistant_reload_automations");
+
+  const result = await session.call("homeassistant_get_automation_config", { automation_id: "automation.hall_lights" });
+
+  assert.equal(result.isError, undefined, result.text);
+  const config = JSON.parse(result.text.slice(result.text.indexOf("{")));
+  assert.deepEqual(config.triggers, [{ platform: "state", entity_id: "binary_sensor.hall_motion" }]);
+  assert.deepEqual(config.actions, [{ service: "light.turn_on" }]);
+  assert.equal(config.trigger, undefined);
+});
+
+test("updates only replace the given fields", async () => {
+  fake.configItems.set("automation/hall_lights", { id: "hall_lights", ...HALL_LIGHTS, mode: "single" });
+
+  const result = await session.call("homeassistant_update_automation", { automation_id: "hall_lights", mode: "restart", description: "Motion in the hall" });
+
+  assert.equal(result.isError, undefined, result.text);
+  assert.match(result.text, /Updated automation 'Hall lights' \(description, mode\)/);
+  const saved = fake.configItems.get("automation/hall_lights");
+  assert.equal(saved.mode, "restart");
+  assert.equal(saved.description, "Motion in the hall");
+  assert.deepEqual(saved.triggers, HALL_LIGHTS.triggers);
+
+  const empty = await session.call("homeassistant_update_automation", { automation_id: "hall_lights" });
+  assert.equal(empty.isError, true);
+  assert.match(empty.text, /No changes provided/);
+});
+
+test("deleting needs confirmation and YAML automations can't be changed", async () => {
+  fake.configItems.set("automation/hall_lights", { id: "hall_lights", ...HALL_LIGHTS });
+
+  const unconfirmed = await session.call("homeassistant_delete_automation", { automation_id: "hall_lights", confirm: false });
+  assert.equal(unconfirmed.isError, true);
+  assert.ok(fake.configItems.has("automation/hall_lights"));
+
+  const deleted = await session.call("homeassistant_delete_automation", { automation_id: "hall_lights", confirm: true });
+  assert.equal(deleted.isError, undefined, deleted.text);
+  assert.equal(fake.configItems.has("automation/hall_lights"), false);
+
+  fake.setState("automation.from_yaml", "on", { friendly_name: "From YAML" });
+  const yaml = await session.call("homeassistant_update_automation", { automation_id: "automation.from_yaml", mode: "queued" });
+  assert.equal(yaml.isError, true);
+  assert.match(yaml.text, /has no config id/);
+});
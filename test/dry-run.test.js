@@ -0,0 +1,96 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [{ entity_id: "light.hall", state: "off" }],
+    services: [{ domain: "light", services: { turn_on: { fields: { brightness: {} } } } }]
+  });
+  session = await connectServer(fake, { config: { dryRun: true } });
+});
+
+beforeEach(() => {
+  fake.serviceCalls.length = 0;
+  fake.requests.length = 0;
+  fake.configItems.clear();
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+function writes() {
+  return fake.requests.filter(request => request.method !== "GET" && request.path !== "/api/config/core/check_config");
+}
+
+test("with dryRun set, actions only plan their calls", async () => {
+  const result = await session.call("homeassistant_entity_action", { entity_id: "light.hall", action: "on", brightness: 100 });
+
+  assert.match(result.text, /# Dry Run: homeassistant_entity_action/);
+  assert.match(result.text, /light\.turn_on/);
+  assert.match(result.text, /Data: `\{"brightness":100\}`/);
+  assert.deepEqual(result.structuredContent.requests.map(request => [request.method, request.endpoint]), [["POST", "/api/services/light/turn_on"]]);
+  assert.deepEqual(writes(), []);
+  assert.equal(fake.states.get("light.hall").state, "off");
+});
+
+test("dry_run: false runs the call", async () => {
+  const result = await session.call("homeassistant_entity_action", { entity_id: "light.hall", action: "on", dry_run: false });
+
+  assert.equal(result.isError, undefined, result.text);
+  assert.equal(fake.serviceCalls.length, 1);
+  assert.equal(fake.states.get("light.hall").state, "on");
+  fake.setState("light.hall", "off");
+});
+
+test("a dry run flags services that don't exist and unknown fields", async () => {
+  const result = await session.call("homeassistant_call_service", { domain: "light", service: "turn_on", data: { entity_id: "light.hall", flash: "long" } });
+  assert.match(result.text, /Unknown fields: flash/);
+  assert.deepEqual(result.structuredContent.requests[0].unknown_fields, ["flash"]);
+
+  const missing = await session.call("homeassistant_call_service", { domain: "light", service: "blink", data: { entity_id: "light.hall" } });
+  assert.match(missing.text, /light\.blink does not exist/);
+  assert.equal(missing.structuredContent.requests[0].service_exists, false);
+  assert.deepEqual(writes(), []);
+});
+
+test("saving an automation is planned, but its reads still run", async () => {
+  const result = await session.call("homeassistant_create_automation", {
+    id: "wake_up",
+    alias: "Wake up",
+    triggers: [{ trigger: "time", at: "07:00:00" }],
+    actions: [{ action: "light.turn_on", target: { entity_id: "light.hall" } }]
+  });
+
+  assert.deepEqual(result.structuredContent.requests.map(request => `${request.method} ${request.endpoint}`), [
+    "POST /api/config/automation/config/wake_up",
+    "POST /api/services/automation/reload"
+  ]);
+  assert.ok(fake.requests.some(request => request.method === "GET" && request.path === "/api/config/automation/config/wake_up"));
+  assert.equal(fake.configItems.size, 0);
+  assert.deepEqual(writes(), []);
+});
+
+test("validate_config checks the configuration without calling a service", async () => {
+  const valid = await session.call("homeassistant_validate_config");
+  assert.match(valid.text, /Configuration Check: ✅ valid/);
+  assert.equal(valid.structuredContent.result, "valid");
+
+  fake.rest["POST /api/config/core/check_config"] = () => ({ body: { result: "invalid", errors: "Integration error: foo", warnings: null } });
+  try {
+    const invalid = await session.call("homeassistant_validate_config");
+    assert.match(invalid.text, /Integration error: foo/);
+    assert.deepEqual(invalid.structuredContent.errors, ["Integration error: foo"]);
+  } finally {
+    delete fake.rest["POST /api/config/core/check_config"];
+  }
+
+  assert.equal(fake.serviceCalls.length, 0);
+  assert.ok(fake.requests.some(request => request.path === "/api/config/core/check_config"));
+});
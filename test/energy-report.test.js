@@ -0,0 +1,117 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+const HOUR = 60 * 60 * 1000;
+
+// One kWh imported from the grid every hour, and 0.5 kWh by the washer
+function hourlyRows(message) {
+  const start = Math.ceil(Date.parse(message.start_time) / HOUR) * HOUR;
+  const end = message.end_time ? Date.parse(message.end_time) : Date.now();
+  const rows = { "sensor.grid_import": [], "sensor.washer": [] };
+  for (let hour = start; hour + HOUR <= end; hour += HOUR) {
+    rows["sensor.grid_import"].push({ start: hour, end: hour + HOUR, change: 1 });
+    rows["sensor.washer"].push({ start: hour, end: hour + HOUR, change: 0.5 });
+  }
+  return rows;
+}
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    config: { time_zone: "UTC" },
+    commands: {
+      "energy/get_prefs": () => ({
+        energy_sources: [{ type: "grid", flow_from: [{ stat_energy_from: "sensor.grid_import" }], flow_to: [] }],
+        device_consumption: [{ stat_consumption: "sensor.washer", name: "Washer" }]
+      }),
+      "energy/info": () => ({ cost_sensors: {} }),
+      "recorder/get_statistics_metadata": () => [],
+      "recorder/statistics_during_period": message => {
+        assert.equal(message.period, "hour");
+        return hourlyRows(message);
+      }
+    }
+  });
+  session = await connectServer(fake, { config: { toolGroups: ["history"] } });
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("a past month covers its calendar days and is compared with the whole month before", async () => {
+  const result = await session.call("homeassistant_energy_report", { period: "month", periods_ago: 1 });
+  assert.equal(result.isError, undefined);
+
+  const now = new Date();
+  const lastMonthDays = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0)).getUTCDate();
+  const monthBeforeDays = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 0)).getUTCDate();
+  const data = result.structuredContent;
+  assert.equal(data.start, new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString());
+  assert.equal(data.end, new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString());
+  assert.equal(data.current.consumption, lastMonthDays * 24);
+  assert.equal(data.previous.consumption, monthBeforeDays * 24);
+  assert.equal(data.current.devices[0].name, "Washer");
+  assert.equal(data.current.devices[0].share, 0.5);
+});
+
+test("yesterday is a calendar day, not the last 24 hours", async () => {
+  const result = await session.call("homeassistant_energy_report", { period: "day", periods_ago: 1 });
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  assert.equal(result.structuredContent.start, new Date(today.getTime() - 24 * HOUR).toISOString());
+  assert.equal(result.structuredContent.end, today.toISOString());
+  assert.equal(result.structuredContent.current.consumption, 24);
+  assert.equal(result.structuredContent.previous.consumption, 24);
+});
+
+test("the current period is compared with the same time into the previous one", async () => {
+  const result = await session.call("homeassistant_energy_report", { period: "week" });
+  const data = result.structuredContent;
+  if (result.isError) {
+    // Nothing recorded yet in the first hour of the week
+    assert.match(result.text, /No energy statistics recorded for this week/);
+    return;
+  }
+
+  const elapsed = Date.parse(data.end) - Date.parse(data.start);
+  assert.equal(data.in_progress, true);
+  assert.equal(Date.parse(data.previous.end) - Date.parse(data.previous.start), elapsed);
+  assert.equal(data.current.consumption, elapsed / HOUR);
+  assert.equal(data.previous.consumption, elapsed / HOUR);
+});
+
+test("day, week and month comparisons are reported together", async () => {
+  const result = await session.call("homeassistant_energy_report", { period: "day", periods_ago: 1 });
+  const { comparisons } = result.structuredContent;
+
+  assert.deepEqual(Object.keys(comparisons), ["day", "week", "month"]);
+  assert.equal(comparisons.day.consumption, 24);
+  assert.equal(comparisons.day.consumption_change, 0);
+  for (const unit of ["week", "month"]) {
+    const window = comparisons[unit];
+    assert.equal(window.end, result.structuredContent.end);
+    assert.equal(window.consumption, (Date.parse(window.end) - Date.parse(window.start)) / HOUR);
+  }
+  assert.match(result.text, /## Day, Week and Month/);
+});
+
+test("the report explains when the energy dashboard isn't configured", async () => {
+  const original = fake.wsCommands["energy/get_prefs"];
+  fake.wsCommands["energy/get_prefs"] = () => {
+    throw Object.assign(new Error("No prefs"), { code: "not_found" });
+  };
+  try {
+    const result = await session.call("homeassistant_energy_report", {});
+    assert.equal(result.isError, true);
+    assert.match(result.text, /energy dashboard isn't configured/);
+  } finally {
+    fake.wsCommands["energy/get_prefs"] = original;
+  }
+});
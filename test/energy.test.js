@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  energyStatisticIds,
+  energyTotals,
+  energyWindow,
+  periodStart,
+  shiftPeriod,
+  untrackedConsumption
+} from "../dist/utils/energy.js";
+
+const BERLIN = "Europe/Berlin";
+const at = iso => Date.parse(iso);
+
+test("periods start at local midnight, weeks on Monday", () => {
+  const monday = at("2026-10-19T12:30:00Z");
+  assert.equal(periodStart("day", monday, BERLIN), at("2026-10-18T22:00:00Z"));
+  assert.equal(periodStart("week", at("2026-10-25T10:00:00Z"), BERLIN), at("2026-10-18T22:00:00Z"));
+  assert.equal(periodStart("month", monday, BERLIN), at("2026-09-30T22:00:00Z"));
+  assert.equal(periodStart("week", at("2026-10-18T23:30:00Z"), "America/New_York"), at("2026-10-12T04:00:00Z"));
+});
+
+test("shifting follows the calendar across DST changes and month lengths", () => {
+  // Clocks go back on 25 October 2026, so that day has 25 hours
+  const dstDay = periodStart("day", at("2026-10-25T12:00:00Z"), BERLIN);
+  assert.equal(shiftPeriod("day", dstDay, 1, BERLIN) - dstDay, 25 * 60 * 60 * 1000);
+  assert.equal(shiftPeriod("month", at("2026-09-30T22:00:00Z"), -8, BERLIN), at("2026-01-31T23:00:00Z"));
+  assert.equal(shiftPeriod("week", at("2026-10-18T22:00:00Z"), 1, BERLIN), at("2026-10-25T23:00:00Z"));
+});
+
+test("a complete period is compared with the whole previous one", () => {
+  const march = periodStart("month", at("2026-03-05T00:00:00Z"), BERLIN);
+  const window = energyWindow("month", march, shiftPeriod("month", march, 1, BERLIN), BERLIN);
+  assert.deepEqual(window.previous, { start: at("2026-01-31T23:00:00Z"), end: march });
+});
+
+test("a period in progress is compared with the same time into the previous one", () => {
+  const october = periodStart("month", at("2026-10-19T12:00:00Z"), BERLIN);
+  const window = energyWindow("month", october, at("2026-10-19T12:00:00Z"), BERLIN);
+  assert.equal(window.previous.start, at("2026-08-31T22:00:00Z"));
+  assert.equal(window.previous.end - window.previous.start, window.end - window.start);
+});
+
+test("totals combine grid, solar and battery flows", () => {
+  const ids = energyStatisticIds({
+    energy_sources: [
+      { type: "grid", flow_from: [{ stat_energy_from: "sensor.import", stat_cost: null }], flow_to: [{ stat_energy_to: "sensor.export" }] },
+      { type: "solar", stat_energy_from: "sensor.solar" },
+      { type: "battery", stat_energy_from: "sensor.discharge", stat_energy_to: "sensor.charge" }
+    ],
+    device_consumption: [{ stat_consumption: "sensor.oven" }, { stat_consumption: "sensor.fridge" }]
+  }, { "sensor.import": "sensor.import_cost" });
+
+  assert.deepEqual(ids.grid_cost, ["sensor.import_cost"]);
+
+  const totals = energyTotals(ids, new Map([
+    ["sensor.import", 10], ["sensor.export", 4], ["sensor.solar", 8],
+    ["sensor.discharge", 2], ["sensor.charge", 1],
+    ["sensor.import_cost", 3], ["sensor.oven", 6], ["sensor.fridge", 3]
+  ]));
+
+  assert.equal(totals.consumption, 15);
+  assert.equal(totals.self_sufficiency, 1 - 10 / 15);
+  assert.equal(totals.solar_self_consumption, 0.5);
+  assert.equal(totals.cost.total, 3);
+  assert.deepEqual(totals.devices.map(device => device.statistic_id), ["sensor.oven", "sensor.fridge"]);
+  assert.equal(untrackedConsumption(totals), 6);
+});
@@ -0,0 +1,88 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+import { configSchema } from "../dist/server.js";
+import { FavoritesStore } from "../dist/utils/favorites.js";
+
+const INSTANCE = "http://homeassistant.local:8123";
+
+function storePath() {
+  return join(mkdtempSync(join(tmpdir(), "ha-favorites-")), "favorites.json");
+}
+
+test("favorites are kept per instance and in named groups", async () => {
+  const store = new FavoritesStore(storePath());
+  await store.add(INSTANCE, "light.bedroom", { group: "bedtime" });
+  await store.add(INSTANCE, "light.bedroom", { alias: "bed light", group: "lights" });
+  await store.add(INSTANCE, "lock.front", { group: "bedtime" });
+  await store.add("http://other:8123", "light.hall");
+
+  assert.deepEqual((await store.list(INSTANCE)).map(favorite => favorite.entity_id), ["light.bedroom", "lock.front"]);
+  assert.deepEqual(await store.groups(INSTANCE), { bedtime: 2, lights: 1 });
+  assert.equal((await store.list(INSTANCE, "lights"))[0].alias, "bed light");
+
+  assert.equal(await store.remove(INSTANCE, "lock.front", "lights"), false);
+  assert.equal(await store.remove(INSTANCE, "lock.front", "bedtime"), true);
+  assert.equal(await store.clear(INSTANCE, "bedtime"), 1);
+  assert.deepEqual(await store.groups(INSTANCE), { lights: 1 });
+  assert.equal((await store.list(INSTANCE)).length, 2);
+  assert.equal((await store.list("http://other:8123")).length, 1);
+});
+
+test("concurrent writes from stores on the same file are all kept", async () => {
+  const filePath = storePath();
+  const stores = [new FavoritesStore(filePath), new FavoritesStore(filePath)];
+  await Promise.all(Array.from({ length: 10 }, (_, index) => stores[index % 2].add(INSTANCE, `light.l${index}`)));
+
+  assert.equal((await new FavoritesStore(filePath).list(INSTANCE)).length, 10);
+  assert.equal(JSON.parse(readFileSync(filePath, "utf8")).version, 1);
+});
+
+test("the favorites file is a server setting, not session config", () => {
+  assert.equal("favoritesFile" in configSchema.shape, false);
+});
+
+let fake;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [
+      { entity_id: "light.bedroom", state: "on", attributes: { friendly_name: "Bedroom" } },
+      { entity_id: "light.hall", state: "on" }
+    ]
+  });
+});
+
+after(async () => {
+  await fake.close();
+});
+
+test("favorites are shared by sessions and groups can be acted on", async () => {
+  const favorites = new FavoritesStore(storePath());
+  const first = await connectServer(fake, { settings: { favorites } });
+  const second = await connectServer(fake, { settings: { favorites } });
+  try {
+    const missing = await first.call("homeassistant_manage_favorites", { operation: "add", entity_id: "light.nowhere" });
+    assert.equal(missing.isError, true);
+
+    await first.call("homeassistant_manage_favorites", { operation: "add", entity_id: "light.bedroom", group: "bedtime" });
+    await first.call("homeassistant_manage_favorites", { operation: "add", entity_id: "light.hall" });
+
+    const listed = await second.call("homeassistant_manage_favorites", { operation: "list", group: "bedtime" });
+    assert.deepEqual(listed.structuredContent.favorites.map(favorite => [favorite.entity_id, favorite.state, favorite.friendly_name]), [
+      ["light.bedroom", "on", "Bedroom"]
+    ]);
+
+    const result = await second.call("homeassistant_favorite_actions", { action: "turn_off_all", group: "bedtime" });
+    assert.equal(result.structuredContent.successful, 1);
+    assert.deepEqual(fake.serviceCalls.map(call => [`${call.domain}.${call.service}`, call.data.entity_id]), [["light.turn_off", "light.bedroom"]]);
+    assert.equal(fake.states.get("light.hall").state, "on");
+  } finally {
+    await first.close();
+    await second.close();
+  }
+});
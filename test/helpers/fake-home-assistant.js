@@ -0,0 +1,231 @@
+import { createServer } from "http";
+import { WebSocketServer } from "ws";
+
+export const TOKEN = "test-token";
+
+/**
+ * A minimal Home Assistant for tests: the REST endpoints the tools use and
+ * the WebSocket API with its auth handshake. Every request and service call
+ * is recorded. Override any REST endpoint with rest["METHOD /path"] and any
+ * WebSocket command with commands[type]; a handler returns the response
+ * ({ status, body } for REST, the result for WebSocket) or throws a
+ * { code, message } error.
+ */
+export async function startFakeHomeAssistant(options = {}) {
+  const fake = {
+    states: new Map((options.states || []).map(state => [state.entity_id, withDefaults(state)])),
+    services: options.services || [],
+    // UI-managed automations, scripts and scenes by "domain/config id"
+    configItems: new Map(),
+    config: { version: "2026.10.0", time_zone: "UTC", currency: "EUR", components: [], ...options.config },
+    requests: [],
+    serviceCalls: [],
+    commands: [],
+    rest: options.rest || {},
+    wsCommands: options.commands || {},
+    sockets: new Set(),
+    // While true, state changes aren't sent to subscribers (like events that are late)
+    pauseEvents: false
+  };
+
+  const server = createServer(async (req, res) => {
+    const body = await readBody(req);
+    const url = new URL(req.url, "http://localhost");
+    fake.requests.push({ method: req.method, path: url.pathname, query: Object.fromEntries(url.searchParams), body });
+
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      return send(res, 401, { message: "Unauthorized" });
+    }
+
+    const override = fake.rest[`${req.method} ${url.pathname}`];
+    if (override) {
+      const response = await override(body, url);
+      return send(res, response.status ?? 200, response.body);
+    }
+
+    const response = handleRest(fake, req.method, url.pathname, body);
+    send(res, response.status ?? 200, response.body);
+  });
+
+  const wss = new WebSocketServer({ server, path: "/api/websocket" });
+  wss.on("connection", socket => {
+    fake.sockets.add(socket);
+    socket.subscriptions = new Set();
+    socket.on("close", () => fake.sockets.delete(socket));
+    if (options.silentAuth) {
+      return;
+    }
+    socket.send(JSON.stringify({ type: "auth_required", ha_version: fake.config.version }));
+    socket.on("message", async raw => {
+      const message = JSON.parse(raw.toString());
+      if (message.type === "auth") {
+        socket.send(JSON.stringify(message.access_token === TOKEN ? { type: "auth_ok" } : { type: "auth_invalid", message: "Invalid access token" }));
+        return;
+      }
+
+      fake.commands.push(message);
+      const reply = (payload) => socket.send(JSON.stringify({ id: message.id, type: "result", ...payload }));
+      const handler = fake.wsCommands[message.type];
+      try {
+        if (handler) {
+          reply({ success: true, result: await handler(message) });
+        } else if (message.type === "subscribe_events") {
+          socket.subscriptions.add(message.id);
+          reply({ success: true, result: null });
+        } else if (message.type === "unsubscribe_events") {
+          socket.subscriptions.delete(message.subscription);
+          reply({ success: true, result: null });
+        } else if (message.type === "get_states") {
+          reply({ success: true, result: Array.from(fake.states.values()) });
+        } else if (message.type.endsWith("/list")) {
+          reply({ success: true, result: [] });
+        } else {
+          reply({ success: false, error: { code: "unknown_command", message: "Unknown command." } });
+        }
+      } catch (error) {
+        reply({ success: false, error: { code: error.code || "unknown_error", message: error.message } });
+      }
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+  fake.url = `http://127.0.0.1:${server.address().port}`;
+  fake.token = TOKEN;
+
+  /**
+   * Change an entity's state and tell subscribed clients about it
+   */
+  fake.setState = (entityId, state, attributes) => {
+    const oldState = fake.states.get(entityId);
+    const newState = withDefaults({ entity_id: entityId, state, attributes: attributes ?? oldState?.attributes });
+    fake.states.set(entityId, newState);
+    if (fake.pauseEvents) {
+      return;
+    }
+    fake.sockets.forEach(socket => socket.subscriptions.forEach(id => socket.send(JSON.stringify({
+      id,
+      type: "event",
+      event: { event_type: "state_changed", data: { entity_id: entityId, old_state: oldState, new_state: newState } }
+    }))));
+  };
+
+  fake.close = async () => {
+    fake.sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => wss.close(resolve));
+    await new Promise(resolve => server.close(resolve));
+  };
+
+  return fake;
+}
+
+function handleRest(fake, method, path, body) {
+  if (method === "GET" && path === "/api/") {
+    return { body: { message: "API running." } };
+  }
+  if (method === "GET" && path === "/api/states") {
+    return { body: Array.from(fake.states.values()) };
+  }
+  if (method === "GET" && path.startsWith("/api/states/")) {
+    const state = fake.states.get(decodeURIComponent(path.slice("/api/states/".length)));
+    return state ? { body: state } : { status: 404, body: { message: "Entity not found." } };
+  }
+  if (method === "GET" && path === "/api/services") {
+    return { body: fake.services };
+  }
+  if (method === "GET" && path === "/api/config") {
+    return { body: fake.config };
+  }
+  if (method === "POST" && path === "/api/config/core/check_config") {
+    return { body: { result: "valid", errors: null, warnings: null } };
+  }
+
+  const service = path.match(/^\/api\/services\/([^/]+)\/([^/]+)$/);
+  if (method === "POST" && service) {
+    const [, domain, name] = service;
+    fake.serviceCalls.push({ domain, service: name, data: body });
+    if (name === "reload" && ["automation", "script", "scene"].includes(domain)) {
+      reloadConfigItems(fake, domain);
+      return { body: [] };
+    }
+    const entityIds = [].concat(body?.entity_id ?? body?.target?.entity_id ?? []);
+    const changed = [];
+    entityIds.forEach(entityId => {
+      const current = fake.states.get(entityId);
+      const state = name === "turn_on" ? "on" : name === "turn_off" ? "off" : name === "toggle" ? (current?.state === "on" ? "off" : "on") : undefined;
+      if (current && state) {
+        fake.setState(entityId, state);
+        changed.push(fake.states.get(entityId));
+      }
+    });
+    return { body: changed };
+  }
+
+  const configItem = path.match(/^\/api\/config\/(automation|script|scene)\/config\/([^/]+)$/);
+  if (configItem) {
+    const key = `${configItem[1]}/${decodeURIComponent(configItem[2])}`;
+    if (method === "GET") {
+      return fake.configItems.has(key) ? { body: fake.configItems.get(key) } : { status: 404, body: { message: "Resource not found" } };
+    }
+    if (method === "POST") {
+      fake.configItems.set(key, body);
+      return { body: { result: "ok" } };
+    }
+    if (method === "DELETE") {
+      fake.configItems.delete(key);
+      return { body: { result: "ok" } };
+    }
+  }
+
+  return { status: 404, body: { message: "Not found" } };
+}
+
+/**
+ * Give every config item of a domain an entity, like Home Assistant does on
+ * reload: automations and scenes are named after their alias or name,
+ * scripts after their config id. Entities of removed items go away.
+ */
+function reloadConfigItems(fake, domain) {
+  fake.states.forEach((state, entityId) => {
+    if (entityId.startsWith(`${domain}.`) && state.attributes.id !== undefined && !fake.configItems.has(`${domain}/${state.attributes.id}`)) {
+      fake.states.delete(entityId);
+    }
+  });
+  fake.configItems.forEach((config, key) => {
+    const [itemDomain, id] = key.split("/");
+    if (itemDomain !== domain) {
+      return;
+    }
+    const name = config.alias ?? config.name ?? id;
+    const objectId = domain === "script" ? id : name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+    const current = fake.states.get(`${domain}.${objectId}`);
+    fake.states.set(`${domain}.${objectId}`, withDefaults({
+      entity_id: `${domain}.${objectId}`,
+      state: current?.state ?? (domain === "automation" ? "on" : domain === "script" ? "off" : "unknown"),
+      attributes: { id, friendly_name: name }
+    }));
+  });
+}
+
+function withDefaults(state) {
+  const now = new Date().toISOString();
+  return { attributes: {}, last_changed: now, last_updated: now, context: { id: "test" }, ...state };
+}
+
+function readBody(req) {
+  return new Promise(resolve => {
+    let data = "";
+    req.on("data", chunk => data += chunk);
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : undefined);
+      } catch {
+        resolve(data);
+      }
+    });
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
@@ -0,0 +1,48 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { configSchema, createMcpServer } from "../../dist/server.js";
+import { AuditLog } from "../../dist/utils/audit.js";
+import { FavoritesStore } from "../../dist/utils/favorites.js";
+
+/**
+ * Connect an MCP client to a server for a fake Home Assistant. Session
+ * config and server settings override the defaults; the audit log and
+ * favorites go to a fresh temporary directory.
+ */
+export async function connectServer(fake, { config = {}, settings = {} } = {}) {
+  const directory = mkdtempSync(join(tmpdir(), "ha-mcp-test-"));
+  const server = createMcpServer({
+    sessionId: "test",
+    config: configSchema.parse({ homeAssistantUrl: fake.url, homeAssistantToken: fake.token, maxRetries: 0, ...config }),
+    settings: {
+      audit: new AuditLog(join(directory, "audit.jsonl")),
+      favorites: new FavoritesStore(join(directory, "favorites.json")),
+      ...settings
+    }
+  });
+
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return {
+    client,
+    server,
+    directory,
+    /**
+     * Call a tool; the result has its text joined for assertions
+     */
+    async call(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      return { ...result, text: (result.content || []).map(item => item.text).join("\n") };
+    },
+    async close() {
+      await client.close();
+      await server.close();
+    }
+  };
+}
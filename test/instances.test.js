@@ -0,0 +1,86 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+let home;
+let lab;
+let session;
+
+before(async () => {
+  home = await startFakeHomeAssistant({ config: { location_name: "Home" } });
+  lab = await startFakeHomeAssistant({ config: { location_name: "Lab", version: "2026.11.0b0" } });
+  session = await connectServer(home, {
+    config: { instanceName: "home", instances: [{ name: "lab", url: lab.url, token: lab.token }] }
+  });
+});
+
+beforeEach(() => {
+  for (const fake of [home, lab]) {
+    fake.states.clear();
+    fake.serviceCalls.length = 0;
+  }
+  home.setState("light.hall", "on");
+  home.setState("light.porch", "off");
+  home.setState("switch.fan", "on");
+  lab.setState("light.hall", "off");
+  lab.setState("light.porch", "off");
+  lab.setState("light.desk", "on");
+});
+
+after(async () => {
+  await session.close();
+  await home.close();
+  await lab.close();
+});
+
+test("a tool call goes to the instance named by its instance argument", async () => {
+  const primary = await session.call("homeassistant_get_entity_state", { entity_id: "light.hall" });
+  const other = await session.call("homeassistant_get_entity_state", { entity_id: "light.hall", instance: "lab" });
+
+  assert.match(primary.text, /"state": "on"/);
+  assert.match(other.text, /"state": "off"/);
+
+  await session.call("homeassistant_call_service", { domain: "light", service: "turn_on", data: { entity_id: "light.desk" }, instance: "lab" });
+  assert.equal(home.serviceCalls.length, 0);
+  assert.deepEqual(lab.serviceCalls.map(call => call.data.entity_id), ["light.desk"]);
+});
+
+test("an unknown instance is an error that lists the configured ones", async () => {
+  const result = await session.call("homeassistant_get_entity_state", { entity_id: "light.hall", instance: "cabin" });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /Unknown Home Assistant instance "cabin"\. Available instances: home, lab/);
+});
+
+test("the instances are listed with their status", async () => {
+  const result = await session.call("homeassistant_list_instances");
+
+  assert.match(result.text, /## home \(default\)\n- \*\*URL\*\*: http:\/\/127\.0\.0\.1:\d+\n- \*\*Status\*\*: ✅ online\n- \*\*Version\*\*: 2026\.10\.0\n- \*\*Location\*\*: Home/);
+  assert.match(result.text, /## lab\n.*\n.*\n- \*\*Version\*\*: 2026\.11\.0b0\n- \*\*Location\*\*: Lab/);
+});
+
+test("entities are compared across instances", async () => {
+  const result = await session.call("homeassistant_compare_entities", { domain: "light" });
+
+  assert.match(result.text, /# Entity Comparison: home vs lab/);
+  assert.match(result.text, /- \*\*Entities compared\*\*: 3\n- \*\*Differing\*\*: 2\n- \*\*Missing on at least one instance\*\*: 1/);
+  assert.match(result.text, /\| light\.desk \| — \| on \| ⚠️ \|\n\| light\.hall \| on \| off \| ⚠️ \|\n\| light\.porch \| off \| off \| ✅ \|/);
+  assert.doesNotMatch(result.text, /switch\.fan/);
+
+  const differences = await session.call("homeassistant_compare_entities", { entity_ids: ["light.porch", "switch.fan"], only_differences: true });
+  assert.match(differences.text, /\| switch\.fan \| on \| — \| ⚠️ \|/);
+  assert.doesNotMatch(differences.text, /light\.porch \|/);
+});
+
+test("a comparison needs two known instances and something to compare", async () => {
+  const unknown = await session.call("homeassistant_compare_entities", { domain: "light", instances: ["home", "cabin"] });
+  assert.equal(unknown.isError, true);
+  assert.match(unknown.text, /Unknown instances: cabin\. Available instances: home, lab/);
+
+  const single = await session.call("homeassistant_compare_entities", { domain: "light", instances: ["home"] });
+  assert.match(single.text, /At least two instances are needed/);
+
+  const nothing = await session.call("homeassistant_compare_entities", {});
+  assert.match(nothing.text, /Provide entity_ids or a domain/);
+});
@@ -0,0 +1,68 @@
+/**
+ * Smoke test against a real Home Assistant instance. It only reads, and is
+ * skipped unless HOMEASSISTANT_URL and HOMEASSISTANT_TOKEN (or the
+ * HOME_ASSISTANT_* names from .env) are set.
+ */
+
+import { describe, test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import dotenv from "dotenv";
+import { HomeAssistantClient } from "../dist/utils/client.js";
+import { connectServer } from "./helpers/mcp.js";
+
+// Load environment variables
+dotenv.config();
+
+const url = process.env.HOMEASSISTANT_URL || process.env.HOME_ASSISTANT_URL;
+const token = process.env.HOMEASSISTANT_TOKEN || process.env.HOME_ASSISTANT_TOKEN;
+const skip = url && token ? false : "set HOMEASSISTANT_URL and HOMEASSISTANT_TOKEN to test against a live instance";
+
+describe("live Home Assistant", { skip }, () => {
+  let client;
+
+  before(() => {
+    client = new HomeAssistantClient({ instances: [{ name: "default", url, token }] });
+  });
+
+  after(() => {
+    client.close();
+  });
+
+  test("the API is reachable", async () => {
+    const result = await client.getHomeAssistantApi();
+    assert.equal(result.success, true, result.message);
+  });
+
+  test("configuration and entities can be read", async (t) => {
+    const config = await client.getConfig();
+    assert.equal(config.success, true, config.message);
+    t.diagnostic(`Home Assistant ${config.data.version} at ${config.data.location_name}`);
+
+    const states = await client.getAllStates();
+    assert.equal(states.success, true, states.message);
+    assert.ok(Array.isArray(states.data));
+    t.diagnostic(`${states.data.length} entities`);
+
+    const entity = states.data.find(state => /^(light|sensor|switch)\./.test(state.entity_id));
+    if (entity) {
+      const state = await client.getHomeAssistantState(entity.entity_id);
+      assert.equal(state.success, true, state.message);
+      assert.equal(state.data.entity_id, entity.entity_id);
+    }
+  });
+
+  test("the WebSocket API authenticates", async () => {
+    const areas = await client.getAreaRegistry();
+    assert.equal(areas.success, true, areas.message);
+  });
+
+  test("the MCP server answers tool calls", async () => {
+    const session = await connectServer({ url, token });
+    try {
+      const result = await session.call("homeassistant_api_status");
+      assert.equal(result.isError, undefined, result.text);
+    } finally {
+      await session.close();
+    }
+  });
+});
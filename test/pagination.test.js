@@ -0,0 +1,86 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+import { cursorAnchor, describePage, paginate } from "../dist/utils/pagination.js";
+
+const ITEMS = Array.from({ length: 7 }, (_, index) => ({ id: index, name: `item ${index}` }));
+
+test("pages follow each other through their cursors", () => {
+  const first = paginate(ITEMS, { listing: "test", limit: 3 }).data;
+  assert.deepEqual(first.items.map(item => item.id), [0, 1, 2]);
+  assert.equal(first.total, 7);
+  assert.equal(first.offset, 0);
+
+  const second = paginate(ITEMS, { listing: "test", limit: 3, cursor: first.next_cursor }).data;
+  const third = paginate(ITEMS, { listing: "test", limit: 3, cursor: second.next_cursor }).data;
+  assert.deepEqual(second.items.map(item => item.id), [3, 4, 5]);
+  assert.deepEqual(third.items.map(item => item.id), [6]);
+  assert.equal(third.next_cursor, undefined);
+  assert.equal(describePage(third, "items"), "Showing items 7-7 of 7. This is the last page.");
+});
+
+test("a limit of 0 returns everything on one page", () => {
+  const page = paginate(ITEMS, { listing: "test", limit: 0 }).data;
+  assert.equal(page.items.length, 7);
+  assert.equal(describePage(page, "items"), "");
+});
+
+test("the token budget cuts a page short but always keeps one item", () => {
+  // Each item is about 6 tokens
+  const page = paginate(ITEMS, { listing: "test", limit: 0, maxTokens: 20 }).data;
+  assert.equal(page.items.length, 3);
+  assert.ok(page.next_cursor);
+
+  const tiny = paginate(ITEMS, { listing: "test", maxTokens: 1 }).data;
+  assert.equal(tiny.items.length, 1);
+});
+
+test("a cursor only continues the listing and arguments it came from", () => {
+  const { next_cursor } = paginate(ITEMS, { listing: "test", query: { domain: "light" }, limit: 2, anchor: "2026-10-01T00:00:00Z" }).data;
+  assert.equal(cursorAnchor(next_cursor), "2026-10-01T00:00:00Z");
+
+  const changed = paginate(ITEMS, { listing: "test", query: { domain: "switch" }, limit: 2, cursor: next_cursor });
+  assert.equal(changed.success, false);
+  assert.match(changed.message, /different arguments/);
+  assert.equal(paginate(ITEMS, { listing: "other", query: { domain: "light" }, limit: 2, cursor: next_cursor }).success, false);
+  assert.equal(paginate(ITEMS, { listing: "test", cursor: "garbage" }).message, "Invalid cursor: garbage");
+});
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: Array.from({ length: 12 }, (_, index) => ({ entity_id: `light.l${String(index).padStart(2, "0")}`, state: "off" }))
+  });
+  session = await connectServer(fake);
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("list_entities pages through every entity exactly once", async () => {
+  const seen = [];
+  let cursor;
+  do {
+    const result = await session.call("homeassistant_list_entities", { domain: "light", limit: 5, cursor });
+    seen.push(...result.structuredContent.entities.map(entity => entity.entity_id));
+    cursor = result.structuredContent.next_cursor;
+    if (cursor) {
+      assert.match(result.text, /cursor "/);
+    }
+  } while (cursor);
+
+  assert.equal(seen.length, 12);
+  assert.equal(new Set(seen).size, 12);
+});
+
+test("a cursor from another listing is rejected by the tool", async () => {
+  const first = await session.call("homeassistant_list_entities", { domain: "light", limit: 5 });
+  const result = await session.call("homeassistant_list_entities", { domain: "light", sort_order: "desc", limit: 5, cursor: first.structuredContent.next_cursor });
+  assert.equal(result.isError, true);
+  assert.match(result.text, /different arguments/);
+});
@@ -0,0 +1,127 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+import { configSchema } from "../dist/server.js";
+import { ActionPolicy, embeddedServiceCalls } from "../dist/utils/policy.js";
+
+const policy = new ActionPolicy("test", {
+  rules: [
+    { effect: "deny", services: "lock.unlock", reason: "locks stay locked" },
+    { effect: "confirm", domains: "alarm_control_panel" },
+    { effect: "deny", entities: "switch.server_*" }
+  ]
+});
+
+test("the first matching rule decides, and the default allows the rest", () => {
+  assert.equal(policy.evaluate({ instance: "default", domain: "lock", service: "unlock", data: { entity_id: "lock.front" } }).effect, "deny");
+  assert.equal(policy.evaluate({ instance: "default", domain: "alarm_control_panel", service: "alarm_disarm", data: {} }).effect, "confirm");
+  assert.equal(policy.evaluate({ instance: "default", domain: "light", service: "turn_on", data: { entity_id: "light.hall" } }).effect, "allow");
+});
+
+test("the most restrictive decision over all targets applies", () => {
+  const decision = policy.evaluate({ instance: "default", domain: "switch", service: "turn_off", data: { entity_id: ["switch.lamp", "switch.server_rack"] } });
+  assert.equal(decision.effect, "deny");
+  assert.equal(decision.entityId, "switch.server_rack");
+});
+
+test("indirect targets match rules on entities of their domain", () => {
+  assert.equal(policy.evaluate({ instance: "default", domain: "switch", service: "turn_off", data: { area_id: "office" } }).effect, "deny");
+  assert.equal(policy.evaluate({ instance: "default", domain: "light", service: "turn_off", data: { area_id: "office" } }).effect, "allow");
+});
+
+test("an invalid policy is rejected", () => {
+  assert.throws(() => new ActionPolicy("broken.json", { rules: [{ effect: "maybe" }] }), /Invalid policy in broken\.json: rules\.0\.effect/);
+});
+
+test("service calls are found at any depth of an automation and in scenes", () => {
+  const calls = embeddedServiceCalls("automation", {
+    actions: [
+      { choose: [{ conditions: [], sequence: [{ action: "lock.unlock", target: { entity_id: "lock.front" } }] }] },
+      { action: "{{ 'light.turn_on' }}" }
+    ]
+  });
+  assert.deepEqual(calls.map(call => [call.service, call.templated === true]), [
+    ["unlock", false],
+    ["{{ 'light.turn_on' }}", true]
+  ]);
+  assert.deepEqual(calls[0].data, { entity_id: "lock.front" });
+
+  const sceneCalls = embeddedServiceCalls("scene", { entities: { "lock.front": "unlocked", "light.hall": { state: "on" } } });
+  assert.deepEqual(sceneCalls.map(call => `${call.domain}.${call.service}`), ["lock.unlock", "light.turn_on"]);
+});
+
+test("automations, scripts and scenes that make a denied call can't be saved", () => {
+  assert.equal(policy.evaluateConfig("default", "script", { sequence: [{ service: "lock.unlock", entity_id: "lock.front" }] }).effect, "deny");
+  assert.equal(policy.evaluateConfig("default", "script", { sequence: [{ action: "{{ service }}" }] }).effect, "deny");
+  assert.equal(policy.evaluateConfig("default", "scene", { entities: { "light.hall": "on" } }).effect, "allow");
+});
+
+test("the policy file is a server setting, not session config", () => {
+  assert.equal("policyFile" in configSchema.shape, false);
+});
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [
+      { entity_id: "lock.front", state: "locked" },
+      { entity_id: "alarm_control_panel.home", state: "armed_away" },
+      { entity_id: "light.hall", state: "off" }
+    ]
+  });
+  session = await connectServer(fake, { settings: { policy } });
+});
+
+beforeEach(() => {
+  fake.serviceCalls.length = 0;
+  fake.configItems.clear();
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("a denied call isn't sent to Home Assistant", async () => {
+  const result = await session.call("homeassistant_call_service", { domain: "lock", service: "unlock", data: { entity_id: "lock.front" } });
+  assert.equal(result.isError, true);
+  assert.match(result.text, /lock\.unlock on lock\.front is denied by policy \(locks stay locked\)/);
+  assert.equal(fake.serviceCalls.length, 0);
+});
+
+test("a call that requires confirmation runs once confirmed", async () => {
+  const args = { domain: "alarm_control_panel", service: "alarm_disarm", data: { entity_id: "alarm_control_panel.home" } };
+
+  const unconfirmed = await session.call("homeassistant_call_service", args);
+  assert.equal(unconfirmed.isError, true);
+  assert.match(unconfirmed.text, /requires confirmation by policy/);
+  assert.equal(fake.serviceCalls.length, 0);
+
+  const confirmed = await session.call("homeassistant_call_service", { ...args, confirm: true });
+  assert.equal(confirmed.isError, undefined, confirmed.text);
+  assert.deepEqual(fake.serviceCalls.map(call => `${call.domain}.${call.service}`), ["alarm_control_panel.alarm_disarm"]);
+});
+
+test("an automation that makes a denied call isn't saved", async () => {
+  const result = await session.call("homeassistant_create_automation", {
+    alias: "Open up",
+    triggers: [{ trigger: "time", at: "07:00:00" }],
+    actions: [{ action: "lock.unlock", target: { entity_id: "lock.front" } }]
+  });
+  assert.equal(result.isError, true);
+  assert.match(result.text, /denied by policy: it calls lock\.unlock on lock\.front/);
+  assert.equal(fake.configItems.size, 0);
+});
+
+test("an automation that only makes allowed calls is saved", async () => {
+  const result = await session.call("homeassistant_create_automation", {
+    alias: "Lights on",
+    triggers: [{ trigger: "time", at: "07:00:00" }],
+    actions: [{ action: "light.turn_on", target: { entity_id: "light.hall" } }]
+  });
+  assert.equal(result.isError, undefined, result.text);
+  assert.equal(fake.configItems.size, 1);
+});
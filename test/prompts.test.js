@@ -0,0 +1,114 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+const LONG_AGO = "2026-01-01T00:00:00+00:00";
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [
+      { entity_id: "sensor.garden_temperature", state: "unavailable", attributes: { friendly_name: "Garden temperature" }, last_changed: LONG_AGO },
+      { entity_id: "light.office", state: "unknown", last_changed: LONG_AGO },
+      { entity_id: "light.living_room", state: "on", attributes: { friendly_name: "Living room light" }, last_changed: LONG_AGO },
+      { entity_id: "light.kitchen", state: "off", last_changed: LONG_AGO },
+      { entity_id: "binary_sensor.motion_4", state: "off", attributes: { friendly_name: "Motion", device_class: "motion" }, last_changed: LONG_AGO },
+      { entity_id: "sensor.heat_pump_energy", state: "1520.4", attributes: { friendly_name: "Heat pump energy", device_class: "energy", state_class: "total_increasing", unit_of_measurement: "kWh" } },
+      { entity_id: "sensor.oven_power", state: "2100", attributes: { friendly_name: "Oven power", device_class: "power", unit_of_measurement: "W" } },
+      { entity_id: "sensor.tv_power", state: "95", attributes: { friendly_name: "TV power", device_class: "power", unit_of_measurement: "W" } }
+    ],
+    rest: {
+      "GET /api/error_log": () => ({
+        body: [
+          "2026-10-18 10:00:00 ERROR (MainThread) [homeassistant.components.zha] Device sensor.garden_temperature is not responding",
+          "2026-10-18 10:01:00 INFO (MainThread) [homeassistant.core] Started",
+          "2026-10-18 10:02:00 WARNING (MainThread) [somewhere.else] Unrelated"
+        ].join("\n")
+      })
+    },
+    commands: {
+      "config/area_registry/list": () => [{ area_id: "lounge", name: "Lounge", aliases: ["Living Room"] }],
+      "config/device_registry/list": () => [{ id: "motion_device", area_id: "lounge" }],
+      "config/entity_registry/list": () => [
+        { entity_id: "binary_sensor.motion_4", device_id: "motion_device", area_id: null },
+        { entity_id: "light.kitchen", device_id: null, area_id: "kitchen" }
+      ],
+      "recorder/statistics_during_period": () => ({
+        "sensor.heat_pump_energy": [{ start: 0, change: 10.5 }, { start: 1, change: 12.25 }]
+      })
+    }
+  });
+  session = await connectServer(fake);
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+async function prompt(name, args = {}) {
+  const result = await session.client.getPrompt({ name, arguments: args });
+  assert.equal(result.messages.length, 1);
+  assert.equal(result.messages[0].role, "user");
+  return result.messages[0].content.text;
+}
+
+test("every workflow is listed as a prompt", async () => {
+  const { prompts } = await session.client.listPrompts();
+  assert.deepEqual(prompts.map(prompt => prompt.name).sort(), [
+    "diagnose_unavailable_entities",
+    "draft_automation",
+    "energy_usage_review",
+    "summarize_home"
+  ]);
+});
+
+test("diagnosing unavailable entities includes them and the related log lines", async () => {
+  const text = await prompt("diagnose_unavailable_entities");
+  assert.match(text, /## Unavailable\/unknown entities \(2\)/);
+  assert.match(text, /- sensor\.garden_temperature \(Garden temperature\): unavailable/);
+  assert.match(text, /## Related error log lines \(1, most recent last\)/);
+  assert.match(text, /homeassistant\.components\.zha/);
+  assert.doesNotMatch(text, /Unrelated/);
+
+  const lights = await prompt("diagnose_unavailable_entities", { domain: "light" });
+  assert.match(lights, /## Unavailable\/unknown entities \(1\)/);
+  assert.doesNotMatch(lights, /sensor\.garden_temperature \(/);
+});
+
+test("drafting an automation lists the room's entities by area, device and name", async () => {
+  const text = await prompt("draft_automation", { room: "living room", goal: "turn on the light on motion" });
+  assert.match(text, /for the living room that will: turn on the light on motion/);
+  // In the lounge through its device, and matched by name
+  assert.match(text, /## Entities in living room \(2\)/);
+  assert.match(text, /- binary_sensor\.motion_4 \(Motion, motion\): off/);
+  assert.match(text, /- light\.living_room \(Living room light\): on/);
+  assert.doesNotMatch(text, /light\.kitchen/);
+});
+
+test("the energy review includes consumption per sensor and the current power draw", async () => {
+  const text = await prompt("energy_usage_review", { days: "2" });
+  assert.match(text, /over the last 2 days/);
+  assert.match(text, /- Heat pump energy \(sensor\.heat_pump_energy\): 22\.75 kWh total \[daily: 10\.5, 12\.25\]/);
+  assert.match(text, /## Current power draw \(highest first\)\n- Oven power \(sensor\.oven_power\): 2100 W\n- TV power \(sensor\.tv_power\): 95 W/);
+
+  const command = fake.commands.find(command => command.type === "recorder/statistics_during_period");
+  assert.deepEqual(command.statistic_ids, ["sensor.heat_pump_energy"]);
+  assert.equal(command.period, "day");
+});
+
+test("the home summary counts states and only fetches history of entities that changed", async () => {
+  fake.setState("light.kitchen", "on");
+  fake.requests.length = 0;
+
+  const text = await prompt("summarize_home", { hours: "6" });
+  assert.match(text, /over the last 6 hours/);
+  assert.match(text, /- light: 1 unknown, 2 on/);
+  assert.match(text, /- binary_sensor: 1 off/);
+  assert.match(text, /## System health\n- Error log contains 1 error lines/);
+  const history = fake.requests.find(request => request.path.startsWith("/api/history/period/"));
+  assert.equal(history.query.filter_entity_id, "light.kitchen");
+});
@@ -0,0 +1,74 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+import { confidentMatch, rankEntities, scoreEntity } from "../dist/utils/resolver.js";
+
+const INDEX = [
+  { entity_id: "light.living_room_lamp", domain: "light", state: "off", friendly_name: "Living Room Lamp", aliases: ["reading light"], area: "Living Room" },
+  { entity_id: "light.kitchen", domain: "light", state: "on", friendly_name: "Kitchen Light", aliases: [], area: "Kitchen" },
+  { entity_id: "switch.living_room_fan", domain: "switch", state: "off", friendly_name: "Living Room Fan", aliases: [], area: "Living Room" },
+  { entity_id: "sensor.kitchen_temperature", domain: "sensor", state: "21", friendly_name: "Kitchen Temperature", aliases: [], area: "Kitchen" }
+];
+
+test("entities are ranked by name, alias, area and domain hints", () => {
+  assert.equal(rankEntities(INDEX, "living room lamp")[0].entity_id, "light.living_room_lamp");
+  assert.equal(rankEntities(INDEX, "reading light")[0].entity_id, "light.living_room_lamp");
+  assert.equal(rankEntities(INDEX, "kitchen temperature")[0].entity_id, "sensor.kitchen_temperature");
+  assert.equal(rankEntities(INDEX, "living room", { domain: "switch" })[0].entity_id, "switch.living_room_fan");
+  assert.equal(scoreEntity(INDEX[1], "light.kitchen"), 1);
+  assert.deepEqual(rankEntities(INDEX, "garage door"), []);
+});
+
+test("only a clear winner is a confident match", () => {
+  assert.equal(confidentMatch(rankEntities(INDEX, "light.living_room_lmap"))?.entity_id, "light.living_room_lamp");
+  assert.equal(confidentMatch(rankEntities(INDEX, "living room")), undefined);
+});
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [
+      { entity_id: "light.living_room_lamp", state: "off", attributes: { friendly_name: "Living Room Lamp" } },
+      { entity_id: "light.kitchen", state: "on", attributes: { friendly_name: "Kitchen Light" } }
+    ]
+  });
+  session = await connectServer(fake);
+});
+
+beforeEach(() => {
+  fake.serviceCalls.length = 0;
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("actions on a misspelled entity return suggestions and change nothing", async () => {
+  const result = await session.call("homeassistant_entity_action", { entity_id: "light.living_room_lmap", action: "on" });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /Entity 'light\.living_room_lmap' not found\. Did you mean:\n- light\.living_room_lamp/);
+  assert.match(result.text, /Nothing was changed/);
+  assert.deepEqual(fake.serviceCalls, []);
+});
+
+test("the device control tools don't act on a guess either", async () => {
+  const result = await session.call("homeassistant_control_lights", { entity_id: ["light.kitchen", "light.livingroom_lamp"], action: "turn_off" });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /light\.living_room_lamp/);
+  assert.deepEqual(fake.serviceCalls, []);
+  assert.equal(fake.states.get("light.kitchen").state, "on");
+});
+
+test("reading a misspelled entity answers for the confident match", async () => {
+  const result = await session.call("homeassistant_get_entity_state", { entity_id: "light.living_room_lmap" });
+
+  assert.equal(result.isError, undefined, result.text);
+  assert.equal(result.structuredContent.entity_id, "light.living_room_lamp");
+  assert.equal(result.structuredContent.resolved_from, "light.living_room_lmap");
+});
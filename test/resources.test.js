@@ -0,0 +1,149 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+// Longer than the debounce of resource updates
+const UPDATE_DELAY = 700;
+
+let fake;
+let session;
+const updates = [];
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [
+      { entity_id: "light.hall", state: "off", attributes: { friendly_name: "Hall light", brightness: 0 } },
+      { entity_id: "light.porch", state: "off", attributes: { friendly_name: "Porch light" } },
+      { entity_id: "climate.living", state: "off", attributes: { friendly_name: "Living room" } }
+    ]
+  });
+  session = await connectServer(fake);
+  session.client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+    updates.push(notification.params.uri);
+  });
+});
+
+beforeEach(() => {
+  updates.length = 0;
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("an entity can be read as a resource", async () => {
+  const result = await session.client.readResource({ uri: "hass://entities/light.hall" });
+
+  assert.equal(result.contents[0].uri, "hass://entities/light.hall");
+  assert.equal(result.contents[0].mimeType, "text/markdown");
+  assert.match(result.contents[0].text, /Hall light/);
+  assert.match(result.contents[0].text, /off/);
+});
+
+test("every hass:// URI is listed as a resource or template", async () => {
+  const { resources } = await session.client.listResources();
+  const { resourceTemplates } = await session.client.listResourceTemplates();
+
+  assert.deepEqual(resources.map(resource => resource.uri).sort(), [
+    "hass://entities",
+    "hass://entities/domain/climate",
+    "hass://entities/domain/climate/summary",
+    "hass://entities/domain/light",
+    "hass://entities/domain/light/summary"
+  ]);
+  assert.deepEqual(resourceTemplates.map(template => template.uriTemplate).sort(), [
+    "hass://entities/domain/{domain}",
+    "hass://entities/domain/{domain}/summary",
+    "hass://entities/{entity_id}",
+    "hass://entities/{entity_id}/detailed",
+    "hass://search/{query}",
+    "hass://search/{query}/{limit}"
+  ]);
+});
+
+test("template resources are read with their variables", async () => {
+  const search = await session.client.readResource({ uri: "hass://search/porch" });
+  assert.match(search.contents[0].text, /light\.porch/);
+  assert.doesNotMatch(search.contents[0].text, /light\.hall/);
+
+  const domain = await session.client.readResource({ uri: "hass://entities/domain/light" });
+  assert.match(domain.contents[0].text, /light\.hall/);
+  assert.match(domain.contents[0].text, /light\.porch/);
+
+  await assert.rejects(session.client.readResource({ uri: "hass://entities/light.attic" }));
+});
+
+test("entity ids and domains are completed", async () => {
+  const complete = async (uri, name, value) =>
+    (await session.client.complete({ ref: { type: "ref/resource", uri }, argument: { name, value } })).completion.values;
+
+  assert.deepEqual(await complete("hass://entities/{entity_id}", "entity_id", "light."), ["light.hall", "light.porch"]);
+  // Prefix matches come before other matches
+  assert.deepEqual(await complete("hass://entities/{entity_id}/detailed", "entity_id", "li"), ["light.hall", "light.porch", "climate.living"]);
+  assert.deepEqual(await complete("hass://entities/domain/{domain}", "domain", "cl"), ["climate"]);
+});
+
+test("the resource tools serve the same URIs", async () => {
+  const result = await session.call("homeassistant_get_resource", { uri: "hass://entities/domain/climate/summary" });
+  assert.equal(result.isError, undefined, result.text);
+  assert.match(result.text, /climate/);
+
+  const unknown = await session.call("homeassistant_get_resource", { uri: "hass://nothing/here" });
+  assert.equal(unknown.isError, true);
+  assert.match(unknown.text, /Unknown resource URI pattern/);
+});
+
+test("subscribers are told when the entity changes", async () => {
+  await session.client.subscribeResource({ uri: "hass://entities/light.hall" });
+  try {
+    fake.setState("light.hall", "on");
+    fake.setState("light.hall", "off");
+    fake.setState("light.porch", "on");
+    await sleep(UPDATE_DELAY);
+
+    // Changes in a burst are sent as one update, and other entities don't count
+    assert.deepEqual(updates, ["hass://entities/light.hall"]);
+  } finally {
+    await session.client.unsubscribeResource({ uri: "hass://entities/light.hall" });
+  }
+
+  fake.setState("light.hall", "on");
+  await sleep(UPDATE_DELAY);
+  assert.deepEqual(updates, ["hass://entities/light.hall"]);
+});
+
+test("domain and search subscriptions follow the entities they list", async () => {
+  const uris = ["hass://entities/domain/light", "hass://search/heat"];
+  for (const uri of uris) {
+    await session.client.subscribeResource({ uri });
+  }
+  try {
+    fake.setState("light.porch", "off");
+    await sleep(UPDATE_DELAY);
+    assert.deepEqual(updates, ["hass://entities/domain/light"]);
+
+    // The thermostat starts matching the search by its state
+    updates.length = 0;
+    fake.setState("climate.living", "heat");
+    await sleep(UPDATE_DELAY);
+    assert.deepEqual(updates, ["hass://search/heat"]);
+
+    // and stops matching it
+    updates.length = 0;
+    fake.setState("climate.living", "off");
+    await sleep(UPDATE_DELAY);
+    assert.deepEqual(updates, ["hass://search/heat"]);
+  } finally {
+    for (const uri of uris) {
+      await session.client.unsubscribeResource({ uri });
+    }
+  }
+});
+
+test("only hass:// resources can be subscribed to", async () => {
+  await assert.rejects(session.client.subscribeResource({ uri: "file:///etc/hosts" }), /only hass:\/\/ resources support subscriptions/);
+});
@@ -0,0 +1,126 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { HomeAssistantClient } from "../dist/utils/client.js";
+import { backoffDelay, CircuitBreaker, HomeAssistantApiError } from "../dist/utils/retry.js";
+
+test("errors are classified by what they mean for retrying", () => {
+  const unavailable = HomeAssistantApiError.from({ message: "Bad Gateway", response: { status: 502, data: {} } });
+  assert.equal(unavailable.kind, "unavailable");
+  assert.equal(unavailable.retryable, true);
+  assert.equal(HomeAssistantApiError.from({ message: "refused", code: "ECONNREFUSED" }).kind, "unavailable");
+  assert.equal(HomeAssistantApiError.from({ message: "timeout of 100ms exceeded", code: "ECONNABORTED" }).kind, "timeout");
+  assert.equal(HomeAssistantApiError.from({ message: "Unauthorized", response: { status: 401, data: {} } }).kind, "unauthorized");
+
+  const notFound = HomeAssistantApiError.from({ message: "Request failed", response: { status: 404, data: { message: "Entity not found." } } });
+  assert.equal(notFound.kind, "http");
+  assert.equal(notFound.message, "Entity not found.");
+  assert.equal(notFound.retryable, false);
+});
+
+test("backoff doubles up to the maximum delay, with jitter", () => {
+  const options = { maxRetries: 5, baseDelay: 100, maxDelay: 300 };
+  for (let i = 0; i < 20; i++) {
+    const first = backoffDelay(0, options);
+    const capped = backoffDelay(4, options);
+    assert.ok(first >= 50 && first <= 100, `${first}`);
+    assert.ok(capped >= 150 && capped <= 300, `${capped}`);
+  }
+});
+
+test("the circuit opens after the threshold and lets one request through after the cooldown", async () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 50 });
+  breaker.recordFailure();
+  assert.equal(breaker.check(), undefined);
+  breaker.recordFailure();
+  assert.equal(breaker.check()?.kind, "circuit_open");
+
+  await sleep(60);
+  assert.equal(breaker.check(), undefined);
+  assert.equal(breaker.check()?.kind, "circuit_open", "only one request probes");
+  breaker.recordFailure();
+  assert.match(breaker.check()?.message, /Requests resume in 1s/);
+
+  await sleep(60);
+  assert.equal(breaker.check(), undefined);
+  breaker.recordSuccess();
+  assert.equal(breaker.check(), undefined);
+});
+
+function countRequests(fake, method, path) {
+  return fake.requests.filter(request => request.method === method && request.path === path).length;
+}
+
+function createClient(fake, options = {}) {
+  return new HomeAssistantClient({
+    instances: [{ name: "default", url: fake.url, token: fake.token }],
+    retry: { maxRetries: 2, baseDelay: 10, maxDelay: 20 },
+    ...options
+  });
+}
+
+test("GETs are retried while Home Assistant is unavailable", async () => {
+  let failures = 2;
+  const fake = await startFakeHomeAssistant({
+    rest: { "GET /api/config": () => failures-- > 0 ? { status: 503, body: {} } : { body: { version: "2026.10.0" } } }
+  });
+  const client = createClient(fake);
+  try {
+    const result = await client.getConfig();
+    assert.equal(result.success, true);
+    assert.equal(result.data.version, "2026.10.0");
+    assert.equal(countRequests(fake, "GET", "/api/config"), 3);
+  } finally {
+    client.close();
+    await fake.close();
+  }
+});
+
+test("service calls aren't retried once they reached Home Assistant", async () => {
+  const fake = await startFakeHomeAssistant({
+    rest: { "POST /api/services/light/turn_on": () => ({ status: 504, body: {} }) }
+  });
+  const client = createClient(fake);
+  try {
+    const result = await client.callHomeAssistantService("light", "turn_on", { entity_id: "light.hall" });
+    assert.equal(result.success, false);
+    assert.equal(result.error.kind, "unavailable");
+    assert.match(result.message, /restarting or unavailable \(HTTP 504\)/);
+    assert.equal(countRequests(fake, "POST", "/api/services/light/turn_on"), 1);
+  } finally {
+    client.close();
+    await fake.close();
+  }
+});
+
+test("an instance that keeps failing is not sent requests until the cooldown passes", async () => {
+  const fake = await startFakeHomeAssistant({
+    rest: { "GET /api/config": () => ({ status: 503, body: {} }) }
+  });
+  const client = createClient(fake, { retry: { maxRetries: 0 }, circuitBreaker: { failureThreshold: 2, cooldown: 60000 } });
+  try {
+    await client.getConfig();
+    await client.getConfig();
+    const result = await client.getConfig();
+
+    assert.equal(result.error.kind, "circuit_open");
+    assert.equal(countRequests(fake, "GET", "/api/config"), 2);
+  } finally {
+    client.close();
+    await fake.close();
+  }
+});
+
+test("error responses don't open the circuit", async () => {
+  const fake = await startFakeHomeAssistant();
+  const client = createClient(fake, { circuitBreaker: { failureThreshold: 1, cooldown: 60000 } });
+  try {
+    assert.equal((await client.getHomeAssistantState("light.nowhere")).statusCode, 404);
+    assert.equal((await client.getHomeAssistantState("light.nowhere")).statusCode, 404);
+    assert.equal(countRequests(fake, "GET", "/api/states/light.nowhere"), 2);
+  } finally {
+    client.close();
+    await fake.close();
+  }
+});
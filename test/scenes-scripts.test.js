@@ -0,0 +1,100 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+const MORNING = {
+  alias: "Morning routine",
+  sequence: [{ action: "light.turn_on", target: { entity_id: "light.kitchen" } }]
+};
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant();
+  session = await connectServer(fake);
+});
+
+beforeEach(() => {
+  fake.configItems.clear();
+  fake.states.clear();
+  fake.serviceCalls.length = 0;
+  fake.setState("light.sofa", "on", { brightness: 120, friendly_name: "Sofa", supported_color_modes: ["brightness"] });
+  fake.setState("cover.blinds", "closed", { current_position: 0 });
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("a script is created under an id derived from its alias, then updated and deleted", async () => {
+  const created = await session.call("homeassistant_create_script", MORNING);
+  assert.equal(created.isError, undefined, created.text);
+  assert.match(created.text, /Created script 'Morning routine' as script\.morning_routine/);
+  assert.deepEqual(fake.configItems.get("script/morning_routine"), { ...MORNING, mode: "single" });
+  assert.ok(fake.states.has("script.morning_routine"));
+
+  const again = await session.call("homeassistant_create_script", MORNING);
+  assert.equal(again.isError, true);
+  assert.match(again.text, /already exists/);
+
+  const updated = await session.call("homeassistant_update_script", { script_id: "script.morning_routine", mode: "restart" });
+  assert.equal(updated.isError, undefined, updated.text);
+  assert.equal(fake.configItems.get("script/morning_routine").mode, "restart");
+
+  const config = await session.call("homeassistant_get_script_config", { script_id: "script.morning_routine" });
+  assert.match(config.text, /"mode": "restart"/);
+
+  const deleted = await session.call("homeassistant_delete_script", { script_id: "script.morning_routine", confirm: true });
+  assert.equal(deleted.isError, undefined, deleted.text);
+  assert.equal(fake.configItems.has("script/morning_routine"), false);
+  assert.equal(fake.states.has("script.morning_routine"), false);
+});
+
+test("a scene is edited through its entity id", async () => {
+  await session.call("homeassistant_create_scene", { id: "1700000000", name: "Reading", entities: { "light.sofa": { state: "on", brightness: 200 } } });
+  assert.equal(fake.states.get("scene.reading").attributes.id, "1700000000");
+
+  const updated = await session.call("homeassistant_update_scene", { scene_id: "scene.reading", entities: { "light.sofa": "off" } });
+  assert.equal(updated.isError, undefined, updated.text);
+  assert.deepEqual(fake.configItems.get("scene/1700000000").entities, { "light.sofa": "off" });
+
+  fake.setState("scene.temporary", "unknown");
+  const temporary = await session.call("homeassistant_get_scene_config", { scene_id: "scene.temporary" });
+  assert.equal(temporary.isError, true);
+  assert.match(temporary.text, /has no config id/);
+});
+
+test("a temporary snapshot uses scene.create", async () => {
+  const result = await session.call("homeassistant_snapshot_scene", { scene_id: "evening", entity_ids: ["light.sofa", "cover.blinds"] });
+
+  assert.equal(result.isError, undefined, result.text);
+  assert.deepEqual(fake.serviceCalls, [{ domain: "scene", service: "create", data: { scene_id: "evening", snapshot_entities: ["light.sofa", "cover.blinds"] } }]);
+  assert.equal(fake.configItems.size, 0);
+});
+
+test("a saved snapshot reports the entity id Home Assistant derives from its name", async () => {
+  const result = await session.call("homeassistant_snapshot_scene", {
+    scene_id: "evening",
+    entity_ids: ["light.sofa", "cover.blinds"],
+    persist: true,
+    name: "Movie night"
+  });
+
+  assert.equal(result.isError, undefined, result.text);
+  assert.match(result.text, /Saved scene 'Movie night' \(config id: evening, entity: scene\.movie_night\)/);
+  assert.deepEqual(fake.configItems.get("scene/evening").entities, {
+    "light.sofa": { state: "on", brightness: 120 },
+    "cover.blinds": { state: "closed", current_position: 0 }
+  });
+});
+
+test("a snapshot of an unknown entity isn't saved", async () => {
+  const result = await session.call("homeassistant_snapshot_scene", { scene_id: "evening", entity_ids: ["light.missing"], persist: true });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /Could not read current state of: light\.missing/);
+  assert.equal(fake.configItems.size, 0);
+});
@@ -0,0 +1,111 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { HomeAssistantClient } from "../dist/utils/client.js";
+
+const STATES = [
+  { entity_id: "light.hall", state: "off" },
+  { entity_id: "light.kitchen", state: "off" },
+  { entity_id: "scene.evening", state: "2026-10-01T18:00:00+00:00" }
+];
+
+// A client whose state cache is kept live by state_changed events
+async function liveClient(fake) {
+  const client = new HomeAssistantClient({ instances: [{ name: "default", url: fake.url, token: fake.token }], stateCacheTtl: 60000 });
+  await client.getCachedStates();
+  await sleep(100);
+  await client.getCachedStates();
+  assert.equal(client.stateCacheMetrics().mode, "live");
+  return client;
+}
+
+function stateOf(result, entityId) {
+  return result.data.find(entity => entity.entity_id === entityId)?.state;
+}
+
+function countRequests(fake, path) {
+  return fake.requests.filter(request => request.method === "GET" && request.path === path).length;
+}
+
+test("a live cache refetches the targets of a service call before their event arrives", async () => {
+  const fake = await startFakeHomeAssistant({ states: STATES });
+  const client = await liveClient(fake);
+  try {
+    const fullRefreshes = countRequests(fake, "/api/states");
+    fake.pauseEvents = true;
+
+    assert.equal((await client.callHomeAssistantService("light", "turn_on", { entity_id: "light.hall" })).success, true);
+    const result = await client.getCachedStates();
+
+    assert.equal(stateOf(result, "light.hall"), "on");
+    assert.equal(countRequests(fake, "/api/states/light.hall"), 1);
+    assert.equal(countRequests(fake, "/api/states"), fullRefreshes);
+    assert.equal(client.stateCacheMetrics().mode, "live");
+  } finally {
+    client.close();
+    await fake.close();
+  }
+});
+
+test("a live cache refetches every state after a call whose changes aren't known from its targets", async () => {
+  const fake = await startFakeHomeAssistant({
+    states: STATES,
+    rest: {
+      "POST /api/services/scene/turn_on": () => {
+        fake.setState("light.kitchen", "on");
+        return { body: [] };
+      }
+    }
+  });
+  const client = await liveClient(fake);
+  try {
+    const fullRefreshes = countRequests(fake, "/api/states");
+    fake.pauseEvents = true;
+
+    await client.callHomeAssistantService("scene", "turn_on", { entity_id: "scene.evening" });
+    const result = await client.getCachedStates();
+
+    assert.equal(stateOf(result, "light.kitchen"), "on");
+    assert.equal(countRequests(fake, "/api/states"), fullRefreshes + 1);
+  } finally {
+    client.close();
+    await fake.close();
+  }
+});
+
+test("a refetched state doesn't replace a newer one from an event", async () => {
+  const fake = await startFakeHomeAssistant({
+    states: STATES,
+    rest: {
+      "GET /api/states/light.hall": () => ({ body: { ...fake.states.get("light.hall"), state: "off", last_updated: "2000-01-01T00:00:00+00:00" } })
+    }
+  });
+  const client = await liveClient(fake);
+  try {
+    await client.callHomeAssistantService("light", "turn_on", { entity_id: "light.hall" });
+    await sleep(50);
+
+    assert.equal(stateOf(await client.getCachedStates(), "light.hall"), "on");
+  } finally {
+    client.close();
+    await fake.close();
+  }
+});
+
+test("a dry run doesn't invalidate the cache", async () => {
+  const fake = await startFakeHomeAssistant({ states: STATES });
+  const client = await liveClient(fake);
+  try {
+    const { result, requests } = await client.planRequests(() => client.callHomeAssistantService("light", "turn_on", { entity_id: "light.hall" }));
+    assert.equal(result.success, true);
+    assert.equal(requests.length, 1);
+    await client.getCachedStates();
+
+    assert.equal(countRequests(fake, "/api/states/light.hall"), 0);
+    assert.equal(fake.serviceCalls.length, 0);
+  } finally {
+    client.close();
+    await fake.close();
+  }
+});
@@ -0,0 +1,105 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    commands: {
+      "recorder/statistics_during_period": () => ({
+        "sensor.energy": [
+          { start: Date.UTC(2026, 9, 1), change: 1500, sum: 10000 },
+          { start: Date.UTC(2026, 9, 2), change: 2250.5, sum: 12250.5 }
+        ],
+        "sensor.temperature": [
+          { start: Date.UTC(2026, 9, 1), mean: 20, min: 18, max: 23 },
+          { start: Date.UTC(2026, 9, 2), mean: 21, min: 17.5, max: 24 }
+        ]
+      }),
+      "recorder/get_statistics_metadata": () => [
+        { statistic_id: "sensor.energy", name: "Energy", unit_class: "energy", statistics_unit_of_measurement: "kWh" },
+        { statistic_id: "sensor.temperature", name: "Temperature", unit_class: "temperature", statistics_unit_of_measurement: "°C" }
+      ]
+    }
+  });
+  session = await connectServer(fake);
+});
+
+beforeEach(() => {
+  fake.commands.length = 0;
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+function statisticsCommand() {
+  return fake.commands.find(command => command.type === "recorder/statistics_during_period");
+}
+
+test("statistics are requested for the period, types and units asked for", async () => {
+  const result = await session.call("homeassistant_get_statistics", {
+    entity_ids: ["sensor.energy"],
+    start_time: "2026-10-01T00:00:00Z",
+    end_time: "2026-10-03T00:00:00Z",
+    period: "day",
+    types: ["change", "sum"],
+    units: { energy: "Wh" }
+  });
+
+  assert.equal(result.isError, undefined, result.text);
+  const { id, type, ...command } = statisticsCommand();
+  assert.deepEqual(command, {
+    statistic_ids: ["sensor.energy"],
+    start_time: "2026-10-01T00:00:00.000Z",
+    end_time: "2026-10-03T00:00:00Z",
+    period: "day",
+    types: ["change", "sum"],
+    units: { energy: "Wh" }
+  });
+  // The unit the values were converted to, not the one they are stored in
+  assert.match(result.text, /\*\*Unit\*\*: Wh/);
+});
+
+test("each statistic is summarised over the whole period", async () => {
+  const result = await session.call("homeassistant_get_statistics", { entity_ids: ["sensor.energy", "sensor.temperature"], period: "day" });
+
+  assert.match(result.text, /## Energy\n\*\*Unit\*\*: kWh/);
+  assert.match(result.text, /Total change: 3750\.5 kWh/);
+  assert.match(result.text, /## Temperature\n\*\*Unit\*\*: °C/);
+  assert.match(result.text, /Average: 20\.5 °C, Lowest: 17\.5 °C, Highest: 24 °C/);
+  // Columns without data are left out
+  assert.match(result.text, /\| Period start \| mean \| min \| max \|/);
+});
+
+test("the default start depends on the period", async () => {
+  await session.call("homeassistant_get_statistics", { entity_ids: ["sensor.energy"], period: "day" });
+  const start = Date.parse(statisticsCommand().start_time);
+  assert.ok(Math.abs(Date.now() - 30 * DAY - start) < 60000);
+
+  fake.commands.length = 0;
+  await session.call("homeassistant_get_statistics", { entity_ids: ["sensor.energy"] });
+  assert.equal(statisticsCommand().period, "hour");
+  assert.ok(Math.abs(Date.now() - DAY - Date.parse(statisticsCommand().start_time)) < 60000);
+});
+
+test("entities without long-term statistics are explained", async () => {
+  const result = await session.call("homeassistant_get_statistics", { entity_ids: ["sensor.no_state_class"] });
+
+  assert.equal(result.isError, undefined);
+  assert.match(result.text, /No long-term statistics found \(the entity needs a state_class to be recorded\)/);
+});
+
+test("an invalid start time is rejected", async () => {
+  const result = await session.call("homeassistant_get_statistics", { entity_ids: ["sensor.energy"], start_time: "yesterday-ish" });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /Invalid start_time/);
+  assert.equal(statisticsCommand(), undefined);
+});
@@ -0,0 +1,56 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "child_process";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+
+const STDIO_ENTRYPOINT = fileURLToPath(new URL("../dist/stdio.js", import.meta.url));
+
+let fake;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [{ entity_id: "light.hall", state: "on", attributes: { friendly_name: "Hall" } }]
+  });
+});
+
+after(async () => {
+  await fake.close();
+});
+
+test("the stdio entrypoint serves tools configured from the environment", async () => {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [STDIO_ENTRYPOINT],
+    env: { HOMEASSISTANT_URL: fake.url, HOMEASSISTANT_TOKEN: fake.token, TOOL_GROUPS: "basic" },
+    stderr: "ignore"
+  });
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(transport);
+
+  try {
+    const { tools } = await client.listTools();
+    const names = tools.map(tool => tool.name);
+    assert.ok(names.includes("homeassistant_tool_groups"));
+    assert.ok(!names.includes("homeassistant_control_lights"));
+
+    const result = await client.callTool({ name: "homeassistant_get_entity_state", arguments: { entity_id: "light.hall" } });
+    assert.equal(result.isError, undefined);
+    assert.match(result.content[0].text, /light\.hall/);
+  } finally {
+    await client.close();
+  }
+});
+
+test("the stdio entrypoint exits when Home Assistant isn't configured", async () => {
+  const child = spawn(process.execPath, [STDIO_ENTRYPOINT], { env: {}, stdio: ["pipe", "pipe", "pipe"] });
+  let stderr = "";
+  child.stderr.on("data", chunk => stderr += chunk);
+
+  const code = await new Promise(resolve => child.on("exit", resolve));
+
+  assert.equal(code, 1);
+  assert.match(stderr, /Set HOME_ASSISTANT_URL and HOME_ASSISTANT_TOKEN/);
+});
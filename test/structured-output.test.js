@@ -0,0 +1,93 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+let fake;
+let session;
+let tools;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [
+      { entity_id: "light.hall", state: "off", attributes: { friendly_name: "Hall", brightness: 10 } },
+      { entity_id: "automation.night", state: "on", attributes: { friendly_name: "Night", last_triggered: null } },
+      { entity_id: "script.wake_up", state: "off", attributes: { last_triggered: null } },
+      { entity_id: "scene.evening", state: "unknown", attributes: { entity_id: ["light.hall"] } },
+      { entity_id: "input_boolean.guests", state: "off" }
+    ],
+    services: [{ domain: "light", services: { turn_on: { fields: { brightness: {} } }, turn_off: { fields: {} } } }],
+    config: { components: ["light", "automation"] },
+    commands: {
+      "config/area_registry/list": () => [{ area_id: "hall", name: "Hall", aliases: [] }],
+      "config/device_registry/list": () => [{ id: "d1", name: "Hall lamp", manufacturer: null, model: null, area_id: "hall" }]
+    }
+  });
+  session = await connectServer(fake);
+  // The client validates structured content against the schemas it listed
+  tools = new Map((await session.client.listTools()).tools.map(tool => [tool.name, tool]));
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("list and read tools declare an output schema, actions don't", () => {
+  const schema = tools.get("homeassistant_list_entities").outputSchema;
+  assert.deepEqual(Object.keys(schema.properties).sort(), ["entities", "error", "next_cursor", "offset", "total"]);
+  assert.equal(schema.required, undefined);
+  assert.ok(tools.get("homeassistant_get_version").outputSchema);
+  assert.equal(tools.get("homeassistant_entity_action").outputSchema, undefined);
+});
+
+test("structured content of the list and read tools matches their schemas", async () => {
+  const calls = [
+    ["homeassistant_api_status"],
+    ["homeassistant_get_version"],
+    ["homeassistant_list_entities", { detailed: true }],
+    ["homeassistant_list_entities", { fields: ["state", "attr.brightness"] }],
+    ["homeassistant_search_entities", { query: "hall" }],
+    ["homeassistant_list_automations"],
+    ["homeassistant_list_scenes"],
+    ["homeassistant_list_scripts"],
+    ["homeassistant_list_input_booleans"],
+    ["homeassistant_get_devices_by_type", { domain: "light" }],
+    ["homeassistant_list_areas"],
+    ["homeassistant_list_devices"],
+    ["homeassistant_list_integrations"],
+    ["homeassistant_audit_log"]
+  ];
+  for (const [name, args] of calls) {
+    assert.ok(tools.get(name).outputSchema, `${name} has an output schema`);
+    const result = await session.call(name, args);
+    assert.equal(result.isError, undefined, `${name}: ${result.text}`);
+    assert.ok(result.structuredContent, name);
+  }
+});
+
+test("errors of tools with an output schema carry the message as structured content", async () => {
+  const result = await session.call("homeassistant_list_entities", { cursor: "not-a-cursor" });
+  assert.equal(result.isError, true);
+  assert.deepEqual(result.structuredContent, { error: "Invalid cursor: not-a-cursor" });
+});
+
+test("a dry run returns the current state of each target in its structured content", async () => {
+  const result = await session.call("homeassistant_control_lights", { entity_id: "light.hall", action: "turn_on", brightness: 200, dry_run: true });
+  const [request] = result.structuredContent.requests;
+
+  assert.equal(result.structuredContent.dry_run, true);
+  assert.equal(request.service, "light.turn_on");
+  assert.equal(request.service_exists, true);
+  assert.deepEqual(request.target_states, [{ entity_id: "light.hall", state: "off", attributes: { brightness: 10 } }]);
+  assert.match(result.text, /light\.hall: \*\*off\*\* \(brightness: 10\)/);
+  assert.equal(fake.serviceCalls.length, 0);
+});
+
+test("a dry run reports targets that don't exist", async () => {
+  const result = await session.call("homeassistant_call_service", { domain: "light", service: "turn_off", data: { entity_id: "light.nowhere" }, dry_run: true });
+  const [request] = result.structuredContent.requests;
+
+  assert.deepEqual(request.target_states, [{ entity_id: "light.nowhere", error: "entity not found" }]);
+  assert.equal(fake.serviceCalls.length, 0);
+});
@@ -0,0 +1,124 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+import { getTargetEntityIds, hasIndirectTargets } from "../dist/utils/targets.js";
+
+test("target entity ids are read from entity_id or target, and other targets are indirect", () => {
+  assert.deepEqual(getTargetEntityIds({ entity_id: "light.a, light.b" }), ["light.a", "light.b"]);
+  assert.deepEqual(getTargetEntityIds({ target: { entity_id: ["light.a"] } }), ["light.a"]);
+  assert.deepEqual(getTargetEntityIds({ entity_id: "all" }), []);
+  assert.equal(hasIndirectTargets({ entity_id: "all" }), true);
+  assert.equal(hasIndirectTargets({ target: { area_id: "kitchen" } }), true);
+  assert.equal(hasIndirectTargets({ entity_id: "light.a" }), false);
+});
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    states: [
+      { entity_id: "light.kitchen_ceiling", state: "off" },
+      { entity_id: "light.kitchen_strip", state: "off" },
+      { entity_id: "switch.kitchen_kettle", state: "off" },
+      { entity_id: "light.kitchen_old", state: "off" },
+      { entity_id: "light.bedroom", state: "off" },
+      { entity_id: "light.porch", state: "off" }
+    ],
+    commands: {
+      "config/entity_registry/list": () => [
+        // In the kitchen through its device
+        { entity_id: "light.kitchen_ceiling", device_id: "ceiling", area_id: null },
+        { entity_id: "light.kitchen_strip", device_id: null, area_id: "kitchen" },
+        { entity_id: "switch.kitchen_kettle", device_id: null, area_id: "kitchen" },
+        { entity_id: "light.kitchen_old", device_id: null, area_id: "kitchen", disabled_by: "user" },
+        { entity_id: "light.bedroom", device_id: null, area_id: "bedroom" },
+        { entity_id: "light.porch", device_id: "porch", area_id: null, labels: [] }
+      ],
+      "config/device_registry/list": () => [
+        { id: "ceiling", name: "Ceiling lamp", area_id: "kitchen", labels: [] },
+        { id: "porch", name: "Porch lamp", name_by_user: "Front porch", area_id: null, labels: ["outdoor"] }
+      ],
+      "config/area_registry/list": () => [
+        { area_id: "kitchen", name: "Kitchen", floor_id: "ground" },
+        { area_id: "bedroom", name: "Bedroom", floor_id: "upstairs" }
+      ],
+      "config/floor_registry/list": () => [{ floor_id: "ground", name: "Ground Floor" }, { floor_id: "upstairs", name: "Upstairs" }],
+      "config/label_registry/list": () => [{ label_id: "outdoor", name: "Outdoor" }]
+    }
+  });
+  session = await connectServer(fake);
+});
+
+beforeEach(() => {
+  fake.serviceCalls.length = 0;
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+function calls() {
+  return fake.serviceCalls.map(call => [`${call.domain}.${call.service}`, call.data.entity_id]);
+}
+
+test("entity_action turns an area on with one call per domain", async () => {
+  const result = await session.call("homeassistant_entity_action", { area_id: "kitchen", action: "on" });
+
+  assert.equal(result.isError, undefined, result.text);
+  assert.deepEqual(result.structuredContent.entity_ids, ["light.kitchen_ceiling", "light.kitchen_strip", "switch.kitchen_kettle"]);
+  assert.deepEqual(calls(), [
+    ["light.turn_on", ["light.kitchen_ceiling", "light.kitchen_strip"]],
+    ["switch.turn_on", "switch.kitchen_kettle"]
+  ]);
+});
+
+test("floors, labels and device names resolve to their entities", async () => {
+  await session.call("homeassistant_entity_action", { floor_id: "Upstairs", action: "off" });
+  await session.call("homeassistant_entity_action", { label_id: "outdoor", action: "off" });
+  await session.call("homeassistant_entity_action", { device_id: "Front porch", action: "toggle" });
+
+  assert.deepEqual(calls(), [
+    ["light.turn_off", "light.bedroom"],
+    ["light.turn_off", "light.porch"],
+    ["light.toggle", "light.porch"]
+  ]);
+});
+
+test("device control tools only act on entities of their domain", async () => {
+  await session.call("homeassistant_control_lights", { area_id: "Kitchen", action: "turn_off" });
+  assert.deepEqual(calls(), [["light.turn_off", ["light.kitchen_ceiling", "light.kitchen_strip"]]]);
+});
+
+test("bulk_operations acts on every entity of the targets", async () => {
+  const result = await session.call("homeassistant_bulk_operations", { area_id: "kitchen", entity_ids: ["light.bedroom"], action: "off" });
+
+  assert.equal(result.structuredContent.successful, 4);
+  assert.deepEqual(calls().map(([service, entityId]) => `${service} ${entityId}`).sort(), [
+    "light.turn_off light.bedroom",
+    "light.turn_off light.kitchen_ceiling",
+    "light.turn_off light.kitchen_strip",
+    "switch.turn_off switch.kitchen_kettle"
+  ]);
+});
+
+test("unknown targets fail without any call", async () => {
+  const result = await session.call("homeassistant_entity_action", { area_id: "attic", action: "on" });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /Unknown area "attic"/);
+  assert.deepEqual(calls(), []);
+});
+
+test("entity_id all is passed to Home Assistant by the device control tools", async () => {
+  const result = await session.call("homeassistant_control_lights", { entity_id: "all", action: "turn_off" });
+
+  assert.equal(result.isError, undefined, result.text);
+  assert.deepEqual(calls(), [["light.turn_off", "all"]]);
+
+  const mixed = await session.call("homeassistant_entity_action", { entity_id: "all", action: "off" });
+  assert.equal(mixed.isError, true);
+  assert.match(mixed.text, /needs a tool that controls a single domain/);
+});
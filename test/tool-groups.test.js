@@ -0,0 +1,67 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+let fake;
+let session;
+let listChanged = 0;
+
+before(async () => {
+  fake = await startFakeHomeAssistant();
+  session = await connectServer(fake, { config: { toolGroups: ["basic"] } });
+  session.client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+    listChanged++;
+  });
+});
+
+beforeEach(async () => {
+  await session.call("homeassistant_tool_groups", { action: "unload", groups: ["basic", "devices"] });
+  await session.call("homeassistant_tool_groups", { action: "load", groups: ["basic"] });
+  listChanged = 0;
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+async function toolNames() {
+  const { tools } = await session.client.listTools();
+  return tools.map(tool => tool.name);
+}
+
+test("the groups and whether they are loaded are listed", async () => {
+  const result = await session.call("homeassistant_tool_groups");
+
+  assert.match(result.text, /- \*\*basic\*\* \(✅ loaded\): API status, entity states, service calls/);
+  assert.match(result.text, /- \*\*devices\*\* \(⬜ not loaded\)/);
+});
+
+test("loading a group adds its tools and notifies the client", async () => {
+  assert.ok(!(await toolNames()).includes("homeassistant_control_lights"));
+
+  const result = await session.call("homeassistant_tool_groups", { action: "load", groups: ["devices", "basic"] });
+
+  assert.match(result.text, /✅ Loaded devices \(\d+ tools\)\nℹ️ basic is already loaded/);
+  assert.ok((await toolNames()).includes("homeassistant_control_lights"));
+  assert.ok(listChanged > 0);
+});
+
+test("unloading a group removes its tools", async () => {
+  const result = await session.call("homeassistant_tool_groups", { action: "unload", groups: ["basic", "devices"] });
+
+  assert.match(result.text, /✅ Unloaded basic \(\d+ tools\)\nℹ️ devices is not loaded/);
+  const names = await toolNames();
+  assert.ok(!names.includes("homeassistant_api_status"));
+  assert.ok(names.includes("homeassistant_tool_groups"));
+  assert.ok(listChanged > 0);
+});
+
+test("load and unload need the groups to change", async () => {
+  const result = await session.call("homeassistant_tool_groups", { action: "load" });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /Specify the groups to load/);
+});
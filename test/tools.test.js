@@ -0,0 +1,70 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+import { DuplicateToolError, ToolRegistry } from "../dist/tools/registry.js";
+import { HomeAssistantClient } from "../dist/utils/client.js";
+import { configSchema, createMcpServer } from "../dist/server.js";
+import { AuditLog } from "../dist/utils/audit.js";
+import { FavoritesStore } from "../dist/utils/favorites.js";
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant();
+  session = await connectServer(fake);
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("every tool name is registered once", async () => {
+  const { tools } = await session.client.listTools();
+  const names = tools.map(tool => tool.name);
+  assert.equal(new Set(names).size, names.length);
+});
+
+test("Home Assistant is restarted by a single tool", async () => {
+  const { tools } = await session.client.listTools();
+  const names = tools.map(tool => tool.name);
+  assert.ok(names.includes("homeassistant_restart_service"));
+  assert.ok(!names.includes("homeassistant_restart"));
+
+  const unconfirmed = await session.call("homeassistant_restart_service", { confirm: false });
+  assert.equal(unconfirmed.isError, true);
+  assert.equal(fake.serviceCalls.length, 0);
+});
+
+test("registering a tool name twice fails", () => {
+  const client = new HomeAssistantClient({ instances: [{ name: "default", url: fake.url, token: fake.token }] });
+  const registry = new ToolRegistry(new McpServer({ name: "test", version: "1.0.0" }), client);
+  const register = registry => registry.tool("ping", "Ping", { text: z.string() }, async () => ({ content: [] }));
+
+  registry.registerGroup("basic", register);
+  assert.throws(() => registry.registerGroup("system", register), error => {
+    assert.ok(error instanceof DuplicateToolError);
+    assert.equal(error.message, 'Tool "ping" is registered by both the basic and system tool groups');
+    return true;
+  });
+});
+
+test("the server doesn't start when two tools share a name", () => {
+  const config = configSchema.parse({ homeAssistantUrl: fake.url, homeAssistantToken: fake.token });
+  const settings = { audit: new AuditLog(join(session.directory, "audit.jsonl")), favorites: new FavoritesStore(join(session.directory, "favorites.json")) };
+
+  assert.throws(
+    () => createMcpServer({
+      sessionId: "duplicate",
+      config,
+      settings,
+      registerExtraTools: registry => registry.tool("homeassistant_api_status", "Status", {}, async () => ({ content: [] }))
+    }),
+    DuplicateToolError
+  );
+});
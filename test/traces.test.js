@@ -0,0 +1,100 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+
+const RUNS = [
+  { run_id: "older", timestamp: { start: "2026-10-18T20:00:00Z" }, state: "stopped", script_execution: "failed_conditions", trigger: "state of binary_sensor.hall_motion" },
+  { run_id: "latest", timestamp: { start: "2026-10-19T07:00:00Z" }, state: "stopped", script_execution: "error", trigger: "state of binary_sensor.hall_motion", last_step: "action/0", error: "Unable to find service light.turn_onn" }
+];
+
+const LATEST = {
+  run_id: "latest",
+  timestamp: { start: "2026-10-19T07:00:00Z", finish: "2026-10-19T07:00:00.250Z" },
+  state: "stopped",
+  script_execution: "error",
+  error: "Unable to find service light.turn_onn",
+  trigger: "state of binary_sensor.hall_motion",
+  trace: {
+    "action/0": [{ path: "action/0", timestamp: "2026-10-19T07:00:00.200Z", error: "Unable to find service light.turn_onn" }],
+    "trigger/0": [{
+      path: "trigger/0",
+      timestamp: "2026-10-19T07:00:00.000Z",
+      changed_variables: {
+        this: { entity_id: "automation.hall_lights" },
+        trigger: { id: "0", platform: "state", entity_id: "binary_sensor.hall_motion", from_state: { state: "off" }, to_state: { state: "on" } }
+      }
+    }],
+    "condition/0": [{ path: "condition/0", timestamp: "2026-10-19T07:00:00.100Z", result: { result: true, entities: ["sun.sun"] } }]
+  }
+};
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant({
+    commands: {
+      "trace/list": () => RUNS,
+      "trace/get": message => {
+        if (message.run_id !== "latest") {
+          throw { code: "not_found", message: "The trace could not be found" };
+        }
+        return LATEST;
+      }
+    }
+  });
+  session = await connectServer(fake);
+});
+
+beforeEach(() => {
+  fake.commands.length = 0;
+  fake.states.clear();
+  fake.setState("automation.hall_lights", "on", { id: "1700000000", friendly_name: "Hall lights" });
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+test("the most recent run is rendered in execution order", async () => {
+  const result = await session.call("homeassistant_get_trace", { entity_id: "automation.hall_lights" });
+
+  assert.equal(result.isError, undefined, result.text);
+  // Automation traces are stored under the config id, not the entity id
+  assert.deepEqual(fake.commands.map(({ type, domain, item_id, run_id }) => ({ type, domain, item_id, run_id })), [
+    { type: "trace/list", domain: "automation", item_id: "1700000000", run_id: undefined },
+    { type: "trace/get", domain: "automation", item_id: "1700000000", run_id: "latest" }
+  ]);
+  assert.match(result.text, /\*\*Finished\*\*: .* \(250ms\)/);
+  assert.match(result.text, /\*\*Result\*\*: ❌ error/);
+  assert.match(result.text, /- trigger\/0: 0 \(state, binary_sensor\.hall_motion, off → on\)/);
+  assert.match(result.text, /- condition\/0: ✅ passed\n {2}entities=\["sun\.sun"\]/);
+  assert.match(result.text, /- action\/0 at .*: ❌ error\n {2}Error: Unable to find service light\.turn_onn/);
+  assert.match(result.text, /trigger\/0 → trigger: \{"id":"0","platform":"state","entity_id":"binary_sensor\.hall_motion","from_state":"off","to_state":"on"\}/);
+  assert.doesNotMatch(result.text, /→ this:/);
+});
+
+test("stored runs are listed newest first", async () => {
+  const result = await session.call("homeassistant_get_trace", { entity_id: "automation.hall_lights", list_runs: true });
+
+  assert.ok(result.text.indexOf("❌ latest") < result.text.indexOf("⏭️ older"), result.text);
+  assert.match(result.text, /Error: Unable to find service light\.turn_onn/);
+  assert.equal(fake.commands.some(command => command.type === "trace/get"), false);
+});
+
+test("script traces use the object id and a missing run is an error", async () => {
+  const result = await session.call("homeassistant_get_trace", { entity_id: "script.bedtime", run_id: "gone", include_variables: false });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /Failed to get trace gone: .*The trace could not be found/);
+  assert.deepEqual(fake.commands.map(command => command.item_id), ["bedtime", "bedtime"]);
+});
+
+test("only automations and scripts have traces", async () => {
+  const result = await session.call("homeassistant_get_trace", { entity_id: "light.hall" });
+
+  assert.equal(result.isError, true);
+  assert.match(result.text, /must be an automation or a script/);
+});
@@ -0,0 +1,124 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { connectServer } from "./helpers/mcp.js";
+import { restoreCalls } from "../dist/tools/homeassistant/undo.js";
+
+function restore(entity_id, state, attributes = {}) {
+  return restoreCalls({ instance: "default", entity_id, state, attributes }).map(call => [`${call.domain}.${call.service}`, call.data]);
+}
+
+test("a light is restored with the attributes of its color mode", () => {
+  assert.deepEqual(restore("light.hall", "on", { brightness: 120, color_mode: "color_temp", color_temp_kelvin: 2700, rgb_color: [255, 0, 0] }), [
+    ["light.turn_on", { entity_id: "light.hall", brightness: 120, color_temp_kelvin: 2700 }]
+  ]);
+  assert.deepEqual(restore("light.hall", "off"), [["light.turn_off", { entity_id: "light.hall" }]]);
+});
+
+test("climate entities get their mode and setpoints back", () => {
+  assert.deepEqual(restore("climate.living", "heat", { hvac_modes: ["off", "heat"], temperature: 21, preset_mode: "home" }), [
+    ["climate.set_hvac_mode", { entity_id: "climate.living", hvac_mode: "heat" }],
+    ["climate.set_temperature", { entity_id: "climate.living", temperature: 21 }],
+    ["climate.set_preset_mode", { entity_id: "climate.living", preset_mode: "home" }]
+  ]);
+});
+
+test("states that can't be set again aren't restored", () => {
+  assert.deepEqual(restore("light.hall", "unavailable"), []);
+  assert.deepEqual(restore("lock.front", "jammed"), []);
+  assert.deepEqual(restore("switch.fan", "on"), [["homeassistant.turn_on", { entity_id: "switch.fan" }]]);
+});
+
+let fake;
+let session;
+
+before(async () => {
+  fake = await startFakeHomeAssistant();
+  session = await connectServer(fake);
+});
+
+beforeEach(() => {
+  fake.states.clear();
+  fake.setState("light.hall", "on", { brightness: 120, color_mode: "brightness" });
+  fake.setState("switch.fan", "off");
+  fake.serviceCalls.length = 0;
+});
+
+after(async () => {
+  await session.close();
+  await fake.close();
+});
+
+function calls() {
+  return fake.serviceCalls.map(call => [`${call.domain}.${call.service}`, call.data]);
+}
+
+test("undo restores the state before the last action", async () => {
+  await session.call("homeassistant_control_lights", { entity_id: "light.hall", action: "turn_off" });
+  assert.equal(fake.states.get("light.hall").state, "off");
+  fake.serviceCalls.length = 0;
+
+  const result = await session.call("homeassistant_undo");
+
+  assert.deepEqual(calls(), [["light.turn_on", { entity_id: "light.hall", brightness: 120 }]]);
+  assert.deepEqual(result.structuredContent.entities.map(entity => [entity.entity_id, entity.state, entity.status]), [["light.hall", "on", "restored"]]);
+  assert.equal(result.structuredContent.remaining, 0);
+
+  const nothing = await session.call("homeassistant_undo");
+  assert.equal(nothing.isError, true);
+  assert.match(nothing.text, /Nothing to undo/);
+});
+
+test("undoing several changes leaves each entity in its oldest captured state", async () => {
+  await session.call("homeassistant_entity_action", { entity_id: "switch.fan", action: "on" });
+  await session.call("homeassistant_entity_action", { entity_id: ["switch.fan", "light.hall"], action: "toggle" });
+  fake.serviceCalls.length = 0;
+
+  await session.call("homeassistant_undo", { count: 2 });
+
+  assert.deepEqual(calls(), [
+    ["homeassistant.turn_on", { entity_id: "switch.fan" }],
+    ["light.turn_on", { entity_id: "light.hall", brightness: 120 }],
+    ["homeassistant.turn_off", { entity_id: "switch.fan" }]
+  ]);
+  assert.equal(fake.states.get("switch.fan").state, "off");
+  assert.equal(fake.states.get("light.hall").state, "on");
+});
+
+test("dry runs aren't recorded for undo", async () => {
+  await session.call("homeassistant_entity_action", { entity_id: "switch.fan", action: "on", dry_run: true });
+
+  const result = await session.call("homeassistant_undo");
+  assert.equal(result.isError, true);
+  assert.deepEqual(calls(), []);
+});
+
+test("actions that fail aren't recorded for undo", async () => {
+  fake.rest["POST /api/services/light/turn_off"] = () => ({ status: 500, body: { message: "Light unreachable" } });
+  try {
+    const failed = await session.call("homeassistant_control_lights", { entity_id: "light.hall", action: "turn_off" });
+    assert.equal(failed.isError, true);
+  } finally {
+    delete fake.rest["POST /api/services/light/turn_off"];
+  }
+
+  const result = await session.call("homeassistant_undo");
+  assert.equal(result.isError, true);
+  assert.match(result.text, /Nothing to undo/);
+});
+
+test("an undo whose restores all fail is an error and can be retried", async () => {
+  await session.call("homeassistant_control_lights", { entity_id: "light.hall", action: "turn_off" });
+  fake.rest["POST /api/services/light/turn_on"] = () => ({ status: 500, body: { message: "Light unreachable" } });
+  try {
+    const result = await session.call("homeassistant_undo");
+    assert.equal(result.isError, true);
+    assert.match(result.text, /❌ light\.hall/);
+  } finally {
+    delete fake.rest["POST /api/services/light/turn_on"];
+  }
+
+  const retry = await session.call("homeassistant_undo");
+  assert.equal(retry.isError, undefined, retry.text);
+  assert.equal(fake.states.get("light.hall").state, "on");
+});
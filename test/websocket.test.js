@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { startFakeHomeAssistant } from "./helpers/fake-home-assistant.js";
+import { HomeAssistantWebSocket } from "../dist/utils/websocket.js";
+
+test("commands are answered after authenticating", async () => {
+  const fake = await startFakeHomeAssistant({ commands: { "config/area_registry/list": () => [{ area_id: "kitchen" }] } });
+  const socket = new HomeAssistantWebSocket({ url: fake.url, token: fake.token });
+  try {
+    assert.deepEqual(await socket.sendCommand({ type: "config/area_registry/list" }), [{ area_id: "kitchen" }]);
+    await assert.rejects(socket.sendCommand({ type: "no/such_command" }), /unknown_command/);
+  } finally {
+    socket.close();
+    await fake.close();
+  }
+});
+
+test("an invalid token is rejected without reconnecting", async () => {
+  const fake = await startFakeHomeAssistant();
+  const socket = new HomeAssistantWebSocket({ url: fake.url, token: "wrong" });
+  try {
+    await assert.rejects(socket.connect(), /authentication failed/);
+  } finally {
+    socket.close();
+    await fake.close();
+  }
+});
+
+test("a server that never answers the auth handshake times out", async () => {
+  const fake = await startFakeHomeAssistant({ silentAuth: true });
+  const socket = new HomeAssistantWebSocket({ url: fake.url, token: fake.token, timeout: 200 });
+  try {
+    await assert.rejects(socket.connect(), /authentication timed out after 200ms/);
+    assert.equal(socket.connected, false);
+  } finally {
+    socket.close();
+    await fake.close();
+  }
+});
+
+test("closing while connecting doesn't leave a socket open", async () => {
+  const fake = await startFakeHomeAssistant();
+  const socket = new HomeAssistantWebSocket({ url: fake.url, token: fake.token });
+  try {
+    const connecting = socket.connect();
+    socket.close();
+    await assert.rejects(connecting);
+    await sleep(50);
+    assert.equal(socket.connected, false);
+    assert.equal(fake.sockets.size, 0);
+  } finally {
+    socket.close();
+    await fake.close();
+  }
+});
+
+test("subscriptions receive events", async () => {
+  const fake = await startFakeHomeAssistant({ states: [{ entity_id: "light.hall", state: "off" }] });
+  const socket = new HomeAssistantWebSocket({ url: fake.url, token: fake.token });
+  try {
+    const events = [];
+    await socket.subscribeEvents(event => events.push(event), "state_changed");
+    fake.setState("light.hall", "on");
+    await sleep(50);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].data.new_state.state, "on");
+  } finally {
+    socket.close();
+    await fake.close();
+  }
+});